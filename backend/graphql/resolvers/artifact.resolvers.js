@@ -1,5 +1,6 @@
 const Artifact = require('../../models/artifact.model');
 const { requireAuth, requireRole } = require('../context');
+const { parseQuizContent } = require('../../utils/quiz');
 
 // =============================================================================
 // ARTIFACT QUERIES
@@ -16,7 +17,7 @@ const artifactQueries = {
     const options = {
       limit: filter?.limit || 50,
       offset: filter?.offset || 0,
-      type: filter?.type,
+      type: filter?.type?.toLowerCase(),
     };
 
     const artifacts = await Artifact.findBySubject(subjectId, options);
@@ -60,6 +61,8 @@ const artifactQueries = {
       image: stats.image || { count: 0, totalSize: 0 },
       pdf: stats.pdf || { count: 0, totalSize: 0 },
       diagram: stats.diagram || { count: 0, totalSize: 0 },
+      quiz: stats.quiz || { count: 0, totalSize: 0 },
+      video: stats.video || { count: 0, totalSize: 0 },
     };
   },
 };
@@ -78,8 +81,17 @@ const artifactMutations = {
 
     await requireRole(context, subjectId, ['owner', 'member', 'admin']);
 
+    // Quizzes are rendered interactively, so reject content the Canvas cannot read
+    if (input.type === 'QUIZ') {
+      parseQuizContent(input.content);
+    }
+
+    // GraphQL enums are uppercase; the model stores lowercase values
     const artifact = await Artifact.create({
       ...input,
+      type: input.type.toLowerCase(),
+      language: input.language?.toLowerCase(),
+      diagramType: input.diagramType?.toLowerCase(),
       createdBy: user._id,
     });
 
@@ -136,6 +148,13 @@ const artifactMutations = {
 // =============================================================================
 
 const artifactResolvers = {
+  /**
+   * Convert lowercase DB values to GraphQL enums
+   */
+  type: (artifact) => artifact.type.toUpperCase(),
+  language: (artifact) => artifact.language?.toUpperCase() || null,
+  diagramType: (artifact) => artifact.diagramType?.toUpperCase() || null,
+
   createdBy: async (artifact, _, context) => {
     if (artifact.createdBy && artifact.createdBy.username) return artifact.createdBy; // Already populated
     return context.loaders.userLoader.load(artifact.createdBy);
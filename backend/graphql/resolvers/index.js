@@ -4,6 +4,7 @@ const { DateTime, JSON } = require('../scalars');
 const authResolvers = require('./auth.resolvers');
 const subjectResolvers = require('./subject.resolvers');
 const artifactResolvers = require('./artifact.resolvers');
+const quizResolvers = require('./quiz.resolvers');
 const notificationResolvers = require('./notification.resolvers');
 const videoResolvers = require('./video.resolvers');
 
@@ -38,9 +39,16 @@ const resolvers = {
     artifact: artifactResolvers.queries.artifact,
     artifactStats: artifactResolvers.queries.artifactStats,
 
+    // Quiz queries
+    quizScores: quizResolvers.queries.quizScores,
+    myQuizAttempts: quizResolvers.queries.myQuizAttempts,
+
     // Notification queries
     notifications: notificationResolvers.queries.notifications,
     unreadNotificationCount: notificationResolvers.queries.unreadNotificationCount,
+
+    // Video queries
+    videoModerationLog: videoResolvers.queries.videoModerationLog,
   },
 
   // ---------------------------------------------------------------------------
@@ -73,14 +81,25 @@ const resolvers = {
     trackArtifactView: artifactResolvers.mutations.trackArtifactView,
     trackArtifactDownload: artifactResolvers.mutations.trackArtifactDownload,
 
+    // Quiz mutations
+    submitQuizAttempt: quizResolvers.mutations.submitQuizAttempt,
+
     // Notification mutations
     markNotificationsRead: notificationResolvers.mutations.markNotificationsRead,
     markAllNotificationsRead: notificationResolvers.mutations.markAllNotificationsRead,
     deleteNotification: notificationResolvers.mutations.deleteNotification,
     clearOldNotifications: notificationResolvers.mutations.clearOldNotifications,
+    notifyMentions: notificationResolvers.mutations.notifyMentions,
 
     // Video mutations
     generateVideoToken: videoResolvers.mutations.generateVideoToken,
+    kickVideoParticipant: videoResolvers.mutations.kickVideoParticipant,
+    muteVideoParticipant: videoResolvers.mutations.muteVideoParticipant,
+    muteAllVideoParticipants: videoResolvers.mutations.muteAllVideoParticipants,
+    setVideoRoomLocked: videoResolvers.mutations.setVideoRoomLocked,
+    setVideoCaptions: videoResolvers.mutations.setVideoCaptions,
+    startVideoRecording: videoResolvers.mutations.startVideoRecording,
+    stopVideoRecording: videoResolvers.mutations.stopVideoRecording,
   },
 
   // ---------------------------------------------------------------------------
@@ -141,10 +160,22 @@ const resolvers = {
    */
   Artifact: artifactResolvers.resolvers,
 
+  /**
+   * Quiz type resolvers
+   */
+  QuizAttempt: quizResolvers.attemptResolvers,
+  QuizScore: quizResolvers.scoreResolvers,
+
   /**
    * Notification type resolvers
    */
   Notification: notificationResolvers.resolvers,
+  NotificationData: notificationResolvers.dataResolvers,
+
+  /**
+   * Video type resolvers
+   */
+  VideoModerationLogEntry: videoResolvers.moderationLogResolvers,
 
   // ---------------------------------------------------------------------------
   // Subscriptions (Placeholder - implement with PubSub)
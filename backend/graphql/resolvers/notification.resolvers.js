@@ -1,5 +1,12 @@
 const Notification = require('../../models/notification.model');
-const { requireAuth } = require('../context');
+const { User } = require('../../models');
+const { requireAuth, requireRole } = require('../context');
+const { extractMentions, previewMessage } = require('../../utils/mentions');
+
+const CHAT_TABLES = {
+  FRIEND: 'friend_messages',
+  AI: 'ai_messages',
+};
 
 // =============================================================================
 // NOTIFICATION QUERIES
@@ -91,6 +98,88 @@ const notificationMutations = {
     await Notification.deleteOld(user._id);
     return { success: true, message: 'Old notifications cleared' };
   },
+
+  /**
+   * Notify the members mentioned in a message the caller sent.
+   * Called again after an edit, only newly mentioned members are notified.
+   */
+  notifyMentions: async (_, { input }, context) => {
+    const user = requireAuth(context);
+    const { subjectId, messageId, chatType } = input;
+    await requireRole(context, subjectId, ['owner', 'admin', 'member']);
+
+    const { data: message } = await context.supabase
+      .from(CHAT_TABLES[chatType])
+      .select('id, subject_id, user_id, content')
+      .eq('id', messageId)
+      .single();
+
+    if (
+      !message ||
+      message.subject_id !== subjectId ||
+      message.user_id !== user._id.toString()
+    ) {
+      throw new Error('Message not found');
+    }
+
+    const usernames = extractMentions(message.content);
+    if (usernames.length === 0) {
+      return { success: true, message: 'No mentions' };
+    }
+
+    const { data: members } = await context.supabase
+      .from('subject_members')
+      .select('user_id')
+      .eq('subject_id', subjectId)
+      .eq('status', 'approved');
+
+    const memberUsers = await User.find({
+      _id: { $in: (members || []).map((m) => m.user_id) },
+    }).select('username');
+
+    const alreadyNotified = await Notification.distinct('userId', {
+      type: 'message_mention',
+      'data.messageId': messageId,
+    });
+    const notified = new Set(alreadyNotified.map((id) => id.toString()));
+
+    const mentioned = memberUsers.filter(
+      (member) =>
+        usernames.includes(member.username.toLowerCase()) &&
+        member._id.toString() !== user._id.toString() &&
+        !notified.has(member._id.toString())
+    );
+
+    if (mentioned.length > 0) {
+      const { data: subject } = await context.supabase
+        .from('subjects')
+        .select('name')
+        .eq('id', subjectId)
+        .single();
+
+      const where = chatType === 'AI' ? 'the AI chat' : 'the group chat';
+      await Promise.all(
+        mentioned.map((member) =>
+          Notification.createNotification({
+            userId: member._id,
+            type: 'message_mention',
+            title: `${user.username} mentioned you in ${where}`,
+            message: previewMessage(message.content),
+            data: {
+              subjectId,
+              subjectName: subject?.name,
+              messageId,
+              chatType: chatType.toLowerCase(),
+              fromUser: user._id,
+              fromUsername: user.username,
+            },
+          })
+        )
+      );
+    }
+
+    return { success: true, message: `Notified ${mentioned.length} member(s)` };
+  },
 };
 
 
@@ -133,8 +222,14 @@ const notificationResolvers = {
   },
 };
 
+// Stored lowercase, exposed as the ChatType enum
+const notificationDataResolvers = {
+  chatType: (data) => data.chatType?.toUpperCase() || null,
+};
+
 module.exports = {
   queries: notificationQueries,
   mutations: notificationMutations,
   resolvers: notificationResolvers,
+  dataResolvers: notificationDataResolvers,
 };
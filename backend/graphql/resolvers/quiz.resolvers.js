@@ -0,0 +1,94 @@
+const Artifact = require('../../models/artifact.model');
+const QuizAttempt = require('../../models/quizAttempt.model');
+const { requireAuth, requireRole } = require('../context');
+const { parseQuizContent, gradeAttempt } = require('../../utils/quiz');
+
+/**
+ * Load a quiz artifact and check the caller can access its subject
+ */
+async function getQuizArtifact(context, artifactId) {
+  const artifact = await Artifact.findById(artifactId);
+  if (!artifact || artifact.isDeleted || artifact.type !== 'quiz') {
+    throw new Error('Quiz not found');
+  }
+
+  await requireRole(context, artifact.subjectId, ['owner', 'member', 'admin']);
+  return artifact;
+}
+
+// =============================================================================
+// QUIZ QUERIES
+// =============================================================================
+
+const quizQueries = {
+  /**
+   * Get each member's scores on a quiz
+   */
+  quizScores: async (_, { artifactId }, context) => {
+    requireAuth(context);
+    await getQuizArtifact(context, artifactId);
+
+    const scores = await QuizAttempt.getScoresByArtifact(artifactId);
+    return scores.map((score) => ({ ...score, userId: score._id }));
+  },
+
+  /**
+   * Get the current user's attempts on a quiz, newest first
+   */
+  myQuizAttempts: async (_, { artifactId }, context) => {
+    const user = requireAuth(context);
+    await getQuizArtifact(context, artifactId);
+
+    return QuizAttempt.find({ artifactId, userId: user._id }).sort({ createdAt: -1 }).limit(20);
+  },
+};
+
+// =============================================================================
+// QUIZ MUTATIONS
+// =============================================================================
+
+const quizMutations = {
+  /**
+   * Grade and record an attempt at a quiz or flashcard deck
+   */
+  submitQuizAttempt: async (_, { input }, context) => {
+    const user = requireAuth(context);
+    const artifact = await getQuizArtifact(context, input.artifactId);
+
+    const answers = input.answers || {};
+    const { score, total, results } = gradeAttempt(parseQuizContent(artifact.content), answers);
+
+    return QuizAttempt.create({
+      artifactId: artifact._id,
+      subjectId: artifact.subjectId,
+      userId: user._id,
+      score,
+      total,
+      answers,
+      results,
+    });
+  },
+};
+
+// =============================================================================
+// QUIZ TYPE RESOLVERS
+// =============================================================================
+
+const quizAttemptResolvers = {
+  id: (attempt) => attempt._id.toString(),
+  artifactId: (attempt) => attempt.artifactId.toString(),
+  user: (attempt, _, context) => context.loaders.userLoader.load(attempt.userId),
+  createdAt: (attempt) => attempt.createdAt.toISOString(),
+};
+
+const quizScoreResolvers = {
+  user: (score, _, context) => context.loaders.userLoader.load(score.userId),
+  lastAttemptAt: (score) => score.lastAttemptAt.toISOString(),
+};
+
+module.exports = {
+  queries: quizQueries,
+  mutations: quizMutations,
+  attemptResolvers: quizAttemptResolvers,
+  scoreResolvers: quizScoreResolvers,
+};
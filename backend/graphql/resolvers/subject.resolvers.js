@@ -1,6 +1,7 @@
 const { createClient } = require('@supabase/supabase-js');
 const { requireAuth, requireRole } = require('../context');
 const Notification = require('../../models/notification.model');
+const { buildAISettingsUpdates } = require('../../utils/aiSettings');
 
 // Initialize Supabase
 const supabase = createClient(
@@ -216,7 +217,7 @@ const subjectMutations = {
   updateSubject: async (_, { id, input }, context) => {
     await requireRole(context, id, ['owner']);
 
-    const updates = {};
+    const updates = buildAISettingsUpdates(input);
     if (input.name) updates.name = input.name.trim();
     if (input.description !== undefined) updates.description = input.description?.trim() || null;
     updates.updated_at = new Date().toISOString();
@@ -713,6 +714,16 @@ const subjectResolvers = {
    */
   isActive: (subject) => subject.is_active,
 
+  /**
+   * AI tutor settings
+   */
+  aiProvider: (subject) => (subject.ai_provider || 'openai').toUpperCase(),
+  aiModel: (subject) => subject.ai_model,
+  aiPersona: (subject) => subject.ai_persona,
+  aiDifficulty: (subject) => subject.ai_difficulty?.toUpperCase() || null,
+  aiLanguage: (subject) => subject.ai_language,
+  aiInstructions: (subject) => subject.ai_instructions,
+
   /**
    * Timestamps
    */
@@ -1,5 +1,87 @@
-const { AccessToken } = require('livekit-server-sdk');
-const { requireAuth } = require('../context');
+const { User } = require('../../models');
+const VideoModerationLog = require('../../models/videoModerationLog.model');
+const CallRecording = require('../../models/callRecording.model');
+const { requireAuth, requireRole } = require('../context');
+const {
+  getVideoRole,
+  createVideoToken,
+  isRoomLocked,
+  setRoomLocked,
+  setRoomCaptions,
+  removeParticipant,
+  muteParticipant,
+  muteAll,
+  listParticipantIdentities,
+  startRoomRecording,
+  stopRoomRecording,
+} = require('../../utils/livekit');
+const { buildRecordingOutput, finishRecording } = require('../../utils/recording');
+
+/**
+ * Check a moderator outranks the participant they are acting on. Owners can
+ * moderate anyone else; admins only members.
+ */
+async function requireOutranks(context, subjectId, moderatorRole, identity) {
+  // Participant identities are usernames
+  const target = await User.findOne({ username: identity }).select('_id');
+  if (!target) return;
+
+  const { data: membership } = await context.supabase
+    .from('subject_members')
+    .select('role')
+    .eq('subject_id', subjectId)
+    .eq('user_id', target._id.toString())
+    .single();
+
+  const targetRole = membership?.role;
+  if (targetRole === 'owner' || (targetRole === 'admin' && moderatorRole !== 'owner')) {
+    throw new Error(`You cannot moderate the subject's ${targetRole}`);
+  }
+}
+
+/**
+ * Check the caller can moderate a subject's call, or the participant
+ * `targetIdentity` in it, and return them
+ */
+async function requireModerator(context, subjectId, targetIdentity = null) {
+  const user = requireAuth(context);
+
+  if (!subjectId) {
+    throw new Error('Subject ID is required');
+  }
+
+  const membership = await requireRole(context, subjectId, ['owner', 'admin']);
+
+  if (targetIdentity && targetIdentity !== user.username) {
+    await requireOutranks(context, subjectId, membership.role, targetIdentity);
+  }
+
+  return user;
+}
+
+/**
+ * Write an audit entry for a moderation action
+ */
+function logModeration(subjectId, user, action, targetIdentity = null) {
+  return VideoModerationLog.create({ subjectId, actorId: user._id, action, targetIdentity });
+}
+
+// =============================================================================
+// VIDEO QUERIES
+// =============================================================================
+
+const videoQueries = {
+  /**
+   * Moderation actions taken in a subject's calls, newest first
+   */
+  videoModerationLog: async (_, { subjectId, limit }, context) => {
+    await requireModerator(context, subjectId);
+
+    return VideoModerationLog.find({ subjectId })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit || 50, 200));
+  },
+};
 
 // =============================================================================
 // VIDEO MUTATIONS
@@ -7,44 +89,168 @@ const { requireAuth } = require('../context');
 
 const videoMutations = {
   /**
-   * Generate LiveKit video token
+   * Generate a LiveKit token for a subject's video call, granted by the
+   * member's role
    */
-  generateVideoToken: async (_, { roomName }, context) => {
+  generateVideoToken: async (_, { subjectId, listener }, context) => {
     const user = requireAuth(context);
 
-    if (!roomName) {
-      throw new Error('Room name is required');
+    if (!subjectId) {
+      throw new Error('Subject ID is required');
     }
 
-    const apiKey = process.env.LIVEKIT_API_KEY;
-    const apiSecret = process.env.LIVEKIT_API_SECRET;
+    const membership = await requireRole(context, subjectId, ['owner', 'admin', 'member']);
+    const videoRole = getVideoRole(membership.role, listener);
 
-    if (!apiKey || !apiSecret) {
-      throw new Error('LiveKit credentials not configured');
+    // Owners and admins can always join; a lock only keeps out members
+    if (videoRole !== 'admin' && (await isRoomLocked(subjectId))) {
+      throw new Error('This call is locked');
     }
 
-    const token = new AccessToken(apiKey, apiSecret, {
-      identity: user.username,
-      name: user.username,
-    });
-
-    token.addGrant({
-      roomJoin: true,
-      room: roomName,
-      canPublish: true,
-      canSubscribe: true,
-      canPublishData: true,
+    const token = await createVideoToken({
+      subjectId,
+      userId: user._id.toString(),
+      username: user.username,
+      videoRole,
     });
 
-    const jwt = await token.toJwt();
-
     return {
       success: true,
-      token: jwt,
+      token,
+      roomName: subjectId,
+      role: videoRole.toUpperCase(),
     };
   },
+
+  /**
+   * Remove a participant from a subject's call
+   */
+  kickVideoParticipant: async (_, { subjectId, identity }, context) => {
+    const user = await requireModerator(context, subjectId, identity);
+
+    if (identity === user.username) {
+      throw new Error('You cannot remove yourself');
+    }
+
+    await removeParticipant(subjectId, identity);
+    await logModeration(subjectId, user, 'kick', identity);
+
+    return { success: true, message: `${identity} was removed from the call` };
+  },
+
+  /**
+   * Mute a participant's microphone, camera and screen share
+   */
+  muteVideoParticipant: async (_, { subjectId, identity }, context) => {
+    const user = await requireModerator(context, subjectId, identity);
+
+    await muteParticipant(subjectId, identity);
+    await logModeration(subjectId, user, 'mute', identity);
+
+    return { success: true, message: `${identity} was muted` };
+  },
+
+  /**
+   * Mute every participant's microphone except the caller's
+   */
+  muteAllVideoParticipants: async (_, { subjectId }, context) => {
+    const user = await requireModerator(context, subjectId);
+
+    await muteAll(subjectId, user.username);
+    await logModeration(subjectId, user, 'mute_all');
+
+    return { success: true, message: 'Everyone was muted' };
+  },
+
+  /**
+   * Lock or unlock a subject's call to new joiners
+   */
+  setVideoRoomLocked: async (_, { subjectId, locked }, context) => {
+    const user = await requireModerator(context, subjectId);
+
+    await setRoomLocked(subjectId, locked);
+    await logModeration(subjectId, user, locked ? 'lock' : 'unlock');
+
+    return { success: true, message: locked ? 'Call locked' : 'Call unlocked' };
+  },
+
+  /**
+   * Turn live captions on or off for a subject's call
+   */
+  setVideoCaptions: async (_, { subjectId, enabled }, context) => {
+    const user = await requireModerator(context, subjectId);
+
+    await setRoomCaptions(subjectId, enabled);
+    await logModeration(subjectId, user, enabled ? 'captions_on' : 'captions_off');
+
+    return { success: true, message: enabled ? 'Captions on' : 'Captions off' };
+  },
+
+  /**
+   * Start recording a subject's call; the file is saved to the Canvas when
+   * the recording stops
+   */
+  startVideoRecording: async (_, { subjectId }, context) => {
+    const user = await requireModerator(context, subjectId);
+
+    if (await CallRecording.exists({ subjectId, status: 'active' })) {
+      throw new Error('This call is already being recorded');
+    }
+
+    const participants = await listParticipantIdentities(subjectId);
+    if (participants.length === 0) {
+      throw new Error('No video call in progress');
+    }
+
+    const info = await startRoomRecording(subjectId, buildRecordingOutput(subjectId));
+    await CallRecording.create({
+      subjectId,
+      egressId: info.egressId,
+      startedBy: user._id,
+      participants,
+    });
+
+    return { success: true, message: 'Recording started' };
+  },
+
+  /**
+   * Stop recording a subject's call
+   */
+  stopVideoRecording: async (_, { subjectId }, context) => {
+    await requireModerator(context, subjectId);
+
+    const recording = await CallRecording.findOne({ subjectId, status: 'active' });
+    if (!recording) {
+      throw new Error('This call is not being recorded');
+    }
+
+    const info = await stopRoomRecording(recording.egressId);
+    // The webhook may already have finished it
+    await CallRecording.updateOne(
+      { _id: recording._id, status: 'active' },
+      { status: 'processing' }
+    );
+
+    // Usually the egress is still ending; the egress_ended webhook saves it
+    await finishRecording(info);
+
+    return { success: true, message: 'Recording stopped; it will appear in the Canvas shortly' };
+  },
+};
+
+// =============================================================================
+// VIDEO TYPE RESOLVERS
+// =============================================================================
+
+const moderationLogResolvers = {
+  id: (entry) => entry._id.toString(),
+  action: (entry) => entry.action.toUpperCase(),
+  actor: (entry, _, context) => context.loaders.userLoader.load(entry.actorId),
+  createdAt: (entry) => entry.createdAt.toISOString(),
 };
 
 module.exports = {
+  queries: videoQueries,
   mutations: videoMutations,
+  moderationLogResolvers,
 };
@@ -17,7 +17,7 @@ const artifactSchema = new mongoose.Schema(
     type: {
       type: String,
       required: [true, 'Artifact type is required'],
-      enum: ['code', 'image', 'pdf', 'diagram', 'markdown', 'html'],
+      enum: ['code', 'image', 'pdf', 'diagram', 'markdown', 'html', 'quiz', 'video'],
     },
 
     title: {
@@ -77,6 +77,21 @@ const artifactSchema = new mongoose.Schema(
       enum: ['mermaid', 'plantuml', 'flowchart', 'sequence', 'other'],
     },
 
+    // Set on video artifacts saved from a call recording
+    recording: {
+      type: new mongoose.Schema(
+        {
+          egressId: String,
+          durationSeconds: Number,
+          participants: [String],
+          startedAt: Date,
+          endedAt: Date,
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -129,6 +144,12 @@ artifactSchema.index({ createdBy: 1, createdAt: -1 });
 
 artifactSchema.index({ subjectId: 1, type: 1, createdAt: -1 });
 
+// Room search; queries must match subjectId exactly
+artifactSchema.index(
+  { subjectId: 1, title: 'text', content: 'text' },
+  { name: 'artifact_search', weights: { title: 5, content: 1 } }
+);
+
 // =============================================================================
 // VIRTUAL PROPERTIES
 // =============================================================================
@@ -186,6 +207,16 @@ artifactSchema.statics.findByMessage = function (messageId) {
     .populate('createdBy', 'username email avatar');
 };
 
+artifactSchema.statics.searchBySubject = function (subjectId, query, limit = 20) {
+  return this.find(
+    { subjectId, isDeleted: false, $text: { $search: query } },
+    { score: { $meta: 'textScore' } }
+  )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit)
+    .populate('createdBy', 'username email avatar');
+};
+
 artifactSchema.statics.getCountBySubject = function (subjectId) {
   return this.countDocuments({ subjectId, isDeleted: false });
 };
@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+
+const callRecordingSchema = new mongoose.Schema(
+  {
+    subjectId: {
+      type: String,
+      required: [true, 'Subject ID is required'],
+      index: true,
+    },
+
+    // LiveKit Egress job writing the file
+    egressId: {
+      type: String,
+      required: [true, 'Egress ID is required'],
+      unique: true,
+    },
+
+    startedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Starter is required'],
+    },
+
+    // active: recording; processing: stopped, waiting for the file;
+    // saved: added to the Canvas; failed: egress ended without a file
+    status: {
+      type: String,
+      enum: ['active', 'processing', 'saved', 'failed'],
+      default: 'active',
+    },
+
+    // Identities of everyone seen in the call while it was recorded
+    participants: {
+      type: [String],
+      default: [],
+    },
+
+    artifactId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Artifact',
+      default: null,
+    },
+
+    error: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+callRecordingSchema.index({ subjectId: 1, status: 1 });
+
+const CallRecording = mongoose.model('CallRecording', callRecordingSchema);
+module.exports = CallRecording;
@@ -1,7 +1,13 @@
 const User = require('./user.model');
 const Artifact = require('./artifact.model');
+const QuizAttempt = require('./quizAttempt.model');
+const VideoModerationLog = require('./videoModerationLog.model');
+const CallRecording = require('./callRecording.model');
 
 module.exports = {
   User,
   Artifact,
+  QuizAttempt,
+  VideoModerationLog,
+  CallRecording,
 };
@@ -57,6 +57,12 @@ const notificationSchema = new mongoose.Schema(
         type: String,
         default: null,
       },
+      // Chat the message is in: 'friend' or 'ai'
+      chatType: {
+        type: String,
+        enum: ['friend', 'ai', null],
+        default: null,
+      },
       fromUser: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+
+const quizAttemptSchema = new mongoose.Schema(
+  {
+    artifactId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Artifact',
+      required: [true, 'Artifact ID is required'],
+      index: true,
+    },
+
+    subjectId: {
+      type: String,
+      required: [true, 'Subject ID is required'],
+      index: true,
+    },
+
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+
+    score: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+
+    total: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+
+    // Submitted answers keyed by question or card ID
+    answers: {
+      type: mongoose.Schema.Types.Mixed,
+      default: {},
+    },
+
+    // Per-question outcome: [{ id, correct }]
+    results: {
+      type: [
+        {
+          _id: false,
+          id: String,
+          correct: Boolean,
+        },
+      ],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+quizAttemptSchema.index({ artifactId: 1, userId: 1, createdAt: -1 });
+
+/**
+ * Best score, attempt count and last attempt per member for an artifact
+ */
+quizAttemptSchema.statics.getScoresByArtifact = function (artifactId) {
+  return this.aggregate([
+    { $match: { artifactId: new mongoose.Types.ObjectId(artifactId) } },
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: '$userId',
+        bestScore: { $max: '$score' },
+        lastScore: { $first: '$score' },
+        total: { $first: '$total' },
+        attempts: { $sum: 1 },
+        lastAttemptAt: { $first: '$createdAt' },
+      },
+    },
+    { $sort: { bestScore: -1, lastAttemptAt: 1 } },
+  ]);
+};
+
+const QuizAttempt = mongoose.model('QuizAttempt', quizAttemptSchema);
+module.exports = QuizAttempt;
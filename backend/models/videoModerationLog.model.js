@@ -0,0 +1,38 @@
+const mongoose = require('mongoose');
+
+const videoModerationLogSchema = new mongoose.Schema(
+  {
+    subjectId: {
+      type: String,
+      required: [true, 'Subject ID is required'],
+      index: true,
+    },
+
+    // Owner or admin who took the action
+    actorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor ID is required'],
+    },
+
+    action: {
+      type: String,
+      enum: ['kick', 'mute', 'mute_all', 'lock', 'unlock', 'captions_on', 'captions_off'],
+      required: [true, 'Action is required'],
+    },
+
+    // LiveKit identity (username) of the participant acted on, for kick and mute
+    targetIdentity: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+videoModerationLogSchema.index({ subjectId: 1, createdAt: -1 });
+
+const VideoModerationLog = mongoose.model('VideoModerationLog', videoModerationLogSchema);
+module.exports = VideoModerationLog;
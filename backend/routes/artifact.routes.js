@@ -1,9 +1,16 @@
 const express = require('express');
 const router = express.Router();
+const { createClient } = require('@supabase/supabase-js');
 const Artifact = require('../models/artifact.model');
 const { authenticate } = require('../middleware/auth');
 const cloudinary = require('cloudinary').v2;
 const multer = require('multer');
+const { getSearchTerms, highlight, buildSnippet } = require('../utils/search');
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_KEY
+);
 
 // Configure Cloudinary
 cloudinary.config({
@@ -103,6 +110,67 @@ router.get('/subject/:subjectId/stats', authenticate, async (req, res) => {
   }
 });
 
+// =============================================================================
+// SEARCH ARTIFACTS
+// =============================================================================
+
+/**
+ * @route   GET /api/artifacts/subject/:subjectId/search?q=
+ * @desc    Full-text search of a subject's artifact titles and content
+ * @access  Private (members only)
+ */
+router.get('/subject/:subjectId/search', authenticate, async (req, res) => {
+  try {
+    const { subjectId } = req.params;
+    const { q = '', limit = 20 } = req.query;
+    const query = String(q).trim();
+
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        message: 'Search query is required',
+      });
+    }
+
+    const { data: membership } = await supabase
+      .from('subject_members')
+      .select('status')
+      .eq('subject_id', subjectId)
+      .eq('user_id', req.userId)
+      .single();
+
+    if (!membership || membership.status !== 'approved') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied',
+      });
+    }
+
+    const artifacts = await Artifact.searchBySubject(subjectId, query, parseInt(limit));
+    const terms = getSearchTerms(query);
+
+    res.json({
+      success: true,
+      data: artifacts.map((artifact) => ({
+        _id: artifact._id,
+        type: artifact.type,
+        title: artifact.title,
+        titleHighlight: highlight(artifact.title, terms),
+        snippet: buildSnippet(artifact.content, terms),
+        fileName: artifact.fileName,
+        createdBy: artifact.createdBy,
+        createdAt: artifact.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Search artifacts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search artifacts',
+    });
+  }
+});
+
 // =============================================================================
 // GET SINGLE ARTIFACT
 // =============================================================================
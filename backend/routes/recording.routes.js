@@ -0,0 +1,64 @@
+const express = require('express');
+const path = require('path');
+const { createClient } = require('@supabase/supabase-js');
+const { authenticate } = require('../middleware/auth');
+
+const router = express.Router();
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_KEY
+);
+
+/**
+ * GET /recordings/:subjectId/:fileName
+ * Stream a call recording written by a self-hosted LiveKit Egress to a member
+ * of its subject. Egress writes each subject's recordings to their own
+ * directory under RECORDINGS_DIR (see utils/recording.js). The access token
+ * cookie is sent with the <video> request, so no header is needed.
+ */
+router.get('/:subjectId/:fileName', authenticate, async (req, res) => {
+  try {
+    const { subjectId, fileName } = req.params;
+
+    if (path.basename(fileName) !== fileName || path.basename(subjectId) !== subjectId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid recording path',
+      });
+    }
+
+    const { data: membership } = await supabase
+      .from('subject_members')
+      .select('status')
+      .eq('subject_id', subjectId)
+      .eq('user_id', req.userId)
+      .single();
+
+    if (!membership || membership.status !== 'approved') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied',
+      });
+    }
+
+    // sendFile handles Range requests, so the player can seek
+    res.sendFile(path.join(subjectId, fileName), { root: process.env.RECORDINGS_DIR }, (error) => {
+      if (error && !res.headersSent) {
+        res.status(error.status || 500).json({
+          success: false,
+          message: error.status === 404 ? 'Recording not found' : 'Failed to send recording',
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Get recording error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get recording',
+      error: error.message,
+    });
+  }
+});
+
+module.exports = router;
@@ -3,6 +3,7 @@ const { authenticate } = require('../middleware/auth');
 const { createClient } = require('@supabase/supabase-js');
 const Notification = require('../models/notification.model');
 const User = require('../models/user.model');
+const { buildAISettingsUpdates } = require('../utils/aiSettings');
 
 const router = express.Router();
 
@@ -273,7 +274,17 @@ router.put('/:id', authenticate, async (req, res) => {
     }
 
     // Update subject
-    const updates = {};
+    let aiUpdates;
+    try {
+      aiUpdates = buildAISettingsUpdates(req.body);
+    } catch (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError.message,
+      });
+    }
+
+    const updates = { ...aiUpdates };
     if (name) updates.name = name.trim();
     if (description !== undefined) updates.description = description?.trim() || null;
     updates.updated_at = new Date().toISOString();
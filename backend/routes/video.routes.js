@@ -1,56 +1,76 @@
 const express = require('express');
-const { AccessToken } = require('livekit-server-sdk');
+const { createClient } = require('@supabase/supabase-js');
 const { authenticate } = require('../middleware/auth');
+const {
+  getVideoRole,
+  createVideoToken,
+  isRoomLocked,
+  receiveWebhook,
+} = require('../utils/livekit');
+const { handleRecordingWebhook } = require('../utils/recording');
+const { handleCallSummaryWebhook } = require('../utils/callSummary');
 
 const router = express.Router();
 
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_KEY
+);
+
 /**
  * POST /api/video/token
- * Generate a LiveKit access token
+ * Generate a LiveKit access token for a subject's video call
+ * Body: { subject_id, listener? }
  */
 router.post('/token', authenticate, async (req, res) => {
   try {
-    const { room_name } = req.body;
+    const { subject_id, listener = false } = req.body;
     const userId = req.userId;
     const username = req.user.username;
 
-    if (!room_name) {
+    if (!subject_id) {
       return res.status(400).json({
         success: false,
-        message: 'Room name is required',
+        message: 'Subject ID is required',
       });
     }
 
-    const apiKey = process.env.LIVEKIT_API_KEY;
-    const apiSecret = process.env.LIVEKIT_API_SECRET;
+    const { data: membership } = await supabase
+      .from('subject_members')
+      .select('role, status')
+      .eq('subject_id', subject_id)
+      .eq('user_id', userId)
+      .single();
 
-    if (!apiKey || !apiSecret) {
-      return res.status(500).json({
+    if (!membership || membership.status !== 'approved') {
+      return res.status(403).json({
         success: false,
-        message: 'LiveKit credentials not configured',
+        message: 'Access denied',
       });
     }
 
-    // Create access token
-    const token = new AccessToken(apiKey, apiSecret, {
-      identity: username,
-      name: username,
-    });
+    const videoRole = getVideoRole(membership.role, Boolean(listener));
 
-    // Grant permissions
-    token.addGrant({
-      roomJoin: true,
-      room: room_name,
-      canPublish: true,
-      canSubscribe: true,
-      canPublishData: true,
-    });
+    // Owners and admins can always join; a lock only keeps out members
+    if (videoRole !== 'admin' && (await isRoomLocked(subject_id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'This call is locked',
+      });
+    }
 
-    const jwt = await token.toJwt();
+    const token = await createVideoToken({
+      subjectId: subject_id,
+      userId,
+      username,
+      videoRole,
+    });
 
     res.json({
       success: true,
-      token: jwt,
+      token,
+      room_name: subject_id,
+      role: videoRole,
     });
   } catch (error) {
     console.error('Token generation error:', error);
@@ -62,4 +82,39 @@ router.post('/token', authenticate, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/video/webhook
+ * Events from the LiveKit server, signed with the API key
+ * Configure LiveKit to post its webhooks here (webhook.urls in livekit.yaml)
+ */
+router.post('/webhook', express.raw({ type: 'application/webhook+json' }), async (req, res) => {
+  let event;
+  try {
+    event = await receiveWebhook(req.body.toString(), req.get('Authorization'));
+  } catch (error) {
+    console.error('Webhook verification error:', error);
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid webhook signature',
+    });
+  }
+
+  // Summarizing takes a while; LiveKit would time out and resend the event
+  handleCallSummaryWebhook(event).catch((error) => {
+    console.error('Call summary error:', error);
+  });
+
+  try {
+    await handleRecordingWebhook(event);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Webhook handling error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to handle webhook',
+      error: error.message,
+    });
+  }
+});
+
 module.exports = router;
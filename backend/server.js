@@ -10,6 +10,7 @@ const subjectRoutes = require('./routes/subject.routes');
 const videoRoutes = require('./routes/video.routes');
 const artifactRoutes = require('./routes/artifact.routes');
 const notificationRoutes = require('./routes/notification.routes');
+const recordingRoutes = require('./routes/recording.routes');
 
 // GraphQL
 const { createGraphQLServer } = require('./graphql/apollo-server');
@@ -104,6 +105,11 @@ app.use('/api/subjects', subjectRoutes);
 // Video routes
 app.use('/api/video', videoRoutes);
 
+// Call recordings written by a self-hosted LiveKit Egress, for subject members only
+if (process.env.RECORDINGS_DIR) {
+  app.use('/recordings', recordingRoutes);
+}
+
 // Artifact routes (Canvas)
 app.use('/api/artifacts', artifactRoutes);
 
@@ -0,0 +1,73 @@
+/**
+ * AI tutor settings stored on a subject
+ * Keep AI_PROVIDERS and AI_DIFFICULTIES in sync with src/lib/llm/catalog.ts
+ */
+const AI_PROVIDERS = ['openai', 'local', 'mock'];
+const AI_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'];
+
+const MAX_PERSONA_LENGTH = 200;
+const MAX_LANGUAGE_LENGTH = 50;
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+/**
+ * Trim an optional text setting, returning null when empty
+ */
+function normalizeText(value, field, maxLength) {
+  const text = value?.trim() || null;
+  if (text && text.length > maxLength) {
+    throw new Error(`${field} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+/**
+ * Build Supabase column updates from AI settings input
+ * Accepts REST values (lowercase) or GraphQL enum values (uppercase)
+ */
+function buildAISettingsUpdates(input = {}) {
+  const updates = {};
+
+  if (input.aiProvider !== undefined && input.aiProvider !== null) {
+    const provider = String(input.aiProvider).toLowerCase();
+    if (!AI_PROVIDERS.includes(provider)) {
+      throw new Error(`AI provider must be one of: ${AI_PROVIDERS.join(', ')}`);
+    }
+    updates.ai_provider = provider;
+  }
+
+  if (input.aiModel !== undefined) {
+    updates.ai_model = input.aiModel?.trim() || null;
+  }
+
+  if (input.aiPersona !== undefined) {
+    updates.ai_persona = normalizeText(input.aiPersona, 'Persona', MAX_PERSONA_LENGTH);
+  }
+
+  if (input.aiDifficulty !== undefined) {
+    const difficulty = input.aiDifficulty ? String(input.aiDifficulty).toLowerCase() : null;
+    if (difficulty && !AI_DIFFICULTIES.includes(difficulty)) {
+      throw new Error(`Difficulty must be one of: ${AI_DIFFICULTIES.join(', ')}`);
+    }
+    updates.ai_difficulty = difficulty;
+  }
+
+  if (input.aiLanguage !== undefined) {
+    updates.ai_language = normalizeText(input.aiLanguage, 'Language', MAX_LANGUAGE_LENGTH);
+  }
+
+  if (input.aiInstructions !== undefined) {
+    updates.ai_instructions = normalizeText(
+      input.aiInstructions,
+      'Instructions',
+      MAX_INSTRUCTIONS_LENGTH
+    );
+  }
+
+  return updates;
+}
+
+module.exports = {
+  AI_PROVIDERS,
+  AI_DIFFICULTIES,
+  buildAISettingsUpdates,
+};
@@ -0,0 +1,78 @@
+/**
+ * Post-Call Summary
+ *
+ * When LiveKit reports a subject's room finished, asks the Next app to
+ * summarize whatever was transcribed during the call (POST
+ * /api/ai/call-summary). The request is made as the subject's owner, with a
+ * short-lived access token, so the summary is saved to the Canvas like any
+ * other artifact. Calls without captions have nothing to summarize and the
+ * app answers with null data.
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+const User = require('../models/user.model');
+const { generateAccessToken } = require('./jwt');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
+
+/** Long enough for the tutor to write the summary */
+const SUMMARY_TOKEN_EXPIRES_IN = '5m';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_KEY
+);
+
+/**
+ * Summarize the call that just ended in a subject's room
+ */
+async function requestCallSummary(subjectId) {
+  const { data: subject, error } = await supabase
+    .from('subjects')
+    .select('created_by')
+    .eq('id', subjectId)
+    .single();
+
+  if (error || !subject) {
+    throw new Error(`Subject ${subjectId} not found`);
+  }
+
+  const owner = await User.findById(subject.created_by);
+  if (!owner) {
+    throw new Error(`Owner of subject ${subjectId} not found`);
+  }
+
+  const accessToken = generateAccessToken(
+    owner._id,
+    owner.email,
+    owner.username,
+    SUMMARY_TOKEN_EXPIRES_IN
+  );
+
+  const response = await fetch(`${CLIENT_URL}/api/ai/call-summary`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ subjectId }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.message || `Call summary failed with status ${response.status}`);
+  }
+
+  return body.data;
+}
+
+/**
+ * Handle a LiveKit webhook event; only room_finished is of interest
+ */
+async function handleCallSummaryWebhook(event) {
+  if (event.event !== 'room_finished' || !event.room) return;
+
+  return requestCallSummary(event.room.name);
+}
+
+module.exports = {
+  requestCallSummary,
+  handleCallSummaryWebhook,
+};
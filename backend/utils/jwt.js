@@ -7,7 +7,7 @@ const REFRESH_TOKEN_EXPIRES_IN = '30d';
 /**
  * Generate access token
  */
-function generateAccessToken(userId, email, username) {
+function generateAccessToken(userId, email, username, expiresIn = JWT_EXPIRES_IN) {
   return jwt.sign(
     {
       userId,
@@ -16,7 +16,7 @@ function generateAccessToken(userId, email, username) {
       type: 'access',
     },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
+    { expiresIn }
   );
 }
 
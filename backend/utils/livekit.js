@@ -0,0 +1,265 @@
+/**
+ * LiveKit Utilities
+ *
+ * Access tokens for a subject's video call. Each subject has one LiveKit
+ * room, named by its ID, and the grant depends on the member's role:
+ * owners and admins moderate the room, members take part, and listeners
+ * (any member joining with `listener`) can only watch and listen.
+ *
+ * Owners and admins moderate the call through the room service API: they
+ * can remove participants, mute them, and lock the room to new joiners.
+ * The lock lives in the room's metadata, so it lasts as long as the room;
+ * so does the captions switch, which has every client transcribe its own
+ * microphone.
+ *
+ * Recordings run on LiveKit Egress (see utils/recording.js for where the
+ * files go). LiveKit itself tells everyone in the call when one is running.
+ */
+
+const {
+  AccessToken,
+  EgressClient,
+  RoomServiceClient,
+  TrackType,
+  WebhookReceiver,
+} = require('livekit-server-sdk');
+
+let roomService = null;
+let egressClient = null;
+
+/**
+ * LiveKit API key and secret from the environment
+ */
+function getCredentials() {
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    throw new Error('LiveKit credentials not configured');
+  }
+
+  return { apiKey, apiSecret };
+}
+
+/**
+ * HTTP(S) URL of the LiveKit server's API, on the same host as the WebSocket URL
+ */
+function getApiHost() {
+  const url = process.env.LIVEKIT_URL || process.env.NEXT_PUBLIC_LIVEKIT_URL;
+
+  if (!url) {
+    throw new Error('LiveKit URL not configured');
+  }
+
+  return url.replace(/^ws/, 'http');
+}
+
+/**
+ * Room service client for the LiveKit server (created on first use)
+ */
+function getRoomService() {
+  if (!roomService) {
+    const { apiKey, apiSecret } = getCredentials();
+    roomService = new RoomServiceClient(getApiHost(), apiKey, apiSecret);
+  }
+  return roomService;
+}
+
+/**
+ * Egress client for the LiveKit server (created on first use)
+ */
+function getEgressClient() {
+  if (!egressClient) {
+    const { apiKey, apiSecret } = getCredentials();
+    egressClient = new EgressClient(getApiHost(), apiKey, apiSecret);
+  }
+  return egressClient;
+}
+
+/**
+ * Role a member joins the call with
+ */
+function getVideoRole(memberRole, listener = false) {
+  if (listener) return 'listener';
+  return memberRole === 'owner' || memberRole === 'admin' ? 'admin' : 'member';
+}
+
+/**
+ * LiveKit grant for a video role in a subject's room
+ */
+function buildVideoGrant(subjectId, videoRole) {
+  const grant = {
+    roomJoin: true,
+    room: subjectId,
+    canSubscribe: true,
+    canPublish: videoRole !== 'listener',
+    canPublishData: true,
+  };
+
+  if (videoRole === 'admin') grant.roomAdmin = true;
+
+  return grant;
+}
+
+/**
+ * Signed access token for a member joining a subject's video call
+ */
+async function createVideoToken({ subjectId, userId, username, videoRole }) {
+  const { apiKey, apiSecret } = getCredentials();
+
+  const token = new AccessToken(apiKey, apiSecret, {
+    identity: username,
+    name: username,
+    metadata: JSON.stringify({ userId, role: videoRole }),
+  });
+  token.addGrant(buildVideoGrant(subjectId, videoRole));
+
+  return token.toJwt();
+}
+
+/**
+ * Parsed metadata of a subject's room, or null when no call is running
+ */
+async function getRoomMetadata(subjectId) {
+  const [room] = await getRoomService().listRooms([subjectId]);
+  if (!room) return null;
+
+  try {
+    return room.metadata ? JSON.parse(room.metadata) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether a subject's call is locked to new joiners. If the LiveKit API can't
+ * be reached the room is treated as unlocked, so members can still join.
+ */
+async function isRoomLocked(subjectId) {
+  try {
+    const metadata = await getRoomMetadata(subjectId);
+    return Boolean(metadata?.locked);
+  } catch (error) {
+    console.error('Room lock lookup error (check LIVEKIT_URL):', error.message);
+    return false;
+  }
+}
+
+/**
+ * Merge `changes` into the metadata of a subject's running call
+ */
+async function updateRoomMetadata(subjectId, changes) {
+  const metadata = await getRoomMetadata(subjectId);
+  if (!metadata) {
+    throw new Error('No video call in progress');
+  }
+
+  await getRoomService().updateRoomMetadata(subjectId, JSON.stringify({ ...metadata, ...changes }));
+}
+
+/**
+ * Lock or unlock a subject's call. Participants already in the call stay.
+ */
+async function setRoomLocked(subjectId, locked) {
+  await updateRoomMetadata(subjectId, { locked });
+}
+
+/**
+ * Turn live captions on or off for everyone in a subject's call
+ */
+async function setRoomCaptions(subjectId, captions) {
+  await updateRoomMetadata(subjectId, { captions });
+}
+
+/**
+ * Identities of everyone in a subject's call
+ */
+async function listParticipantIdentities(subjectId) {
+  const participants = await getRoomService().listParticipants(subjectId);
+  return participants.map((participant) => participant.identity);
+}
+
+/**
+ * Disconnect a participant from a subject's call
+ */
+async function removeParticipant(subjectId, identity) {
+  await getRoomService().removeParticipant(subjectId, identity);
+}
+
+/**
+ * Mute every track a participant is publishing
+ */
+async function muteParticipant(subjectId, identity) {
+  const service = getRoomService();
+  const participant = await service.getParticipant(subjectId, identity);
+
+  await Promise.all(
+    participant.tracks
+      .filter((track) => !track.muted)
+      .map((track) => service.mutePublishedTrack(subjectId, identity, track.sid, true))
+  );
+}
+
+/**
+ * Mute the microphones of everyone in a subject's call except `exceptIdentity`
+ */
+async function muteAll(subjectId, exceptIdentity) {
+  const service = getRoomService();
+  const participants = await service.listParticipants(subjectId);
+
+  await Promise.all(
+    participants
+      .filter((participant) => participant.identity !== exceptIdentity)
+      .flatMap((participant) =>
+        participant.tracks
+          .filter((track) => track.type === TrackType.AUDIO && !track.muted)
+          .map((track) =>
+            service.mutePublishedTrack(subjectId, participant.identity, track.sid, true)
+          )
+      )
+  );
+}
+
+/**
+ * Start recording a subject's call as one composite video file
+ */
+async function startRoomRecording(subjectId, fileOutput) {
+  return getEgressClient().startRoomCompositeEgress(
+    subjectId,
+    { file: fileOutput },
+    { layout: 'grid' }
+  );
+}
+
+/**
+ * Stop a recording. Egress finishes writing the file afterwards and reports
+ * it through the `egress_ended` webhook.
+ */
+async function stopRoomRecording(egressId) {
+  return getEgressClient().stopEgress(egressId);
+}
+
+/**
+ * Verify and parse a webhook LiveKit posted to the API
+ */
+function receiveWebhook(body, authHeader) {
+  const { apiKey, apiSecret } = getCredentials();
+  return new WebhookReceiver(apiKey, apiSecret).receive(body, authHeader);
+}
+
+module.exports = {
+  getVideoRole,
+  buildVideoGrant,
+  createVideoToken,
+  isRoomLocked,
+  setRoomLocked,
+  setRoomCaptions,
+  updateRoomMetadata,
+  listParticipantIdentities,
+  startRoomRecording,
+  stopRoomRecording,
+  receiveWebhook,
+  removeParticipant,
+  muteParticipant,
+  muteAll,
+};
@@ -0,0 +1,36 @@
+/**
+ * Mention Utilities
+ *
+ * Finds the "@username" mentions in a chat message so the members mentioned
+ * can be notified. Matches src/lib/mentions.ts, which the chats use to
+ * highlight mentions and autocomplete them.
+ */
+
+/** A mention starts the text or follows whitespace or an opening bracket */
+const MENTION_PATTERN = /(^|[\s([{])@(\w+)/g;
+
+/**
+ * Usernames mentioned in a message, lowercased and without duplicates
+ */
+function extractMentions(content) {
+  const usernames = new Set();
+  for (const match of String(content || '').matchAll(MENTION_PATTERN)) {
+    usernames.add(match[2].toLowerCase());
+  }
+  return [...usernames];
+}
+
+/**
+ * Short preview of a message for notification text
+ */
+function previewMessage(content, maxLength = 200) {
+  const text = String(content || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+module.exports = {
+  extractMentions,
+  previewMessage,
+};
@@ -0,0 +1,77 @@
+/**
+ * Quiz Utilities
+ *
+ * Parses the JSON content of quiz artifacts and grades attempts. A quiz
+ * artifact holds either a quiz (multiple choice and short answer questions)
+ * or a flashcard deck; see src/lib/quiz.ts for the content format.
+ */
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace so short answers can be
+ * compared loosely
+ */
+function normalizeAnswer(value) {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse a quiz artifact's content, throwing if it is not a valid quiz or deck
+ */
+function parseQuizContent(content) {
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Quiz content is not valid JSON');
+  }
+
+  if (parsed?.kind === 'quiz' && Array.isArray(parsed.questions)) {
+    return parsed;
+  }
+  if (parsed?.kind === 'flashcards' && Array.isArray(parsed.cards)) {
+    return parsed;
+  }
+  throw new Error('Quiz content must be a quiz or a flashcard deck');
+}
+
+/**
+ * Grade an attempt.
+ * Quiz answers map question IDs to an option index (multiple choice) or text
+ * (short answer). Flashcard answers map card IDs to whether the member knew it.
+ */
+function gradeAttempt(quiz, answers = {}) {
+  if (quiz.kind === 'flashcards') {
+    const results = quiz.cards.map((card) => ({
+      id: card.id,
+      correct: answers[card.id] === true,
+    }));
+    return { score: results.filter((r) => r.correct).length, total: results.length, results };
+  }
+
+  const results = quiz.questions.map((question) => {
+    const answer = answers[question.id];
+
+    if (question.type === 'multiple_choice') {
+      // Unanswered (null, '', false) must not count as the first option
+      return {
+        id: question.id,
+        correct: Number.isInteger(answer) && answer === question.correctIndex,
+      };
+    }
+
+    const accepted = [question.answer, ...(question.acceptedAnswers || [])].map(normalizeAnswer);
+    return { id: question.id, correct: accepted.includes(normalizeAnswer(answer)) };
+  });
+
+  return { score: results.filter((r) => r.correct).length, total: results.length, results };
+}
+
+module.exports = {
+  normalizeAnswer,
+  parseQuizContent,
+  gradeAttempt,
+};
@@ -0,0 +1,180 @@
+/**
+ * Call Recording Utilities
+ *
+ * Where LiveKit Egress writes call recordings, and how a finished recording
+ * becomes a video artifact in the subject's Canvas.
+ *
+ * With RECORDING_S3_BUCKET set, Egress uploads the file to S3 (or any
+ * S3-compatible store through RECORDING_S3_ENDPOINT) and reports its URL.
+ * Otherwise Egress writes to its own disk under RECORDING_EGRESS_DIR; for a
+ * self-hosted setup that directory is a volume shared with this API, which
+ * serves it to subject members at /recordings (see routes/recording.routes.js).
+ */
+
+const path = require('path');
+const {
+  EgressStatus,
+  EncodedFileOutput,
+  EncodedFileType,
+  S3Upload,
+} = require('livekit-server-sdk');
+const Artifact = require('../models/artifact.model');
+const CallRecording = require('../models/callRecording.model');
+
+const EGRESS_DIR = process.env.RECORDING_EGRESS_DIR || '/out';
+
+/**
+ * Egress file output for a subject's recording
+ */
+function buildRecordingOutput(subjectId) {
+  const bucket = process.env.RECORDING_S3_BUCKET;
+
+  if (bucket) {
+    return new EncodedFileOutput({
+      fileType: EncodedFileType.MP4,
+      filepath: `recordings/${subjectId}/{time}.mp4`,
+      output: {
+        case: 's3',
+        value: new S3Upload({
+          bucket,
+          accessKey: process.env.RECORDING_S3_ACCESS_KEY,
+          secret: process.env.RECORDING_S3_SECRET,
+          region: process.env.RECORDING_S3_REGION,
+          endpoint: process.env.RECORDING_S3_ENDPOINT,
+          // Self-hosted stores like MinIO need path-style URLs
+          forcePathStyle: Boolean(process.env.RECORDING_S3_ENDPOINT),
+        }),
+      },
+    });
+  }
+
+  return new EncodedFileOutput({
+    fileType: EncodedFileType.MP4,
+    filepath: path.posix.join(EGRESS_DIR, subjectId, '{time}.mp4'),
+  });
+}
+
+/**
+ * URL members play a finished recording from
+ */
+function getRecordingUrl(file) {
+  if (/^https?:\/\//.test(file.location)) {
+    return file.location;
+  }
+
+  const baseUrl =
+    process.env.RECORDINGS_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}/recordings`;
+  return `${baseUrl}/${path.posix.relative(EGRESS_DIR, file.filename)}`;
+}
+
+/**
+ * Egress timestamps and durations are in nanoseconds
+ */
+function nanosToDate(nanos) {
+  return nanos ? new Date(Number(nanos / 1000000n)) : null;
+}
+
+/**
+ * Egress statuses after which no more output is written
+ */
+const FINAL_EGRESS_STATUSES = [
+  EgressStatus.EGRESS_COMPLETE,
+  EgressStatus.EGRESS_LIMIT_REACHED,
+  EgressStatus.EGRESS_FAILED,
+  EgressStatus.EGRESS_ABORTED,
+];
+
+/**
+ * Save a recording whose egress has ended to the Canvas, or mark it failed.
+ * An egress that is still ending is left processing for the egress_ended
+ * webhook. Safe to call more than once for the same egress.
+ */
+async function finishRecording(egressInfo) {
+  if (!FINAL_EGRESS_STATUSES.includes(egressInfo.status)) {
+    return CallRecording.findOne({ egressId: egressInfo.egressId });
+  }
+
+  const file = egressInfo.fileResults?.[0];
+  const succeeded =
+    egressInfo.status === EgressStatus.EGRESS_COMPLETE ||
+    egressInfo.status === EgressStatus.EGRESS_LIMIT_REACHED;
+
+  if (!succeeded || !file?.filename) {
+    return CallRecording.findOneAndUpdate(
+      { egressId: egressInfo.egressId, status: { $in: ['active', 'processing'] } },
+      { status: 'failed', error: egressInfo.error || 'Recording ended without a file' },
+      { new: true }
+    );
+  }
+
+  // Claim the recording first, so only one caller creates its artifact
+  const recording = await CallRecording.findOneAndUpdate(
+    { egressId: egressInfo.egressId, status: { $in: ['active', 'processing'] } },
+    { status: 'saved' },
+    { new: true }
+  );
+  if (!recording) {
+    return CallRecording.findOne({ egressId: egressInfo.egressId });
+  }
+
+  const startedAt = nanosToDate(file.startedAt || egressInfo.startedAt) || recording.createdAt;
+  const endedAt = nanosToDate(file.endedAt || egressInfo.endedAt) || new Date();
+
+  try {
+    const artifact = await Artifact.create({
+      subjectId: recording.subjectId,
+      messageId: `recording-${egressInfo.egressId}`,
+      type: 'video',
+      title: `Call recording · ${startedAt.toLocaleString('en-US', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      })}`,
+      fileUrl: getRecordingUrl(file),
+      fileName: path.posix.basename(file.filename),
+      fileSize: Number(file.size),
+      createdBy: recording.startedBy,
+      recording: {
+        egressId: egressInfo.egressId,
+        durationSeconds: Math.round(Number(file.duration) / 1e9),
+        participants: recording.participants,
+        startedAt,
+        endedAt,
+      },
+    });
+
+    recording.artifactId = artifact._id;
+    return recording.save();
+  } catch (error) {
+    recording.status = 'failed';
+    recording.error = error.message;
+    await recording.save();
+    throw error;
+  }
+}
+
+/**
+ * Apply a LiveKit webhook event to the subject's recordings
+ */
+async function handleRecordingWebhook(event) {
+  switch (event.event) {
+    case 'participant_joined':
+      if (!event.room || !event.participant) break;
+      // Rooms are named by subject ID
+      await CallRecording.updateOne(
+        { subjectId: event.room.name, status: 'active' },
+        { $addToSet: { participants: event.participant.identity } }
+      );
+      break;
+
+    case 'egress_ended':
+      await finishRecording(event.egressInfo);
+      break;
+  }
+}
+
+module.exports = {
+  buildRecordingOutput,
+  getRecordingUrl,
+  finishRecording,
+  handleRecordingWebhook,
+};
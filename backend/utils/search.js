@@ -0,0 +1,61 @@
+/**
+ * Search Utilities
+ *
+ * Excerpts of artifact text for room search results, with the searched words
+ * wrapped in <mark> like the headlines Postgres returns for chat messages
+ * (search_messages in supabase/schema.sql).
+ */
+
+/** Characters shown either side of the first match */
+const SNIPPET_RADIUS = 80;
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Words of a search query, lowercased, without quotes or exclusions
+ */
+function getSearchTerms(query) {
+  return String(query || '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith('-'))
+    .map((term) => term.replace(/^"+|"+$/g, ''))
+    .filter((term) => term.length > 1);
+}
+
+/**
+ * Wrap each occurrence of the terms in <mark>
+ */
+function highlight(text, terms) {
+  if (!text || terms.length === 0) return text || '';
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text.replace(pattern, '<mark>$1</mark>');
+}
+
+/**
+ * Highlighted excerpt of text around the first search term it contains
+ */
+function buildSnippet(text, terms) {
+  const flat = String(text || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!flat) return '';
+
+  const lower = flat.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, first + SNIPPET_RADIUS * 2);
+  const excerpt = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+
+  return highlight(excerpt, terms);
+}
+
+module.exports = {
+  getSearchTerms,
+  highlight,
+  buildSnippet,
+};
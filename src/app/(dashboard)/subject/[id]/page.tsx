@@ -1,9 +1,9 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
-import { RoomLayout } from '@/components/room/RoomLayout';
+import { RoomLayout, type FocusMessage } from '@/components/room/RoomLayout';
 import api from '@/lib/api';
 import type { Subject } from '@/types/database';
 
@@ -12,6 +12,17 @@ export default function SubjectRoomPage() {
   const router = useRouter();
   const subjectId = params.id as string;
 
+  // Deep link to a chat message, e.g. ?chat=friend&message=<id> from a mention notification
+  const searchParams = useSearchParams();
+  const focusChat = searchParams.get('chat');
+  const focusMessageId = searchParams.get('message');
+  const focusMessage: FocusMessage | null =
+    focusMessageId && (focusChat === 'friend' || focusChat === 'ai')
+      ? { chat: focusChat, messageId: focusMessageId }
+      : null;
+  // Deep link to a Canvas artifact, e.g. ?artifact=<id> from room search
+  const focusArtifactId = searchParams.get('artifact');
+
   const [subject, setSubject] = useState<Subject | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -94,7 +105,7 @@ export default function SubjectRoomPage() {
 
   return (
     <ProtectedRoute>
-      <RoomLayout subject={subject} />
+      <RoomLayout subject={subject} focusMessage={focusMessage} focusArtifactId={focusArtifactId} />
     </ProtectedRoute>
   );
 }
@@ -2,7 +2,7 @@
  * Room Settings Page
  *
  * Comprehensive settings page for subject/room management
- * with categories: General, Members, Notifications, Privacy, Danger Zone
+ * with categories: General, Members, AI Tutor, Notifications, Privacy, Danger Zone
  */
 
 'use client';
@@ -28,7 +28,8 @@ import {
     useRejectRequestMutation,
     useRemoveMemberMutation,
 } from '@/hooks/queries';
-import type { Subject, SubjectMember } from '@/types/database';
+import { LLM_PROVIDERS, DEFAULT_LLM_PROVIDER, AI_DIFFICULTIES, getProviderInfo } from '@/lib/llm/catalog';
+import type { Subject, SubjectMember, AIProviderId, AIDifficulty } from '@/types/database';
 
 // Extended Subject type with role information from API
 type SubjectWithRole = Subject & {
@@ -37,10 +38,16 @@ type SubjectWithRole = Subject & {
     myRole?: string;
     myStatus?: string;
     inviteCode?: string; // GraphQL returns camelCase
+    aiProvider?: string; // GraphQL enum, e.g. 'OPENAI'
+    aiModel?: string | null;
+    aiPersona?: string | null;
+    aiDifficulty?: string | null; // GraphQL enum, e.g. 'BEGINNER'
+    aiLanguage?: string | null;
+    aiInstructions?: string | null;
 };
 
 // Settings categories
-type SettingsCategory = 'general' | 'members' | 'notifications' | 'privacy' | 'danger';
+type SettingsCategory = 'general' | 'members' | 'ai' | 'notifications' | 'privacy' | 'danger';
 
 interface CategoryItem {
     id: SettingsCategory;
@@ -74,6 +81,17 @@ const categories: CategoryItem[] = [
             </svg>
         ),
     },
+    {
+        id: 'ai',
+        label: 'AI Tutor',
+        description: 'Model and persona',
+        color: 'text-sky-400',
+        icon: (
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+        ),
+    },
     {
         id: 'notifications',
         label: 'Notifications',
@@ -142,6 +160,21 @@ export default function RoomSettingsPage() {
         name: '',
         description: '',
     });
+    const [aiSettings, setAISettings] = useState<{
+        aiProvider: AIProviderId;
+        aiModel: string;
+        aiPersona: string;
+        aiDifficulty: AIDifficulty | null;
+        aiLanguage: string;
+        aiInstructions: string;
+    }>({
+        aiProvider: DEFAULT_LLM_PROVIDER,
+        aiModel: '',
+        aiPersona: '',
+        aiDifficulty: null,
+        aiLanguage: '',
+        aiInstructions: '',
+    });
     const [notificationSettings, setNotificationSettings] = useState({
         emailOnJoinRequest: true,
         emailOnNewMessage: false,
@@ -197,6 +230,14 @@ export default function RoomSettingsPage() {
                 name: subject.name || '',
                 description: subject.description || '',
             });
+            setAISettings({
+                aiProvider: getProviderInfo(subject.aiProvider?.toLowerCase()).id,
+                aiModel: subject.aiModel || '',
+                aiPersona: subject.aiPersona || '',
+                aiDifficulty: (subject.aiDifficulty?.toLowerCase() as AIDifficulty) || null,
+                aiLanguage: subject.aiLanguage || '',
+                aiInstructions: subject.aiInstructions || '',
+            });
         }
     }, [subject]);
 
@@ -238,6 +279,15 @@ export default function RoomSettingsPage() {
         }
     };
 
+    const handleSaveAI = async () => {
+        try {
+            await updateSubjectMutation.mutateAsync({ id: subjectId, data: aiSettings });
+            success('AI settings saved', 'The AI tutor will use the new settings');
+        } catch (err) {
+            toastError('Error', 'Failed to save AI settings');
+        }
+    };
+
     const handleRegenerateCode = async () => {
         try {
             await regenerateCodeMutation.mutateAsync(subjectId);
@@ -610,6 +660,129 @@ export default function RoomSettingsPage() {
                     </div>
                 );
 
+            case 'ai': {
+                const selectedProvider = getProviderInfo(aiSettings.aiProvider);
+                return (
+                    <div className="space-y-8">
+                        {/* Provider */}
+                        <div>
+                            <label className="text-white mb-2 block text-sm font-semibold uppercase tracking-wider">Provider</label>
+                            <div className="grid gap-3 sm:grid-cols-3">
+                                {LLM_PROVIDERS.map((provider) => (
+                                    <button
+                                        key={provider.id}
+                                        type="button"
+                                        onClick={() => setAISettings({ ...aiSettings, aiProvider: provider.id, aiModel: '' })}
+                                        className={`rounded-xl border p-4 text-left transition-all ${aiSettings.aiProvider === provider.id
+                                            ? 'border-sky-400/50 bg-sky-500/10'
+                                            : 'border-white/10 bg-black/30 hover:border-white/20 hover:bg-black/50'
+                                            }`}
+                                    >
+                                        <p className={`font-medium ${aiSettings.aiProvider === provider.id ? 'text-sky-400' : 'text-white'}`}>{provider.label}</p>
+                                        <p className="mt-1 text-xs text-gray-500">{provider.description}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Model */}
+                        <div>
+                            <label className="text-white mb-2 block text-sm font-semibold uppercase tracking-wider">Model</label>
+                            <input
+                                type="text"
+                                list="ai-model-options"
+                                value={aiSettings.aiModel}
+                                onChange={(e) => setAISettings({ ...aiSettings, aiModel: e.target.value })}
+                                className="focus:border-accent/30 w-full rounded-xl border border-white/10 bg-black/50 px-4 py-3.5 text-white focus:outline-none"
+                                placeholder={selectedProvider.defaultModel}
+                            />
+                            <datalist id="ai-model-options">
+                                {selectedProvider.models.map((model) => (
+                                    <option key={model} value={model} />
+                                ))}
+                            </datalist>
+                            <p className="mt-2 text-sm text-gray-500">
+                                Leave empty to use the provider default ({selectedProvider.defaultModel}).
+                            </p>
+                        </div>
+
+                        {/* Persona */}
+                        <div>
+                            <label className="text-white mb-2 block text-sm font-semibold uppercase tracking-wider">Persona</label>
+                            <input
+                                type="text"
+                                value={aiSettings.aiPersona}
+                                onChange={(e) => setAISettings({ ...aiSettings, aiPersona: e.target.value })}
+                                maxLength={200}
+                                className="focus:border-accent/30 w-full rounded-xl border border-white/10 bg-black/50 px-4 py-3.5 text-white focus:outline-none"
+                                placeholder="e.g. a patient physics professor"
+                            />
+                        </div>
+
+                        {/* Difficulty */}
+                        <div>
+                            <label className="text-white mb-2 block text-sm font-semibold uppercase tracking-wider">Difficulty</label>
+                            <div className="grid gap-3 sm:grid-cols-4">
+                                {[{ id: null, label: 'Adaptive', description: 'Match each student' }, ...AI_DIFFICULTIES].map((level) => (
+                                    <button
+                                        key={level.id ?? 'adaptive'}
+                                        type="button"
+                                        onClick={() => setAISettings({ ...aiSettings, aiDifficulty: level.id })}
+                                        className={`rounded-xl border p-4 text-left transition-all ${aiSettings.aiDifficulty === level.id
+                                            ? 'border-sky-400/50 bg-sky-500/10'
+                                            : 'border-white/10 bg-black/30 hover:border-white/20 hover:bg-black/50'
+                                            }`}
+                                    >
+                                        <p className={`font-medium ${aiSettings.aiDifficulty === level.id ? 'text-sky-400' : 'text-white'}`}>{level.label}</p>
+                                        <p className="mt-1 text-xs text-gray-500">{level.description}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Language */}
+                        <div>
+                            <label className="text-white mb-2 block text-sm font-semibold uppercase tracking-wider">Language</label>
+                            <input
+                                type="text"
+                                value={aiSettings.aiLanguage}
+                                onChange={(e) => setAISettings({ ...aiSettings, aiLanguage: e.target.value })}
+                                maxLength={50}
+                                className="focus:border-accent/30 w-full rounded-xl border border-white/10 bg-black/50 px-4 py-3.5 text-white focus:outline-none"
+                                placeholder="Same as the student"
+                            />
+                        </div>
+
+                        {/* Extra Instructions */}
+                        <div>
+                            <label className="text-white mb-2 block text-sm font-semibold uppercase tracking-wider">Extra Instructions</label>
+                            <textarea
+                                value={aiSettings.aiInstructions}
+                                onChange={(e) => setAISettings({ ...aiSettings, aiInstructions: e.target.value })}
+                                rows={4}
+                                maxLength={2000}
+                                className="focus:border-accent/30 w-full resize-none rounded-xl border border-white/10 bg-black/50 px-4 py-3.5 text-white focus:outline-none"
+                                placeholder="e.g. Socratic mode, never give full answers"
+                            />
+                            <p className="mt-2 text-sm text-gray-500">
+                                Added to the tutor&apos;s system prompt for every question in this room.
+                            </p>
+                        </div>
+
+                        {/* Save Button */}
+                        <div className="flex justify-end border-t border-white/10 pt-6">
+                            <button
+                                onClick={handleSaveAI}
+                                disabled={updateSubjectMutation.isPending}
+                                className="bg-accent hover:bg-accent-dark/80 rounded-xl px-8 py-3.5 font-semibold text-white shadow-lg transition-all disabled:opacity-50"
+                            >
+                                {updateSubjectMutation.isPending ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        </div>
+                    </div>
+                );
+            }
+
             case 'notifications':
                 return (
                     <div className="space-y-6">
@@ -0,0 +1,142 @@
+/**
+ * AI Call Summary Route
+ *
+ * POST /api/ai/call-summary
+ * Summarizes the captions transcribed during a video call into topics, open
+ * questions and action items (see lib/llm/callSummary.ts), once the call has
+ * ended. The summary is saved to the Canvas as a markdown artifact and posted
+ * to the AI chat, linked to it.
+ *
+ * The backend calls this as the subject's owner when LiveKit reports the room
+ * finished (see backend/utils/callSummary.js); owners and admins can also
+ * call it to retry. Responds with null data when nothing was transcribed.
+ *
+ * Body: { subjectId }
+ */
+
+import {
+  buildTutorSystemPrompt,
+  formatCallSummary,
+  resolveLLMConfig,
+  summarizeCall,
+} from '@/lib/llm';
+import { jsonError } from '@/lib/apiResponse';
+import { listRoomIdentities } from '@/lib/livekit';
+import { getAccessToken, getSessionUser, getApprovedMembership } from '@/lib/session';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+
+/**
+ * Save a markdown artifact through the backend API as the caller; returns its ID
+ */
+async function createArtifact(
+  accessToken: string,
+  artifact: { subjectId: string; messageId: string; title: string; content: string }
+): Promise<string> {
+  const response = await fetch(`${API_URL}/artifacts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ ...artifact, type: 'markdown', isAiGenerated: true }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.message || 'Failed to save call summary');
+  }
+  return body.data._id;
+}
+
+async function deleteArtifact(accessToken: string, artifactId: string) {
+  await fetch(`${API_URL}/artifacts/${encodeURIComponent(artifactId)}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  }).catch((err) => console.error('Delete call summary artifact error:', err));
+}
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return jsonError(401, 'Authentication required');
+  }
+
+  let body: { subjectId?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  const { subjectId } = body;
+  if (!subjectId) {
+    return jsonError(400, 'Subject ID is required');
+  }
+
+  const membership = await getApprovedMembership(subjectId, user.userId);
+  if (!membership || membership.role === 'member') {
+    return jsonError(403, 'Only owners and admins can summarize a call');
+  }
+
+  const { data: subject } = await supabaseAdmin
+    .from('subjects')
+    .select('ai_provider, ai_model, ai_persona, ai_difficulty, ai_language, ai_instructions')
+    .eq('id', subjectId)
+    .single();
+
+  try {
+    const identities = await listRoomIdentities(subjectId);
+    if (identities.length > 0) {
+      return jsonError(409, 'The call is still in progress');
+    }
+
+    const llm = resolveLLMConfig(subject || {});
+    const accessToken = getAccessToken(request)!;
+
+    const result = await summarizeCall({
+      subjectId,
+      systemPrompt: buildTutorSystemPrompt(subject || {}),
+      provider: llm.provider,
+      model: llm.model,
+      signal: request.signal,
+      save: async (summary, participants) => {
+        const content = formatCallSummary(summary, participants);
+        const aiMessageId = crypto.randomUUID();
+
+        const artifactId = await createArtifact(accessToken, {
+          subjectId,
+          messageId: aiMessageId,
+          title: summary.title,
+          content,
+        });
+
+        // Members' AI chats pick the message up through their realtime subscription
+        const { error } = await supabaseAdmin.from('ai_messages').insert({
+          id: aiMessageId,
+          subject_id: subjectId,
+          user_id: null,
+          username: 'AI Tutor',
+          content: `Here's a summary of the video call, "${summary.title}". It's also saved in the Canvas.\n\n${content}`,
+          role: 'assistant',
+          has_artifact: true,
+          artifact_ids: [artifactId],
+        });
+
+        if (error) {
+          await deleteArtifact(accessToken, artifactId);
+          throw error;
+        }
+
+        return { summary, participants, content, artifactId };
+      },
+    });
+
+    return Response.json({ success: true, data: result });
+  } catch (error: unknown) {
+    const e = error instanceof Error ? error : new Error('Unknown error');
+    console.error('AI call summary route error:', e);
+    return jsonError(500, e.message || 'Failed to summarize the call');
+  }
+}
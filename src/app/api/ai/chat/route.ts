@@ -0,0 +1,190 @@
+/**
+ * AI Chat Route
+ *
+ * POST /api/ai/chat
+ * Streams an AI tutor completion back to the client as Server-Sent Events.
+ * Provider keys stay on the server; callers must be approved subject members.
+ * The subject's configured LLM provider, model and tutor persona are used for the completion.
+ * History is read from ai_messages and fitted to a token budget (see lib/llm/context.ts),
+ * so callers save the user's message first and send its ID as `messageId`.
+ * Requests are answered one at a time per subject (see lib/aiQueue.ts); a waiting
+ * request can be withdrawn with DELETE /api/ai/queue using the `requestId` sent
+ * to the asker in its queue event.
+ * Relevant excerpts from the subject's Canvas artifacts are added to the prompt
+ * (see lib/llm/retrieval.ts) and the artifacts the answer cites are sent back.
+ *
+ * Stream format:
+ *   data: {"queue":{...}}     - request is waiting; its requestId and position in line
+ *   data: {"cancelled":true}  - request was withdrawn before its turn
+ *   data: {"content":"..."}   - token chunk
+ *   data: {"usage":{...}}     - model and token counts, sent after the last chunk
+ *   data: {"sources":[...]}   - Canvas artifacts cited in the answer, if any
+ *   data: {"error":"..."}     - completion failed mid-stream
+ *   data: [DONE]              - end of stream
+ */
+
+import {
+  buildConversationContext,
+  buildTutorSystemPrompt,
+  estimateTokens,
+  getCitedSources,
+  resolveLLMConfig,
+  retrieveArtifactSources,
+} from '@/lib/llm';
+import { enqueue, release, cancel } from '@/lib/aiQueue';
+import { jsonError } from '@/lib/apiResponse';
+import { getAccessToken, getSessionUser, getApprovedMembership } from '@/lib/session';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface ChatRequestBody {
+  subjectId?: string;
+  messageId?: string;
+}
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return jsonError(401, 'Authentication required');
+  }
+
+  let body: ChatRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  const { subjectId, messageId } = body;
+
+  if (!subjectId) {
+    return jsonError(400, 'Subject ID is required');
+  }
+
+  if (!messageId) {
+    return jsonError(400, 'Message ID is required');
+  }
+
+  const membership = await getApprovedMembership(subjectId, user.userId);
+  if (!membership) {
+    return jsonError(403, 'Access denied');
+  }
+
+  const { data: subject } = await supabaseAdmin
+    .from('subjects')
+    .select('ai_provider, ai_model, ai_persona, ai_difficulty, ai_language, ai_instructions')
+    .eq('id', subjectId)
+    .single();
+
+  let llm: ReturnType<typeof resolveLLMConfig>;
+  try {
+    llm = resolveLLMConfig(subject || {});
+  } catch (error: unknown) {
+    const e = error instanceof Error ? error : new Error('Unknown error');
+    console.error('AI provider error:', e);
+    return jsonError(500, e.message);
+  }
+
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController, payload: string) => {
+    controller.enqueue(encoder.encode(`data: ${payload}\n\n`));
+  };
+
+  const requestId = crypto.randomUUID();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const ticket = enqueue(subjectId, {
+        requestId,
+        userId: user.userId,
+        username: user.username,
+        messageId,
+      });
+
+      // Leave the queue if the asker disconnects while waiting
+      const onAbort = () => cancel(subjectId, requestId, user.userId);
+      request.signal.addEventListener('abort', onAbort);
+
+      if (ticket.position > 0) {
+        send(controller, JSON.stringify({ queue: { requestId, position: ticket.position } }));
+      }
+
+      try {
+        if (!(await ticket.turn)) {
+          if (!request.signal.aborted) {
+            send(controller, JSON.stringify({ cancelled: true }));
+          }
+          return;
+        }
+
+        const context = await buildConversationContext({
+          subjectId,
+          messageId,
+          systemPrompt: buildTutorSystemPrompt(subject || {}),
+          provider: llm.provider,
+          model: llm.model,
+          retrieveSources: (question) =>
+            retrieveArtifactSources({
+              subjectId,
+              query: question,
+              accessToken: getAccessToken(request)!,
+              signal: request.signal,
+            }),
+          signal: request.signal,
+        });
+
+        const completion = llm.provider.stream(context.messages, {
+          model: llm.model,
+          signal: request.signal,
+        });
+
+        let fullContent = '';
+        for await (const content of completion) {
+          fullContent += content;
+          send(controller, JSON.stringify({ content }));
+        }
+
+        send(
+          controller,
+          JSON.stringify({
+            usage: {
+              model: llm.model,
+              promptTokens: context.promptTokens,
+              completionTokens: estimateTokens(fullContent),
+            },
+          })
+        );
+
+        const sources = getCitedSources(context.sources, fullContent);
+        if (sources.length > 0) {
+          send(controller, JSON.stringify({ sources }));
+        }
+      } catch (error: unknown) {
+        if (!request.signal.aborted) {
+          const e = error instanceof Error ? error : new Error('Unknown error');
+          console.error('AI route error:', e);
+          send(controller, JSON.stringify({ error: e.message || 'Failed to get AI response' }));
+        }
+      } finally {
+        request.signal.removeEventListener('abort', onAbort);
+        release(subjectId, requestId, user.userId);
+
+        // A disconnected client has already cancelled the stream
+        if (!request.signal.aborted) {
+          send(controller, '[DONE]');
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
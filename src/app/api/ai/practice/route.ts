@@ -0,0 +1,101 @@
+/**
+ * AI Practice Route
+ *
+ * POST /api/ai/practice
+ * Generates a quiz or flashcard deck from the subject's recent AI chat and the
+ * selected Canvas artifacts (see lib/llm/practice.ts). The caller saves the
+ * result as a quiz artifact, so members can take it from the Canvas.
+ *
+ * Body: { subjectId, kind: 'quiz' | 'flashcards', count?, artifactIds? }
+ */
+
+import {
+  buildTutorSystemPrompt,
+  generatePracticeSet,
+  loadArtifactTexts,
+  resolveLLMConfig,
+} from '@/lib/llm';
+import { jsonError } from '@/lib/apiResponse';
+import { getAccessToken, getSessionUser, getApprovedMembership } from '@/lib/session';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { MAX_PRACTICE_ITEMS, MIN_PRACTICE_ITEMS, type PracticeKind } from '@/lib/quiz';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface PracticeRequestBody {
+  subjectId?: string;
+  kind?: PracticeKind;
+  count?: number;
+  artifactIds?: string[];
+}
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return jsonError(401, 'Authentication required');
+  }
+
+  let body: PracticeRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  const { subjectId, kind, count = 5, artifactIds = [] } = body;
+
+  if (!subjectId) {
+    return jsonError(400, 'Subject ID is required');
+  }
+
+  if (kind !== 'quiz' && kind !== 'flashcards') {
+    return jsonError(400, 'Kind must be quiz or flashcards');
+  }
+
+  if (!Number.isInteger(count) || count < MIN_PRACTICE_ITEMS || count > MAX_PRACTICE_ITEMS) {
+    return jsonError(400, `Count must be between ${MIN_PRACTICE_ITEMS} and ${MAX_PRACTICE_ITEMS}`);
+  }
+
+  const membership = await getApprovedMembership(subjectId, user.userId);
+  if (!membership) {
+    return jsonError(403, 'Access denied');
+  }
+
+  const { data: subject } = await supabaseAdmin
+    .from('subjects')
+    .select('ai_provider, ai_model, ai_persona, ai_difficulty, ai_language, ai_instructions')
+    .eq('id', subjectId)
+    .single();
+
+  try {
+    const llm = resolveLLMConfig(subject || {});
+
+    const artifacts =
+      artifactIds.length > 0
+        ? await loadArtifactTexts({
+            subjectId,
+            artifactIds,
+            accessToken: getAccessToken(request)!,
+            signal: request.signal,
+          })
+        : [];
+
+    const practiceSet = await generatePracticeSet({
+      subjectId,
+      kind,
+      count,
+      artifacts,
+      systemPrompt: buildTutorSystemPrompt(subject || {}),
+      provider: llm.provider,
+      model: llm.model,
+      signal: request.signal,
+    });
+
+    return Response.json({ success: true, data: practiceSet });
+  } catch (error: unknown) {
+    const e = error instanceof Error ? error : new Error('Unknown error');
+    console.error('AI practice route error:', e);
+    return jsonError(500, e.message || 'Failed to generate practice set');
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * AI Queue Route
+ *
+ * GET    /api/ai/queue?subjectId=...            - current queue for a subject
+ * DELETE /api/ai/queue?subjectId=...&requestId=... - withdraw your waiting request
+ *
+ * Queue changes are also broadcast as `ai_queue` events on the subject's
+ * `ai_messages:<subjectId>` Supabase channel.
+ */
+
+import { cancel, getQueueSnapshot } from '@/lib/aiQueue';
+import { jsonError } from '@/lib/apiResponse';
+import { authorizeMember } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const subjectId = new URL(request.url).searchParams.get('subjectId');
+
+  const { error } = await authorizeMember(request, subjectId);
+  if (error) return error;
+
+  return Response.json({ success: true, data: getQueueSnapshot(subjectId!) });
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const subjectId = searchParams.get('subjectId');
+  const requestId = searchParams.get('requestId');
+
+  const { user, error } = await authorizeMember(request, subjectId);
+  if (error) return error;
+
+  if (!requestId) {
+    return jsonError(400, 'Request ID is required');
+  }
+
+  if (!cancel(subjectId!, requestId, user.userId)) {
+    return jsonError(404, 'Request is not waiting in the queue');
+  }
+
+  return Response.json({ success: true, message: 'Request cancelled' });
+}
@@ -0,0 +1,72 @@
+/**
+ * AI Summarize Route
+ *
+ * POST /api/ai/summarize
+ * Summarizes the subject's recent group chat for the /summarize command (see
+ * lib/llm/groupChat.ts). The caller posts the summary to the group chat.
+ *
+ * Body: { subjectId }
+ */
+
+import { buildTutorSystemPrompt, resolveLLMConfig, summarizeGroupChat } from '@/lib/llm';
+import { SLASH_COMMANDS } from '@/lib/commands';
+import { jsonError } from '@/lib/apiResponse';
+import { getSessionUser, getApprovedMembership } from '@/lib/session';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const summarizeCommand = SLASH_COMMANDS.find((command) => command.name === 'summarize')!;
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return jsonError(401, 'Authentication required');
+  }
+
+  let body: { subjectId?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  const { subjectId } = body;
+  if (!subjectId) {
+    return jsonError(400, 'Subject ID is required');
+  }
+
+  const membership = await getApprovedMembership(subjectId, user.userId);
+  if (!membership) {
+    return jsonError(403, 'Access denied');
+  }
+
+  if (!summarizeCommand.roles.includes(membership.role)) {
+    return jsonError(403, 'Only owners and admins can summarize the chat');
+  }
+
+  const { data: subject } = await supabaseAdmin
+    .from('subjects')
+    .select('ai_provider, ai_model, ai_persona, ai_difficulty, ai_language, ai_instructions')
+    .eq('id', subjectId)
+    .single();
+
+  try {
+    const llm = resolveLLMConfig(subject || {});
+
+    const summary = await summarizeGroupChat({
+      subjectId,
+      systemPrompt: buildTutorSystemPrompt(subject || {}),
+      provider: llm.provider,
+      model: llm.model,
+      signal: request.signal,
+    });
+
+    return Response.json({ success: true, data: { summary } });
+  } catch (error: unknown) {
+    const e = error instanceof Error ? error : new Error('Unknown error');
+    console.error('AI summarize route error:', e);
+    return jsonError(500, e.message || 'Failed to summarize the chat');
+  }
+}
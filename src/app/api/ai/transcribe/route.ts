@@ -0,0 +1,99 @@
+/**
+ * AI Transcribe Route
+ *
+ * POST /api/ai/transcribe
+ * Transcribes a short clip of a member's microphone during a video call with
+ * the configured speech-to-text provider (see lib/stt). The text is saved to
+ * the call's transcript for the post-call summary; the caller shows it to the
+ * rest of the call as a caption. Clips are only accepted while the subject's
+ * call is running with captions switched on.
+ *
+ * Body (multipart): { subjectId, audio, spokenAt, language? }
+ */
+
+import { resolveSTTConfig } from '@/lib/stt';
+import { jsonError } from '@/lib/apiResponse';
+import { getRoomMetadata } from '@/lib/livekit';
+import { getSessionUser, getApprovedMembership } from '@/lib/session';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Clips are a few seconds long; anything bigger is not a caption */
+const MAX_CLIP_BYTES = 2 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return jsonError(401, 'Authentication required');
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return jsonError(400, 'Invalid form body');
+  }
+
+  const subjectId = form.get('subjectId');
+  const audio = form.get('audio');
+  const spokenAt = Number(form.get('spokenAt'));
+  const language = form.get('language');
+
+  if (typeof subjectId !== 'string' || !subjectId) {
+    return jsonError(400, 'Subject ID is required');
+  }
+
+  if (!(audio instanceof File) || audio.size === 0) {
+    return jsonError(400, 'Audio is required');
+  }
+
+  if (audio.size > MAX_CLIP_BYTES) {
+    return jsonError(413, 'Audio clip is too large');
+  }
+
+  if (!Number.isFinite(spokenAt)) {
+    return jsonError(400, 'spokenAt must be a timestamp');
+  }
+
+  const membership = await getApprovedMembership(subjectId, user.userId);
+  if (!membership) {
+    return jsonError(403, 'Access denied');
+  }
+
+  try {
+    const metadata = await getRoomMetadata(subjectId);
+    if (!metadata) {
+      return jsonError(409, 'There is no call in progress');
+    }
+    if (!metadata.captions) {
+      return jsonError(409, 'Captions are switched off for this call');
+    }
+
+    const stt = resolveSTTConfig();
+
+    const text = await stt.provider.transcribe(audio, {
+      model: stt.model,
+      language: typeof language === 'string' && language ? language : undefined,
+      signal: request.signal,
+    });
+
+    if (text) {
+      const { error } = await supabaseAdmin.from('call_transcripts').insert({
+        subject_id: subjectId,
+        user_id: user.userId,
+        username: user.username,
+        content: text,
+        spoken_at: new Date(spokenAt).toISOString(),
+      });
+      if (error) throw error;
+    }
+
+    return Response.json({ success: true, data: { text } });
+  } catch (error: unknown) {
+    const e = error instanceof Error ? error : new Error('Unknown error');
+    console.error('AI transcribe route error:', e);
+    return jsonError(500, e.message || 'Failed to transcribe audio');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Chat Messages Route
+ *
+ * GET  /api/chat/messages?subjectId=...  - newest group chat messages, oldest first
+ * POST /api/chat/messages                - { subjectId, messageId }: refresh one
+ *                                          message in the cached window after it
+ *                                          was sent, edited or deleted
+ *
+ * Served from the shared Redis cache (see lib/redisMessageCache.ts).
+ */
+
+import { getMessageWindow, syncMessage } from '@/lib/redisMessageCache';
+import { jsonError } from '@/lib/apiResponse';
+import { authorizeMember } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const subjectId = new URL(request.url).searchParams.get('subjectId');
+
+  const { error } = await authorizeMember(request, subjectId);
+  if (error) return error;
+
+  try {
+    const { messages, cached } = await getMessageWindow(subjectId!);
+    return Response.json({ success: true, data: { messages, cached } });
+  } catch (err) {
+    console.error('Load chat messages error:', err);
+    return jsonError(500, 'Failed to load messages');
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const subjectId: string | null = body?.subjectId || null;
+  const messageId: string | undefined = body?.messageId;
+
+  const { error } = await authorizeMember(request, subjectId);
+  if (error) return error;
+
+  if (!messageId) {
+    return jsonError(400, 'Message ID is required');
+  }
+
+  try {
+    await syncMessage(subjectId!, messageId);
+    return Response.json({ success: true });
+  } catch (err) {
+    console.error('Sync cached message error:', err);
+    return jsonError(500, 'Failed to update message cache');
+  }
+}
@@ -45,6 +45,8 @@ const typeIcons: Record<string, string> = {
   diagram: '📊',
   markdown: '📝',
   html: '🌐',
+  quiz: '🧠',
+  video: '🎬',
 };
 
 export function ArtifactCard({
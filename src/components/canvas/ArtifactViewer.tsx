@@ -12,6 +12,8 @@ import { Artifact } from '@/hooks/useArtifacts';
 import { CodeArtifact } from './CodeArtifact';
 import { ImageArtifact } from './ImageArtifact';
 import { PDFArtifact } from './PDFArtifact';
+import { QuizArtifact } from './QuizArtifact';
+import { VideoArtifact } from './VideoArtifact';
 
 interface ArtifactViewerProps {
   artifact: Artifact;
@@ -92,7 +94,10 @@ export function ArtifactViewer({ artifact, onClose, onDelete, canDelete }: Artif
       const filename = artifact.fileName || artifact.title;
 
       try {
-        const response = await fetch(artifact.fileUrl);
+        // Call recordings are served to members only, by the access token cookie
+        const response = await fetch(artifact.fileUrl, {
+          credentials: artifact.type === 'video' ? 'include' : 'same-origin',
+        });
         if (!response.ok) throw new Error(`Network response was not ok: ${response.status}`);
         const blob = await response.blob();
         const url = window.URL.createObjectURL(blob);
@@ -148,6 +153,16 @@ export function ArtifactViewer({ artifact, onClose, onDelete, canDelete }: Artif
         return (
           <CodeArtifact code={artifact.content || ''} language="mermaid" title={artifact.title} />
         );
+      case 'quiz':
+        return <QuizArtifact artifactId={artifact._id} content={artifact.content || ''} />;
+      case 'video':
+        return (
+          <VideoArtifact
+            src={artifact.fileUrl || ''}
+            title={artifact.title}
+            recording={artifact.recording}
+          />
+        );
       default:
         return (
           <div className="flex h-full flex-col items-center justify-center">
@@ -184,6 +199,8 @@ export function ArtifactViewer({ artifact, onClose, onDelete, canDelete }: Artif
               {artifact.type === 'diagram' && '📊'}
               {artifact.type === 'markdown' && '📝'}
               {artifact.type === 'html' && '🌐'}
+              {artifact.type === 'quiz' && '🧠'}
+              {artifact.type === 'video' && '🎬'}
             </span>
 
             {/* Title & Meta */}
@@ -10,13 +10,17 @@ import {
   type Artifact,
 } from '@/hooks/queries';
 import { ArtifactViewer } from './ArtifactViewer';
+import { formatDuration } from './VideoArtifact';
+import { getQuizLength, parseQuizContent } from '@/lib/quiz';
 import { Artifact as GraphQLArtifact } from '@/hooks/useArtifacts';
 
 interface CanvasProps {
   subjectId: string;
+  /** Artifact to open in the viewer once loaded, e.g. from room search */
+  focusArtifactId?: string | null;
 }
 
-export function Canvas({ subjectId }: CanvasProps) {
+export function Canvas({ subjectId, focusArtifactId }: CanvasProps) {
   const {
     data: artifacts = [],
     isLoading: loading,
@@ -30,6 +34,7 @@ export function Canvas({ subjectId }: CanvasProps) {
   const [uploading, setUploading] = useState(false);
   const [viewerOpen, setViewerOpen] = useState(false);
   const [selectedArtifact, setSelectedArtifact] = useState<Artifact | null>(null);
+  const [openedFocusId, setOpenedFocusId] = useState<string | null>(null);
 
   // Viewer handlers
   const openViewer = (artifact: Artifact) => {
@@ -42,6 +47,15 @@ export function Canvas({ subjectId }: CanvasProps) {
     setViewerOpen(false);
   };
 
+  // Open the linked artifact once, when it shows up in the list
+  const focusArtifact = focusArtifactId
+    ? artifacts.find((a) => a._id === focusArtifactId)
+    : undefined;
+  if (focusArtifact && openedFocusId !== focusArtifact._id) {
+    setOpenedFocusId(focusArtifact._id);
+    openViewer(focusArtifact);
+  }
+
   // const trackDownload = (artifactId: string) => {
   //   trackDownloadMutation.mutate(artifactId);
   // };
@@ -55,6 +69,9 @@ export function Canvas({ subjectId }: CanvasProps) {
     { id: 'image' as ArtifactType, label: 'Images', icon: '🖼️' },
     { id: 'pdf' as ArtifactType, label: 'PDFs', icon: '📄' },
     { id: 'diagram' as ArtifactType, label: 'Diagrams', icon: '📊' },
+    { id: 'quiz' as ArtifactType, label: 'Practice', icon: '🧠' },
+    { id: 'markdown' as ArtifactType, label: 'Notes', icon: '📝' },
+    { id: 'video' as ArtifactType, label: 'Recordings', icon: '🎬' },
   ];
 
   const filteredArtifacts = activeFilter
@@ -69,6 +86,9 @@ export function Canvas({ subjectId }: CanvasProps) {
   const imageArtifacts = filteredArtifacts.filter((a) => a.type === 'image');
   const pdfArtifacts = filteredArtifacts.filter((a) => a.type === 'pdf');
   const codeArtifacts = filteredArtifacts.filter((a) => a.type === 'code');
+  const quizArtifacts = filteredArtifacts.filter((a) => a.type === 'quiz');
+  const noteArtifacts = filteredArtifacts.filter((a) => a.type === 'markdown');
+  const videoArtifacts = filteredArtifacts.filter((a) => a.type === 'video');
 
   // Handle file upload
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -462,6 +482,161 @@ export function Canvas({ subjectId }: CanvasProps) {
                 </div>
               </div>
             )}
+            {/* Practice Section */}
+            {quizArtifacts.length > 0 && (activeFilter === 'quiz' || activeFilter === null) && (
+              <div>
+                <div className="mb-4 flex items-center gap-2">
+                  <div className="flex h-6 w-6 items-center justify-center rounded bg-orange-500/20 text-sm">
+                    🧠
+                  </div>
+                  <h3 className="text-lg font-semibold text-white">Practice</h3>
+                  <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-gray-400">
+                    {quizArtifacts.length}
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {quizArtifacts.map((file) => {
+                    const quiz = parseQuizContent(file.content);
+
+                    return (
+                      <div
+                        key={file._id}
+                        onClick={() => openViewer(file)}
+                        className="group cursor-pointer overflow-hidden rounded-xl border border-white/10 bg-[#131316] transition-all hover:border-white/20"
+                      >
+                        <div className="p-4">
+                          <h4 className="truncate font-medium text-white">{file.title}</h4>
+                          <div className="mt-2 flex items-center gap-2">
+                            <span className="flex items-center gap-1.5 text-xs text-orange-400">
+                              <span className="h-1.5 w-1.5 rounded-full bg-orange-400" />
+                              {quiz?.kind === 'flashcards' ? 'flashcards' : 'quiz'}
+                            </span>
+                            {quiz && (
+                              <>
+                                <span className="text-xs text-gray-600">•</span>
+                                <span className="text-xs text-gray-500">
+                                  {getQuizLength(quiz)}{' '}
+                                  {quiz.kind === 'quiz' ? 'questions' : 'cards'}
+                                </span>
+                              </>
+                            )}
+                          </div>
+                          <div className="mt-4 flex items-center justify-between border-t border-white/5 pt-3 text-xs text-gray-500">
+                            <span>{formatDate(file.createdAt)}</span>
+                            <span className="flex items-center gap-1">👁 {file.viewCount}</span>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Notes Section, e.g. call summaries */}
+            {noteArtifacts.length > 0 && (activeFilter === 'markdown' || activeFilter === null) && (
+              <div>
+                <div className="mb-4 flex items-center gap-2">
+                  <div className="flex h-6 w-6 items-center justify-center rounded bg-teal-500/20 text-sm">
+                    📝
+                  </div>
+                  <h3 className="text-lg font-semibold text-white">Notes</h3>
+                  <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-gray-400">
+                    {noteArtifacts.length}
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {noteArtifacts.map((file) => (
+                    <div
+                      key={file._id}
+                      onClick={() => openViewer(file)}
+                      className="group cursor-pointer overflow-hidden rounded-xl border border-white/10 bg-[#131316] transition-all hover:border-white/20"
+                    >
+                      <div className="h-24 overflow-hidden bg-[#0d0d0f] p-4 text-xs whitespace-pre-line text-gray-400">
+                        {file.content?.substring(0, 150) || 'No preview available'}
+                      </div>
+                      <div className="p-4">
+                        <h4 className="truncate font-medium text-white">{file.title}</h4>
+                        <div className="mt-2 flex items-center gap-2">
+                          <span className="flex items-center gap-1.5 text-xs text-teal-400">
+                            <span className="h-1.5 w-1.5 rounded-full bg-teal-400" />
+                            {file.isAiGenerated ? 'AI notes' : 'notes'}
+                          </span>
+                        </div>
+                        <div className="mt-4 flex items-center justify-between border-t border-white/5 pt-3 text-xs text-gray-500">
+                          <span>{formatDate(file.createdAt)}</span>
+                          <span className="flex items-center gap-1">👁 {file.viewCount}</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Recordings Section */}
+            {videoArtifacts.length > 0 && (activeFilter === 'video' || activeFilter === null) && (
+              <div>
+                <div className="mb-4 flex items-center gap-2">
+                  <div className="flex h-6 w-6 items-center justify-center rounded bg-rose-500/20 text-sm">
+                    🎬
+                  </div>
+                  <h3 className="text-lg font-semibold text-white">Recordings</h3>
+                  <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-gray-400">
+                    {videoArtifacts.length}
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {videoArtifacts.map((file) => (
+                    <div
+                      key={file._id}
+                      onClick={() => openViewer(file)}
+                      className="group cursor-pointer overflow-hidden rounded-xl border border-white/10 bg-[#131316] transition-all hover:border-white/20"
+                    >
+                      <div className="relative flex h-32 items-center justify-center bg-[#0d0d0f]">
+                        <div className="flex h-12 w-12 items-center justify-center rounded-full bg-white/10 text-white transition-colors group-hover:bg-rose-500/30">
+                          <svg className="ml-0.5 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                            <path d="M6.3 2.84A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.27l9.344-5.891a1.5 1.5 0 000-2.538L6.3 2.841z" />
+                          </svg>
+                        </div>
+                        {file.recording && (
+                          <span className="absolute right-2 bottom-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+                            {formatDuration(file.recording.durationSeconds)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="p-4">
+                        <h4 className="truncate font-medium text-white">{file.title}</h4>
+                        <div className="mt-2 flex items-center gap-2">
+                          <span className="flex items-center gap-1.5 text-xs text-rose-400">
+                            <span className="h-1.5 w-1.5 rounded-full bg-rose-400" />
+                            recording
+                          </span>
+                          {file.recording && (
+                            <>
+                              <span className="text-xs text-gray-600">•</span>
+                              <span className="text-xs text-gray-500">
+                                {file.recording.participants.length}{' '}
+                                {file.recording.participants.length === 1
+                                  ? 'participant'
+                                  : 'participants'}
+                              </span>
+                            </>
+                          )}
+                        </div>
+                        <div className="mt-4 flex items-center justify-between border-t border-white/5 pt-3 text-xs text-gray-500">
+                          <span>{formatDate(file.createdAt)}</span>
+                          <span className="flex items-center gap-1">👁 {file.viewCount}</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
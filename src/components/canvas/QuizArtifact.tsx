@@ -0,0 +1,310 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client/react';
+import { GET_QUIZ_SCORES, SUBMIT_QUIZ_ATTEMPT } from '@/lib/graphql/operations';
+import { parseQuizContent, type QuizAnswers, type QuizContent } from '@/lib/quiz';
+import { UserAvatar } from '@/components/ui/UserAvatar';
+
+interface QuizArtifactProps {
+  artifactId: string;
+  content: string;
+}
+
+interface QuizScore {
+  bestScore: number;
+  lastScore: number;
+  total: number;
+  attempts: number;
+  lastAttemptAt: string;
+  user: { id: string; username: string; avatarUrl?: string };
+}
+
+interface QuizAttemptResult {
+  score: number;
+  total: number;
+  results: { id: string; correct: boolean }[];
+}
+
+export function QuizArtifact({ artifactId, content }: QuizArtifactProps) {
+  const quiz = useMemo(() => parseQuizContent(content), [content]);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: scoresData } = useQuery<{ quizScores: QuizScore[] }>(GET_QUIZ_SCORES, {
+    variables: { artifactId },
+    fetchPolicy: 'cache-and-network',
+  });
+  const [submitAttempt, { loading: submitting }] = useMutation<{
+    submitQuizAttempt: QuizAttemptResult;
+  }>(SUBMIT_QUIZ_ATTEMPT, {
+    refetchQueries: [{ query: GET_QUIZ_SCORES, variables: { artifactId } }],
+  });
+
+  if (!quiz) {
+    return (
+      <div className="flex h-full min-h-[300px] flex-col items-center justify-center gap-2 p-8">
+        <span className="text-5xl">🧠</span>
+        <p className="text-gray-400">This practice set could not be read</p>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (finalAnswers: QuizAnswers) => {
+    setError(null);
+    try {
+      const { data } = await submitAttempt({
+        variables: { input: { artifactId, answers: finalAnswers } },
+      });
+      if (data) setResult(data.submitQuizAttempt);
+    } catch (err: unknown) {
+      const e = err instanceof Error ? err : new Error('Unknown error');
+      console.error('Submit quiz attempt error:', e);
+      setError(e.message);
+    }
+  };
+
+  const restart = () => {
+    setAnswers({});
+    setResult(null);
+  };
+
+  const scores = scoresData?.quizScores || [];
+
+  return (
+    <div className="flex h-full max-h-[calc(90vh-140px)] flex-col overflow-y-auto bg-[#0d0d0d] md:flex-row">
+      <div className="flex-1 space-y-4 p-6">
+        {result && (
+          <div className="flex items-center justify-between rounded-xl border border-orange-500/20 bg-orange-500/10 px-4 py-3">
+            <span className="font-medium text-orange-300">
+              {quiz.kind === 'quiz' ? 'You scored' : 'You knew'} {result.score}/{result.total}
+            </span>
+            <button
+              onClick={restart}
+              className="rounded-lg bg-white/5 px-3 py-1.5 text-sm text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              {quiz.kind === 'quiz' ? 'Try again' : 'Study again'}
+            </button>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {quiz.kind === 'quiz' ? (
+          <QuizQuestions
+            quiz={quiz}
+            answers={answers}
+            result={result}
+            submitting={submitting}
+            onAnswer={(id, value) => setAnswers((prev) => ({ ...prev, [id]: value }))}
+            onSubmit={() => handleSubmit(answers)}
+          />
+        ) : (
+          !result && (
+            <FlashcardDeck
+              quiz={quiz}
+              submitting={submitting}
+              onFinish={(known) => {
+                setAnswers(known);
+                handleSubmit(known);
+              }}
+            />
+          )
+        )}
+      </div>
+
+      {/* Group scores */}
+      <aside className="shrink-0 border-t border-white/5 p-6 md:w-64 md:border-t-0 md:border-l">
+        <h3 className="mb-3 text-sm font-semibold text-white">Group scores</h3>
+        {scores.length === 0 ? (
+          <p className="text-sm text-gray-500">No attempts yet. Be the first!</p>
+        ) : (
+          <ul className="space-y-3">
+            {scores.map((score) => (
+              <li key={score.user.id} className="flex items-center gap-3">
+                <UserAvatar
+                  username={score.user.username}
+                  avatarUrl={score.user.avatarUrl}
+                  size="sm"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm text-gray-200">{score.user.username}</p>
+                  <p className="text-xs text-gray-500">
+                    {score.attempts} {score.attempts === 1 ? 'attempt' : 'attempts'} · last{' '}
+                    {score.lastScore}/{score.total}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-orange-300">
+                  {score.bestScore}/{score.total}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+function QuizQuestions({
+  quiz,
+  answers,
+  result,
+  submitting,
+  onAnswer,
+  onSubmit,
+}: {
+  quiz: Extract<QuizContent, { kind: 'quiz' }>;
+  answers: QuizAnswers;
+  result: QuizAttemptResult | null;
+  submitting: boolean;
+  onAnswer: (id: string, value: number | string) => void;
+  onSubmit: () => void;
+}) {
+  const outcome = (id: string) => result?.results.find((r) => r.id === id)?.correct;
+
+  return (
+    <div className="space-y-4">
+      {quiz.questions.map((question, i) => {
+        const correct = outcome(question.id);
+
+        return (
+          <div
+            key={question.id}
+            className={`rounded-xl border p-4 ${
+              correct === undefined
+                ? 'border-white/10 bg-[#131316]'
+                : correct
+                  ? 'border-green-500/30 bg-green-500/5'
+                  : 'border-red-500/30 bg-red-500/5'
+            }`}
+          >
+            <p className="mb-3 text-sm font-medium text-white">
+              {i + 1}. {question.prompt}
+            </p>
+
+            {question.type === 'multiple_choice' ? (
+              <div className="space-y-2">
+                {question.options.map((option, index) => (
+                  <label
+                    key={index}
+                    className={`flex cursor-pointer items-center gap-3 rounded-lg border px-3 py-2 text-sm transition-colors ${
+                      result && index === question.correctIndex
+                        ? 'border-green-500/40 text-green-300'
+                        : answers[question.id] === index
+                          ? 'border-orange-500/40 bg-orange-500/10 text-white'
+                          : 'border-white/5 text-gray-300 hover:bg-white/5'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={question.id}
+                      checked={answers[question.id] === index}
+                      onChange={() => onAnswer(question.id, index)}
+                      disabled={!!result}
+                      className="accent-orange-500"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={(answers[question.id] as string) || ''}
+                  onChange={(e) => onAnswer(question.id, e.target.value)}
+                  disabled={!!result}
+                  placeholder="Your answer"
+                  className="w-full rounded-lg border border-white/10 bg-[#1a1a1e] px-3 py-2 text-sm text-white placeholder-gray-500 outline-none focus:border-orange-500/50"
+                />
+                {result && !correct && (
+                  <p className="text-sm text-green-300">Answer: {question.answer}</p>
+                )}
+              </div>
+            )}
+
+            {result && question.explanation && (
+              <p className="mt-3 text-sm text-gray-400">{question.explanation}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {!result && (
+        <button
+          onClick={onSubmit}
+          disabled={submitting || Object.keys(answers).length === 0}
+          className="w-full rounded-lg bg-orange-500 px-4 py-2.5 font-medium text-white transition-colors hover:bg-orange-600 disabled:opacity-50"
+        >
+          {submitting ? 'Checking...' : 'Submit answers'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function FlashcardDeck({
+  quiz,
+  submitting,
+  onFinish,
+}: {
+  quiz: Extract<QuizContent, { kind: 'flashcards' }>;
+  submitting: boolean;
+  onFinish: (known: QuizAnswers) => void;
+}) {
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [known, setKnown] = useState<QuizAnswers>({});
+
+  const card = quiz.cards[index];
+
+  const mark = (knewIt: boolean) => {
+    const next = { ...known, [card.id]: knewIt };
+    setKnown(next);
+    setFlipped(false);
+
+    if (index === quiz.cards.length - 1) {
+      onFinish(next);
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Card {index + 1} of {quiz.cards.length}
+      </p>
+
+      <button
+        onClick={() => setFlipped(!flipped)}
+        className="flex min-h-[220px] w-full items-center justify-center rounded-2xl border border-white/10 bg-[#131316] p-8 text-center transition-colors hover:border-orange-500/30"
+      >
+        <span className={`text-lg ${flipped ? 'text-orange-200' : 'text-white'}`}>
+          {flipped ? card.back : card.front}
+        </span>
+      </button>
+      <p className="text-center text-xs text-gray-500">Click the card to flip it</p>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => mark(false)}
+          disabled={submitting}
+          className="flex-1 rounded-lg border border-white/10 px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-white/5 disabled:opacity-50"
+        >
+          Still learning
+        </button>
+        <button
+          onClick={() => mark(true)}
+          disabled={submitting}
+          className="flex-1 rounded-lg bg-orange-500 px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-orange-600 disabled:opacity-50"
+        >
+          Got it
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default QuizArtifact;
@@ -0,0 +1,74 @@
+'use client';
+
+import type { ArtifactRecording } from '@/types/database';
+
+interface VideoArtifactProps {
+  src: string;
+  title: string;
+  recording?: ArtifactRecording;
+}
+
+/**
+ * Format a recording length as m:ss, or h:mm:ss for long calls
+ */
+export function formatDuration(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+export function VideoArtifact({ src, title, recording }: VideoArtifactProps) {
+  return (
+    <div className="flex h-full w-full flex-col bg-[#0d0d0d]">
+      <video
+        src={src}
+        title={title}
+        controls
+        preload="metadata"
+        className="max-h-[60vh] w-full bg-black"
+      />
+
+      {recording && (
+        <div className="flex flex-wrap items-start gap-6 px-6 py-4 text-sm">
+          <div>
+            <p className="text-xs text-gray-500">Duration</p>
+            <p className="text-white">{formatDuration(recording.durationSeconds)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Recorded</p>
+            <p className="text-white">
+              {new Date(recording.startedAt).toLocaleTimeString(undefined, {
+                hour: '2-digit',
+                minute: '2-digit',
+              })}{' '}
+              –{' '}
+              {new Date(recording.endedAt).toLocaleTimeString(undefined, {
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </p>
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-xs text-gray-500">Participants ({recording.participants.length})</p>
+            <div className="mt-1 flex flex-wrap gap-1.5">
+              {recording.participants.map((identity) => (
+                <span
+                  key={identity}
+                  className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-gray-300"
+                >
+                  {identity}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VideoArtifact;
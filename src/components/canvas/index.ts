@@ -11,3 +11,5 @@ export { ArtifactViewer } from './ArtifactViewer';
 export { CodeArtifact } from './CodeArtifact';
 export { ImageArtifact } from './ImageArtifact';
 export { PDFArtifact } from './PDFArtifact';
+export { QuizArtifact } from './QuizArtifact';
+export { VideoArtifact } from './VideoArtifact';
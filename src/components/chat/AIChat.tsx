@@ -2,21 +2,42 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useAIChat } from '@/hooks/useAIChat';
+import { useChatScroll } from '@/hooks/useChatScroll';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { useReactions } from '@/hooks/useReactions';
+import { TypingIndicator } from './TypingIndicator';
+import { ReactionPicker } from './ReactionPicker';
+import { MessageReactions } from './MessageReactions';
 import { useUploadArtifactMutation } from '@/hooks/queries';
 import { useAuth } from '@/hooks/useAuth';
 import { UserAvatar } from '@/components/ui/UserAvatar';
+import { PracticeModal } from './PracticeModal';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { MentionMenu } from './MentionMenu';
+import { MentionText } from './MentionText';
+import { useMentions } from '@/hooks/useMentions';
+import { useSlashCommands, type CommandHandlers } from '@/hooks/useSlashCommands';
+import { formatCodeBlock } from '@/lib/commands';
 import { useQuery } from '@apollo/client/react';
 import { GET_SUBJECT } from '@/lib/graphql/operations';
+import { buildThread } from '@/lib/llm/thread';
 import { useMemo } from 'react';
 
 interface AIChatProps {
   subjectId: string;
+  onStartCall?: (mode: 'video' | 'audio') => void;
+  /** Question forwarded from the group chat with /ask */
+  tutorQuestion?: string | null;
+  onTutorQuestionSent?: () => void;
+  /** Message to scroll to, e.g. when opened from a mention notification */
+  focusMessageId?: string | null;
 }
 
-interface PendingMessage {
-  content: string;
-  timestamp: Date;
-}
+const SUMMARIZE_PROMPT =
+  'Summarize our session so far: the topics we covered, the key explanations and any open questions.';
+
+// Reactions on tutor answers that are also recorded as feedback
+const FEEDBACK_RATINGS: Record<string, 1 | -1> = { '👍': 1, '👎': -1 };
 
 interface UserBase {
   id: string;
@@ -35,16 +56,49 @@ interface SubjectData {
   };
 }
 
-export function AIChat({ subjectId }: AIChatProps) {
-  const { messages, sending, isStreaming, streamingContent, sendMessage } = useAIChat(subjectId);
+export function AIChat({
+  subjectId,
+  onStartCall,
+  tutorQuestion,
+  onTutorQuestionSent,
+  focusMessageId,
+}: AIChatProps) {
+  const {
+    messages,
+    loadingOlder,
+    hasMore,
+    sending,
+    isStreaming,
+    streamingContent,
+    error,
+    queue,
+    queuePosition,
+    generatingPractice,
+    sendMessage,
+    retrySend,
+    discardSend,
+    regenerate,
+    editAndResend,
+    stopGenerating,
+    createPracticeSet,
+    cancelQueuedRequest,
+    rateAnswer,
+    loadOlder,
+  } = useAIChat(subjectId);
   const uploadArtifactMutation = useUploadArtifactMutation(subjectId);
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(subjectId, 'ai');
+  const { reactionsByMessage, toggleReaction } = useReactions(subjectId, 'ai');
   const { user } = useAuth();
   const [inputValue, setInputValue] = useState('');
   const [attachedFile, setAttachedFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
-  const [pendingMessage, setPendingMessage] = useState<PendingMessage | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Variant shown per slot (slot root ID -> message ID); unset slots show the newest
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [practiceOpen, setPracticeOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const sentTutorQuestionRef = useRef<string | null>(null);
 
   // Fetch subject details to get member avatars
   const { data: subjectData } = useQuery<SubjectData>(GET_SUBJECT, {
@@ -75,26 +129,56 @@ export function AIChat({ subjectId }: AIChatProps) {
     return map;
   }, [subjectData]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  const thread = useMemo(() => buildThread(messages, selectedVariants), [messages, selectedVariants]);
 
+  const { scrollRef, handleScroll, scrollToBottom, highlightedId } = useChatScroll({
+    messages,
+    hasMore,
+    loadingOlder,
+    loadOlder,
+    focusMessageId,
+  });
+
+  // New messages (including queued questions) are followed by useChatScroll;
+  // also follow the streamed reply
   useEffect(() => {
     scrollToBottom();
-  }, [messages, streamingContent, pendingMessage]);
+  }, [streamingContent, scrollToBottom]);
+
+  const commandHandlers: CommandHandlers = {
+    code: ({ lang, code }) => sendMessage(formatCodeBlock(lang, code)),
+    summarize: () => sendMessage(SUMMARIZE_PROMPT),
+    ...(onStartCall && {
+      call: ({ mode = 'video' }) => onStartCall(mode as 'video' | 'audio'),
+    }),
+  };
 
-  // Clear pending message when real message appears
+  const commands = useSlashCommands({
+    subjectId,
+    surface: 'ai',
+    input: inputValue,
+    setInput: setInputValue,
+    handlers: commandHandlers,
+  });
+  const mentions = useMentions({ subjectId, input: inputValue, setInput: setInputValue });
+
+  // Send questions forwarded from the group chat once
   useEffect(() => {
-    if (pendingMessage && messages.length > 0) {
-      const lastUserMsg = messages.filter(m => m.role === 'user').pop();
-      if (lastUserMsg && lastUserMsg.content === pendingMessage.content) {
-        setPendingMessage(null);
-      }
+    if (!tutorQuestion) {
+      sentTutorQuestionRef.current = null;
+      return;
     }
-  }, [messages, pendingMessage]);
+    if (sentTutorQuestionRef.current === tutorQuestion) return;
+
+    sentTutorQuestionRef.current = tutorQuestion;
+    onTutorQuestionSent?.();
+    sendMessage(tutorQuestion);
+  }, [tutorQuestion, onTutorQuestionSent, sendMessage]);
 
   const handleSend = async () => {
     if (!inputValue.trim() && !attachedFile) return;
+    stopTyping();
+    if (!attachedFile && (await commands.execute(inputValue))) return;
 
     let messageText = inputValue;
     const currentInput = inputValue;
@@ -123,18 +207,18 @@ export function AIChat({ subjectId }: AIChatProps) {
     }
 
     if (messageText.trim()) {
-      // Set pending message for optimistic UI
-      setPendingMessage({
-        content: messageText.trim(),
-        timestamp: new Date()
-      });
-
-      // Send the message
       await sendMessage(messageText);
     }
   };
 
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInputValue(e.target.value);
+    if (e.target.value.trim()) notifyTyping();
+    else stopTyping();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentions.handleKeyDown(e) || commands.handleKeyDown(e)) return;
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -155,6 +239,52 @@ export function AIChat({ subjectId }: AIChatProps) {
     }
   };
 
+  const showVariant = (rootId: string, messageId: string) => {
+    setSelectedVariants((prev) => ({ ...prev, [rootId]: messageId }));
+  };
+
+  // Show the newest variant of a slot once a new one is added
+  const clearVariant = (rootId: string) => {
+    setSelectedVariants(({ [rootId]: _removed, ...rest }) => rest);
+  };
+
+  const handleRegenerate = async (rootId: string, msg: (typeof messages)[number]) => {
+    clearVariant(rootId);
+    await regenerate(msg);
+  };
+
+  const startEditing = (msg: (typeof messages)[number]) => {
+    setEditingId(msg.id);
+    setEditValue(msg.content);
+  };
+
+  const handleEditResend = async (rootId: string, msg: (typeof messages)[number]) => {
+    if (!editValue.trim()) return;
+    const content = editValue;
+    setEditingId(null);
+    setEditValue('');
+    clearVariant(rootId);
+    await editAndResend(msg, content);
+  };
+
+  /**
+   * Toggle a reaction; thumbs up/down on an answer also rate it for the tutor
+   */
+  const handleReact = async (msg: (typeof messages)[number], emoji: string) => {
+    const rating = msg.role === 'assistant' ? FEEDBACK_RATINGS[emoji] : undefined;
+
+    // An answer is rated either up or down, so drop the opposite thumb
+    if (rating) {
+      const opposite = rating === 1 ? '👎' : '👍';
+      if (reactionsByMessage.get(msg.id)?.some((r) => r.emoji === opposite && r.reacted)) {
+        await toggleReaction(msg.id, opposite);
+      }
+    }
+
+    const added = await toggleReaction(msg.id, emoji);
+    if (rating) await rateAnswer(msg, added ? rating : null);
+  };
+
   const isLoading = sending || uploading;
 
   return (
@@ -184,7 +314,14 @@ export function AIChat({ subjectId }: AIChatProps) {
       </div> */}
 
       {/* Messages Area */}
-      <div className="scrollbar-hide flex-1 space-y-6 overflow-y-auto p-4 px-20">
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="scrollbar-hide flex-1 space-y-6 overflow-y-auto p-4 px-20"
+      >
+        {loadingOlder && (
+          <p className="text-center text-xs text-gray-500">Loading older messages...</p>
+        )}
         {messages.length === 0 && !isStreaming && (
           <div className="flex h-full flex-col items-center justify-center space-y-4 text-center opacity-50">
             <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-white/5">
@@ -206,9 +343,11 @@ export function AIChat({ subjectId }: AIChatProps) {
           </div>
         )}
 
-        {messages.map((msg, idx) => {
+        {thread.map(({ message: msg, variants, index }, idx) => {
           // User requested: All user messages on right side, AI on left.
           const isUser = msg.role === 'user';
+          const rootId = variants[0].id;
+          const isEditing = editingId === msg.id;
           const isAssistant = msg.role === 'assistant';
 
           // Identity check for Avatar
@@ -217,7 +356,8 @@ export function AIChat({ subjectId }: AIChatProps) {
           return (
             <div
               key={`${msg.role}-${msg.id || idx}-${idx}`}
-              className={`flex gap-3 ${isUser ? 'justify-end' : 'justify-start'}`}
+              id={`message-${msg.id}`}
+              className={`group -mx-2 flex gap-3 rounded-xl px-2 transition-colors ${isUser ? 'justify-end' : 'justify-start'} ${highlightedId === msg.id ? 'bg-accent/10' : ''}`}
             >
               {/* Left side Avatar (Only Assistant) */}
               {isAssistant && (
@@ -319,8 +459,36 @@ export function AIChat({ subjectId }: AIChatProps) {
                     );
                   })()}
 
+                {/* Edit and resend */}
+                {isEditing && (
+                  <div className="space-y-2 rounded-2xl border border-blue-500/30 bg-[#1a1a1e] p-3">
+                    <textarea
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      className="scrollbar-hide w-full resize-none bg-transparent text-sm text-gray-200 outline-none"
+                      rows={3}
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="rounded-lg px-3 py-1.5 text-xs text-gray-400 transition-colors hover:bg-white/5 hover:text-white"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleEditResend(rootId, msg)}
+                        disabled={!editValue.trim() || sending}
+                        className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
+                      >
+                        Save &amp; resend
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Message Content */}
-                {(() => {
+                {!isEditing && (() => {
                   // Remove file attachment prefix from content for display
                   const displayContent = msg.content
                     .replace(/\[Attached file: [^\]]+\]\n*/g, '')
@@ -363,15 +531,143 @@ export function AIChat({ subjectId }: AIChatProps) {
                                 </div>
                               );
                             }
-                            return part.trim() ? <p key={i}>{part}</p> : null;
+                            return part.trim() ? <p key={i}><MentionText text={part} /></p> : null;
                           })}
                         </div>
                       ) : (
-                        <p className="whitespace-pre-wrap">{displayContent}</p>
+                        <p className="whitespace-pre-wrap"><MentionText text={displayContent} /></p>
                       )}
                     </div>
                   );
                 })()}
+
+                {/* Artifacts saved from this response */}
+                {isAssistant && msg.has_artifact && (
+                  <div className="flex w-fit items-center gap-1.5 rounded-lg border border-orange-500/20 bg-orange-500/10 px-2.5 py-1 text-xs text-orange-300">
+                    <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z"
+                      />
+                    </svg>
+                    {msg.artifact_ids?.length === 1
+                      ? 'Saved 1 artifact to Canvas'
+                      : `Saved ${msg.artifact_ids?.length ?? 0} artifacts to Canvas`}
+                  </div>
+                )}
+
+                {/* Canvas artifacts cited in this response */}
+                {isAssistant && msg.sources && msg.sources.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                    <span className="text-gray-500">Sources:</span>
+                    {msg.sources.map((source) => (
+                      <span
+                        key={source.index}
+                        className="flex items-center gap-1 rounded-lg border border-white/10 bg-[#1a1a1e] px-2 py-0.5 text-gray-300"
+                      >
+                        <span className="text-blue-400">[{source.index}]</span>
+                        {source.title}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {/* Delivery status of a queued question */}
+                {msg.send_status === 'pending' && (
+                  <p className="text-right text-xs text-gray-500">Sending...</p>
+                )}
+                {msg.send_status === 'failed' && (
+                  <div className="flex items-center justify-end gap-2 text-xs">
+                    <span className="text-red-400">Not sent</span>
+                    <button
+                      onClick={() => retrySend(msg.id)}
+                      className="text-gray-400 hover:text-white hover:underline"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => discardSend(msg.id)}
+                      className="text-gray-500 hover:text-red-400 hover:underline"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+
+                {/* Reactions */}
+                {!msg.send_status && (
+                  <div className={`flex ${isUser ? 'justify-end' : ''}`}>
+                    <MessageReactions
+                      reactions={reactionsByMessage.get(msg.id) || []}
+                      onToggle={(emoji) => handleReact(msg, emoji)}
+                    />
+                  </div>
+                )}
+
+                {/* Variant pager and message actions */}
+                {!isEditing && !msg.send_status && (
+                  <div className={`flex items-center gap-1 text-xs text-gray-500 ${isUser ? 'justify-end' : ''}`}>
+                    <div className="opacity-0 transition-opacity group-hover:opacity-100">
+                      <ReactionPicker onPick={(emoji) => handleReact(msg, emoji)} alignRight={isUser} />
+                    </div>
+                    {variants.length > 1 && (
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => showVariant(rootId, variants[index - 1].id)}
+                          disabled={index === 0}
+                          className="rounded px-1.5 py-0.5 transition-colors hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                          title="Previous version"
+                        >
+                          ‹
+                        </button>
+                        <span>
+                          {index + 1}/{variants.length}
+                        </span>
+                        <button
+                          onClick={() => showVariant(rootId, variants[index + 1].id)}
+                          disabled={index === variants.length - 1}
+                          className="rounded px-1.5 py-0.5 transition-colors hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                          title="Next version"
+                        >
+                          ›
+                        </button>
+                      </div>
+                    )}
+                    {isAssistant && (
+                      <button
+                        onClick={() => handleRegenerate(rootId, msg)}
+                        disabled={sending}
+                        className="flex items-center gap-1 rounded-lg px-2 py-1 transition-colors hover:bg-white/5 hover:text-white disabled:opacity-50"
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                          />
+                        </svg>
+                        Regenerate
+                      </button>
+                    )}
+                    {isActuallyMe && (
+                      <button
+                        onClick={() => startEditing(msg)}
+                        disabled={sending}
+                        className="flex items-center gap-1 rounded-lg px-2 py-1 transition-colors hover:bg-white/5 hover:text-white disabled:opacity-50"
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                          />
+                        </svg>
+                        Edit
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Right side Avatar (Only User) */}
@@ -386,24 +682,6 @@ export function AIChat({ subjectId }: AIChatProps) {
           );
         })}
 
-        {/* Pending User Message (Optimistic UI) */}
-        {pendingMessage && !messages.some(m => m.role === 'user' && m.content === pendingMessage.content) && (
-          <div className="flex gap-3 justify-end animate-fadeIn">
-            <div className="max-w-[80%] space-y-2">
-              <div className="flex items-center gap-2 text-xs text-gray-500 flex-row-reverse">
-                <span className="font-medium text-gray-300">{user?.username}</span>
-                <span>Sending...</span>
-              </div>
-              <div className="rounded-2xl p-4 text-sm leading-relaxed border border-white/10 bg-[#1a1a1e] text-gray-200 opacity-80">
-                <p className="whitespace-pre-wrap">{pendingMessage.content}</p>
-              </div>
-            </div>
-            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-yellow-500 text-xs font-bold text-black">
-              {user?.username?.[0]?.toUpperCase() || 'U'}
-            </div>
-          </div>
-        )}
-
         {/* Streaming response */}
         {isStreaming && streamingContent && (
           <div className="flex gap-3">
@@ -442,7 +720,7 @@ export function AIChat({ subjectId }: AIChatProps) {
         )}
 
         {/* AI Thinking Indicator - Improved Design */}
-        {sending && !streamingContent && (
+        {sending && !streamingContent && !queuePosition && (
           <div className="flex gap-3 animate-fadeIn">
             <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-blue-600 text-white">
               <svg className="h-4 w-4 animate-pulse" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -486,11 +764,43 @@ export function AIChat({ subjectId }: AIChatProps) {
             </div>
           </div>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
       {/* Input Area */}
       <div className="shrink-0 p-4 px-20 pt-2">
+        {typingUsers.length > 0 && (
+          <div className="mb-2 px-1">
+            <TypingIndicator usernames={typingUsers} />
+          </div>
+        )}
+
+        {/* AI Queue Status */}
+        {queuePosition ? (
+          <div className="mb-3 flex items-center justify-between gap-3 rounded-xl border border-amber-500/20 bg-amber-500/10 px-4 py-2.5 text-sm">
+            <span className="text-amber-300">
+              Your question is #{queuePosition} in line
+              {queue?.active && ` — AI is answering ${queue.active.username}'s question`}
+            </span>
+            <button
+              onClick={cancelQueuedRequest}
+              className="rounded-lg px-2.5 py-1 text-xs font-medium text-amber-300 transition-colors hover:bg-amber-500/20 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          queue?.active &&
+          queue.active.userId !== user?._id && (
+            <div className="mb-3 flex items-center gap-2 rounded-xl border border-blue-500/20 bg-blue-600/10 px-4 py-2.5 text-sm text-blue-300">
+              <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-blue-400"></span>
+              AI is answering {queue.active.username}&apos;s question
+              {queue.waiting.length > 0 && (
+                <span className="text-gray-500">· {queue.waiting.length} waiting</span>
+              )}
+            </div>
+          )
+        )}
+
         {/* Attached File Preview */}
         {attachedFile && (
           <div className="mb-3 flex items-center gap-3 rounded-xl border border-white/10 bg-[#1a1a1e] p-3">
@@ -530,6 +840,20 @@ export function AIChat({ subjectId }: AIChatProps) {
         )}
 
         <div className="relative flex items-center rounded-xl border border-white/10 bg-[#121212] p-2 pl-4 transition-colors focus-within:border-accent-secondary/50">
+          <SlashCommandMenu
+            suggestions={commands.suggestions}
+            activeIndex={commands.activeIndex}
+            activeCommand={commands.activeCommand}
+            menuOpen={commands.menuOpen}
+            error={commands.error}
+            onSelect={commands.complete}
+          />
+          <MentionMenu
+            suggestions={mentions.suggestions}
+            activeIndex={mentions.activeIndex}
+            menuOpen={mentions.menuOpen}
+            onSelect={mentions.complete}
+          />
           <button
             onClick={() => fileInputRef.current?.click()}
             disabled={isLoading}
@@ -549,6 +873,13 @@ export function AIChat({ subjectId }: AIChatProps) {
               />
             </svg>
           </button>
+          <button
+            onClick={() => setPracticeOpen(true)}
+            title="Generate a quiz or flashcards"
+            className="rounded-lg p-2 text-gray-400 transition-colors hover:bg-white/5 hover:text-white"
+          >
+            🧠
+          </button>
           <input
             type="file"
             ref={fileInputRef}
@@ -558,44 +889,63 @@ export function AIChat({ subjectId }: AIChatProps) {
           />
           <textarea
             value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
+            onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="Ask the AI tutor..."
+            placeholder="Ask the AI tutor, or / for commands..."
             className="scrollbar-hide w-full resize-none bg-transparent px-4 py-3 text-sm text-white placeholder-gray-500 outline-none"
             rows={1}
             style={{ minHeight: '44px' }}
-            disabled={isLoading}
+            disabled={isLoading || commands.running}
           />
 
           <div className="flex items-center justify-between px-2 pb-1">
             <div className="flex items-center gap-2">
-              <button
-                onClick={handleSend}
-                disabled={(!inputValue.trim() && !attachedFile) || isLoading}
-                className="flex h-8 w-8 items-center justify-center rounded-lg bg-linear-to-br from-blue-600 to-indigo-600 text-white shadow-lg shadow-blue-500/20 transition-all hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
-              >
-                {isLoading ? (
-                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-                ) : (
-                  <svg
-                    className="h-4 w-4 rotate-45"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                    strokeWidth={2}
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-                    />
-                  </svg>
-                )}
-              </button>
+              {sending ? (
+                <button
+                  onClick={stopGenerating}
+                  title="Stop generating"
+                  className="flex h-8 w-8 items-center justify-center rounded-lg border border-white/10 bg-[#1a1a1e] text-white transition-colors hover:bg-white/10"
+                >
+                  <span className="h-3 w-3 rounded-sm bg-white" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={(!inputValue.trim() && !attachedFile) || isLoading}
+                  className="flex h-8 w-8 items-center justify-center rounded-lg bg-linear-to-br from-blue-600 to-indigo-600 text-white shadow-lg shadow-blue-500/20 transition-all hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+                >
+                  {isLoading ? (
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                  ) : (
+                    <svg
+                      className="h-4 w-4 rotate-45"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={2}
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                      />
+                    </svg>
+                  )}
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      <PracticeModal
+        isOpen={practiceOpen}
+        onClose={() => setPracticeOpen(false)}
+        subjectId={subjectId}
+        generating={generatingPractice}
+        error={error}
+        onGenerate={createPracticeSet}
+      />
     </div>
   );
 }
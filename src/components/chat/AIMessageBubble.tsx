@@ -8,12 +8,17 @@
 
 import { useRef, useEffect } from 'react';
 import gsap from 'gsap';
+import { ReactionPicker } from './ReactionPicker';
+import { MessageReactions } from './MessageReactions';
+import type { ReactionSummary } from '@/hooks/useReactions';
 
 interface AIMessageBubbleProps {
   content: string;
   timestamp?: string;
   delay?: number;
   isStreaming?: boolean;
+  reactions?: ReactionSummary[];
+  onReact?: (emoji: string) => void;
 }
 
 export function AIMessageBubble({
@@ -21,6 +26,8 @@ export function AIMessageBubble({
   timestamp,
   delay = 0,
   isStreaming = false,
+  reactions = [],
+  onReact,
 }: AIMessageBubbleProps) {
   const bubbleRef = useRef<HTMLDivElement>(null);
 
@@ -92,7 +99,7 @@ export function AIMessageBubble({
   };
 
   return (
-    <div ref={bubbleRef} className="flex justify-end gap-3">
+    <div ref={bubbleRef} className="group flex justify-end gap-3">
       {/* Message */}
       <div className="max-w-[85%]">
         <div className="mb-1 flex items-baseline justify-end gap-2">
@@ -103,10 +110,20 @@ export function AIMessageBubble({
           {isStreaming && (
             <span className="text-accent-secondary animate-pulse text-xs">typing...</span>
           )}
+          {onReact && !isStreaming && (
+            <div className="opacity-0 transition-opacity group-hover:opacity-100">
+              <ReactionPicker onPick={onReact} alignRight />
+            </div>
+          )}
         </div>
         <div className="border-accent-secondary/20 from-accent-secondary/10 to-accent-secondary-dark/10 rounded-2xl rounded-tr-none border bg-linear-to-br px-4 py-3">
           <div className="text-sm text-gray-200">{renderContent(content)}</div>
         </div>
+        {onReact && (
+          <div className="flex justify-end">
+            <MessageReactions reactions={reactions} onToggle={onReact} />
+          </div>
+        )}
       </div>
 
       {/* AI Avatar */}
@@ -0,0 +1,85 @@
+/**
+ * File Message Component
+ *
+ * A file shared in the group chat: an inline preview for images, a
+ * download card for everything else
+ */
+
+'use client';
+
+import { getFileType, getOptimizedImageUrl } from '@/services/cloudinary.service';
+import { formatFileSize, getFileExtension } from '@/utils/fileValidation';
+
+interface FileMessageProps {
+  url: string;
+  fileName: string;
+  fileSize?: number | null;
+  isImage: boolean;
+}
+
+const fileIcons: Record<ReturnType<typeof getFileType>, string> = {
+  image: '🖼',
+  pdf: '📄',
+  code: '💻',
+  other: '📎',
+};
+
+export function FileMessage({ url, fileName, fileSize, isImage }: FileMessageProps) {
+  if (isImage) {
+    return (
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block overflow-hidden rounded-2xl border border-white/10 bg-white/5"
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={getOptimizedImageUrl(url, { width: 640 })}
+          alt={fileName}
+          loading="lazy"
+          className="max-h-80 max-w-full object-contain"
+        />
+      </a>
+    );
+  }
+
+  const extension = getFileExtension(fileName);
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={fileName}
+      className="flex w-72 max-w-full items-center gap-3 rounded-2xl border border-white/10 bg-white/5 p-3 transition-colors hover:bg-white/10"
+    >
+      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-white/5 text-xl">
+        {fileIcons[getFileType(fileName)]}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-white">{fileName}</p>
+        <p className="text-xs text-gray-400">
+          {[extension.toUpperCase(), fileSize ? formatFileSize(fileSize) : null]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+      </div>
+      <svg
+        className="h-4 w-4 shrink-0 text-gray-400"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        strokeWidth={2}
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+        />
+      </svg>
+    </a>
+  );
+}
+
+export default FileMessage;
@@ -12,20 +12,101 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useChat } from '@/hooks/useChat';
 import { MessageList } from './MessageList';
+import { getMessagePreview, type ChatMessage } from './MessageBubble';
+import { ThreadPanel } from './ThreadPanel';
+import { TypingIndicator } from './TypingIndicator';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { MentionMenu } from './MentionMenu';
+import { useMentions } from '@/hooks/useMentions';
 import { useAuth } from '@/hooks/useAuth';
+import { usePollVotes } from '@/hooks/usePollVotes';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { useChatUpload } from '@/hooks/useChatUpload';
+import { useReactions } from '@/hooks/useReactions';
+import { useSlashCommands, type CommandHandlers } from '@/hooks/useSlashCommands';
 import { useQuery } from '@apollo/client/react';
 import { GET_SUBJECT } from '@/lib/graphql/operations';
+import { formatCodeBlock, splitPollOptions } from '@/lib/commands';
+import { getAcceptAttribute } from '@/utils/fileValidation';
+import { summarizeGroupChat } from '@/services/ai.service';
 import { useMemo } from 'react';
 
 interface FriendsChatProps {
   subjectId: string;
+  onStartCall?: (mode: 'video' | 'audio') => void;
+  onAskTutor?: (question: string) => void;
+  /** Message to scroll to, e.g. when opened from a mention notification */
+  focusMessageId?: string | null;
 }
 
-export function FriendsChat({ subjectId }: FriendsChatProps) {
-  const { messages, loading, sendMessage, subscribeToMessages } = useChat(subjectId);
+export function FriendsChat({
+  subjectId,
+  onStartCall,
+  onAskTutor,
+  focusMessageId,
+}: FriendsChatProps) {
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    hasMore,
+    loadOlder,
+    sendMessage,
+    retrySend,
+    discardSend,
+    editMessage,
+    deleteMessage,
+    subscribeToMessages,
+  } = useChat(subjectId);
+  const { votesByMessage, vote } = usePollVotes(subjectId);
+  const { reactionsByMessage, toggleReaction } = useReactions(subjectId, 'friend');
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(subjectId, 'friend');
   const { user: _user } = useAuth();
   const [inputValue, setInputValue] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { uploads, uploadFiles, dismissUpload } = useChatUpload({ subjectId, sendMessage });
+
+  const commandHandlers: CommandHandlers = {
+    poll: ({ question, options }) =>
+      sendMessage(question, {
+        messageType: 'poll',
+        metadata: { options: splitPollOptions(options) },
+      }),
+    code: ({ lang, code }) => sendMessage(formatCodeBlock(lang, code)),
+    summarize: async () => {
+      const summary = await summarizeGroupChat(subjectId);
+      await sendMessage(summary, { messageType: 'system', metadata: { command: 'summarize' } });
+    },
+    ...(onAskTutor && {
+      ask: async ({ question }) => {
+        await sendMessage(question, { messageType: 'system', metadata: { command: 'ask' } });
+        onAskTutor(question);
+      },
+    }),
+    ...(onStartCall && {
+      call: async ({ mode = 'video' }) => {
+        const callMode = mode as 'video' | 'audio';
+        await sendMessage(`Started ${callMode === 'video' ? 'a video' : 'an audio'} call`, {
+          messageType: 'system',
+          metadata: { command: 'call', mode: callMode },
+        });
+        onStartCall(callMode);
+      },
+    }),
+  };
+
+  const commands = useSlashCommands({
+    subjectId,
+    surface: 'friends',
+    input: inputValue,
+    setInput: setInputValue,
+    handlers: commandHandlers,
+  });
+  const mentions = useMentions({ subjectId, input: inputValue, setInput: setInputValue });
+  const canModerate = commands.role === 'owner' || commands.role === 'admin';
 
   // Fetch subject details to get member avatars
   const { data: subjectData } = useQuery(GET_SUBJECT, {
@@ -62,141 +143,308 @@ export function FriendsChat({ subjectId }: FriendsChatProps) {
     };
   }, [subjectId, subscribeToMessages]);
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  const threadRoot = threadRootId ? messages.find((m) => m.id === threadRootId) : undefined;
+  const threadReplies = useMemo(
+    () => (threadRootId ? messages.filter((m) => m.reply_to_id === threadRootId) : []),
+    [messages, threadRootId]
+  );
 
   const handleSend = async () => {
     if (!inputValue.trim()) return;
-    await sendMessage(inputValue);
+    stopTyping();
+    if (await commands.execute(inputValue)) return;
+    await sendMessage(inputValue, { replyToId: replyingTo?.id });
     setInputValue('');
+    setReplyingTo(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInputValue(e.target.value);
+    if (e.target.value.trim()) notifyTyping();
+    else stopTyping();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentions.handleKeyDown(e) || commands.handleKeyDown(e)) return;
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    uploadFiles(e.clipboardData.files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    setDraggingFiles(false);
+    uploadFiles(e.dataTransfer.files);
+  };
+
   return (
-    <div className="flex h-full flex-col bg-[#0e0f12] text-white">
-      {/* Header */}
-      {/* <div className="flex items-center justify-between border-b border-white/5 bg-[#131316] p-4">
-        <div className="flex items-center gap-3">
-          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-orange-500 shadow-lg shadow-orange-900/20">
-            <svg className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
-            </svg>
-          </div>
-          <div>
-            <h2 className="font-bold text-white">General Discussion</h2>
-            <p className="text-xs text-gray-400">Real-time messaging with your group</p>
+    <div className="relative flex h-full bg-[#0e0f12] text-white">
+      <div
+        className="relative flex min-w-0 flex-1 flex-col"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {draggingFiles && (
+          <div className="border-accent/60 pointer-events-none absolute inset-2 z-30 flex items-center justify-center rounded-2xl border-2 border-dashed bg-[#0e0f12]/90">
+            <p className="text-sm font-medium text-white">Drop files to share them with the group</p>
           </div>
-        </div>
+        )}
 
-        <button className="flex items-center gap-2 rounded-lg border border-white/10 bg-[#1a1a1e] px-3 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:text-white hover:bg-white/5">
-          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-          </svg>
-          Open Panel
-          <span className="h-1.5 w-1.5 rounded-full bg-green-500"></span>
-        </button>
-      </div> */}
-
-      {/* Messages Area */}
-      <div className="scrollbar-hide relative flex-1 overflow-y-auto px-4 pt-4">
-        {messages.length === 0 ? (
-          <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center">
-            <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-2xl bg-white/5">
-              <svg className="h-8 w-8 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
-                <path
-                  fillRule="evenodd"
-                  d="M18 5v8a2 2 0 01-2 2h-5l-5 4v-4H4a2 2 0 01-2-2V5a2 2 0 012-2h12a2 2 0 012 2zM7 8H5v2h2V8zm2 0h2v2H9V8zm6 0h-2v2h2V8z"
-                  clipRule="evenodd"
-                />
+        {/* Header */}
+        {/* <div className="flex items-center justify-between border-b border-white/5 bg-[#131316] p-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-orange-500 shadow-lg shadow-orange-900/20">
+              <svg className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
               </svg>
             </div>
-            <h3 className="mb-1 text-lg font-semibold text-white">No messages yet</h3>
-            <p className="max-w-xs text-sm text-gray-400">
-              Be the first to say hello! Start the conversation by typing below. 👋
-            </p>
-          </div>
-        ) : (
-          <div className="space-y-4">
-            <MessageList messages={messages} loading={loading} memberAvatars={memberAvatars} />
-            <div ref={messagesEndRef} />
+            <div>
+              <h2 className="font-bold text-white">General Discussion</h2>
+              <p className="text-xs text-gray-400">Real-time messaging with your group</p>
+            </div>
           </div>
-        )}
-      </div>
 
-      {/* Input Area */}
-      <div className="shrink-0 p-2 px-6">
-        <div className="focus-within:border-accent/50 relative flex items-center gap-2 rounded-xl border border-white/10 bg-[#050505] p-2 pl-4 transition-colors">
-          <button className="flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-white/10 hover:text-white">
-            <svg
-              className="h-5 w-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-              strokeWidth={2}
-            >
-              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+          <button className="flex items-center gap-2 rounded-lg border border-white/10 bg-[#1a1a1e] px-3 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:text-white hover:bg-white/5">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
             </svg>
+            Open Panel
+            <span className="h-1.5 w-1.5 rounded-full bg-green-500"></span>
           </button>
+        </div> */}
 
-          <input
-            type="text"
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
-            className="flex-1 py-2 text-sm text-white placeholder-gray-500 outline-none"
-          />
-
-          <div className="flex items-center gap-1 pr-1">
-            <button className="p-2 text-gray-400 transition-colors hover:text-white">
-              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                />
-              </svg>
-            </button>
-            <button className="p-2 text-gray-400 transition-colors hover:text-white">
-              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"
-                />
-              </svg>
-            </button>
+        {/* Messages Area */}
+        <div className="relative flex min-h-0 flex-1 flex-col">
+          {messages.length === 0 ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center">
+              <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-2xl bg-white/5">
+                <svg className="h-8 w-8 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+                  <path
+                    fillRule="evenodd"
+                    d="M18 5v8a2 2 0 01-2 2h-5l-5 4v-4H4a2 2 0 01-2-2V5a2 2 0 012-2h12a2 2 0 012 2zM7 8H5v2h2V8zm2 0h2v2H9V8zm6 0h-2v2h2V8z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+              </div>
+              <h3 className="mb-1 text-lg font-semibold text-white">No messages yet</h3>
+              <p className="max-w-xs text-sm text-gray-400">
+                Be the first to say hello! Start the conversation by typing below. 👋
+              </p>
+            </div>
+          ) : (
+            <MessageList
+              messages={messages}
+              loading={loading}
+              loadingOlder={loadingOlder}
+              hasMore={hasMore}
+              onLoadOlder={loadOlder}
+              focusMessageId={focusMessageId}
+              memberAvatars={memberAvatars}
+              pollVotes={votesByMessage}
+              onVote={vote}
+              reactions={reactionsByMessage}
+              onReact={toggleReaction}
+              onReply={setReplyingTo}
+              onOpenThread={(message) => setThreadRootId(message.id)}
+              canModerate={canModerate}
+              onEdit={editMessage}
+              onDelete={deleteMessage}
+              onRetrySend={retrySend}
+              onDiscardSend={discardSend}
+            />
+          )}
+        </div>
+
+        {/* Input Area */}
+        <div className="shrink-0 p-2 px-6">
+          {typingUsers.length > 0 && (
+            <div className="mb-2 px-1">
+              <TypingIndicator usernames={typingUsers} />
+            </div>
+          )}
+          {uploads.map((upload) => (
+            <div
+              key={upload.id}
+              className="mb-2 flex items-center gap-3 rounded-lg bg-white/5 px-3 py-1.5 text-xs"
+            >
+              <span className="min-w-0 flex-1 truncate text-gray-300">📎 {upload.fileName}</span>
+              {upload.error ? (
+                <>
+                  <span className="max-w-[60%] truncate text-red-400" title={upload.error}>
+                    {upload.error}
+                  </span>
+                  <button
+                    onClick={() => dismissUpload(upload.id)}
+                    className="text-gray-500 hover:text-white"
+                    aria-label="Dismiss"
+                  >
+                    ✕
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div className="h-1.5 w-24 overflow-hidden rounded-full bg-white/10">
+                    <div
+                      className="bg-accent h-full transition-all"
+                      style={{ width: `${upload.percentage}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-right text-gray-400">{upload.percentage}%</span>
+                </>
+              )}
+            </div>
+          ))}
+          {replyingTo && (
+            <div className="mb-2 flex items-center gap-2 rounded-lg border-l-2 border-accent bg-white/5 px-3 py-1.5 text-xs text-gray-400">
+              <span className="min-w-0 flex-1 truncate">
+                Replying to <span className="font-medium text-gray-200">{replyingTo.username}</span>:{' '}
+                {getMessagePreview(replyingTo)}
+              </span>
+              <button
+                onClick={() => setReplyingTo(null)}
+                className="text-gray-500 hover:text-white"
+                aria-label="Cancel reply"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+          <div className="focus-within:border-accent/50 relative flex items-center gap-2 rounded-xl border border-white/10 bg-[#050505] p-2 pl-4 transition-colors">
+            <SlashCommandMenu
+              suggestions={commands.suggestions}
+              activeIndex={commands.activeIndex}
+              activeCommand={commands.activeCommand}
+              menuOpen={commands.menuOpen}
+              error={commands.error}
+              onSelect={commands.complete}
+            />
+            <MentionMenu
+              suggestions={mentions.suggestions}
+              activeIndex={mentions.activeIndex}
+              menuOpen={mentions.menuOpen}
+              onSelect={mentions.complete}
+            />
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={getAcceptAttribute()}
+              onChange={(e) => {
+                if (e.target.files) uploadFiles(e.target.files);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
             <button
-              onClick={handleSend}
-              disabled={!inputValue.trim()}
-              className="bg-accent ml-1 flex h-9 w-9 items-center justify-center rounded-lg text-white shadow-lg shadow-orange-500/20 transition-all hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-white/10 hover:text-white"
+              aria-label="Attach files"
             >
               <svg
-                className="mt-0.5 -ml-0.5 h-4 w-4 rotate-45 transform"
+                className="h-5 w-5"
                 fill="none"
                 viewBox="0 0 24 24"
                 stroke="currentColor"
-                strokeWidth={2.5}
+                strokeWidth={2}
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-                />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
               </svg>
             </button>
+
+            <input
+              type="text"
+              value={inputValue}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder="Type a message, or / for commands..."
+              disabled={commands.running}
+              className="flex-1 py-2 text-sm text-white placeholder-gray-500 outline-none"
+            />
+
+            <div className="flex items-center gap-1 pr-1">
+              <button className="p-2 text-gray-400 transition-colors hover:text-white">
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </button>
+              <button className="p-2 text-gray-400 transition-colors hover:text-white">
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"
+                  />
+                </svg>
+              </button>
+              <button
+                onClick={handleSend}
+                disabled={!inputValue.trim() || commands.running}
+                className="bg-accent ml-1 flex h-9 w-9 items-center justify-center rounded-lg text-white shadow-lg shadow-orange-500/20 transition-all hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <svg
+                  className="mt-0.5 -ml-0.5 h-4 w-4 rotate-45 transform"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  strokeWidth={2.5}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                  />
+                </svg>
+              </button>
+            </div>
           </div>
         </div>
       </div>
+
+      {threadRoot && (
+        <ThreadPanel
+          root={threadRoot}
+          replies={threadReplies}
+          memberAvatars={memberAvatars}
+          pollVotes={votesByMessage}
+          onVote={vote}
+          reactions={reactionsByMessage}
+          onReact={toggleReaction}
+          onSend={sendMessage}
+          onClose={() => setThreadRootId(null)}
+          canModerate={canModerate}
+          onEdit={editMessage}
+          onDelete={deleteMessage}
+          onRetrySend={retrySend}
+          onDiscardSend={discardSend}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,51 @@
+/**
+ * Mention Menu Component
+ *
+ * Autocomplete popup shown above a chat input while an @mention is typed
+ */
+
+'use client';
+
+import { UserAvatar } from '@/components/ui/UserAvatar';
+import type { MentionCandidate } from '@/lib/mentions';
+
+interface MentionMenuProps {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  menuOpen: boolean;
+  onSelect: (candidate: MentionCandidate) => void;
+}
+
+export function MentionMenu({ suggestions, activeIndex, menuOpen, onSelect }: MentionMenuProps) {
+  if (!menuOpen) return null;
+
+  return (
+    <div className="absolute right-0 bottom-full left-0 z-20 mb-2 overflow-hidden rounded-xl border border-white/10 bg-[#131316] shadow-2xl">
+      <ul className="py-1">
+        {suggestions.map((candidate, index) => (
+          <li key={candidate.id}>
+            <button
+              onMouseDown={(e) => {
+                // Keep focus in the input
+                e.preventDefault();
+                onSelect(candidate);
+              }}
+              className={`flex w-full items-center gap-3 px-4 py-2 text-left transition-colors ${
+                index === activeIndex ? 'bg-white/10' : 'hover:bg-white/5'
+              }`}
+            >
+              <UserAvatar
+                username={candidate.username}
+                avatarUrl={candidate.avatarUrl || undefined}
+                size="xs"
+              />
+              <span className="text-sm text-white">@{candidate.username}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default MentionMenu;
@@ -0,0 +1,43 @@
+/**
+ * Mention Text Component
+ *
+ * Message text with @mentions highlighted; mentions of the current user
+ * stand out more
+ */
+
+'use client';
+
+import { useAuth } from '@/hooks/useAuth';
+import { splitMentions } from '@/lib/mentions';
+
+interface MentionTextProps {
+  text: string;
+}
+
+export function MentionText({ text }: MentionTextProps) {
+  const { user } = useAuth();
+  const ownUsername = user?.username?.toLowerCase();
+
+  return (
+    <>
+      {splitMentions(text).map((part, i) =>
+        part.mention ? (
+          <span
+            key={i}
+            className={`rounded px-0.5 font-medium ${
+              part.username.toLowerCase() === ownUsername
+                ? 'bg-amber-400/20 text-amber-300'
+                : 'bg-white/10 text-white'
+            }`}
+          >
+            {part.text}
+          </span>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
+
+export default MentionText;
@@ -7,34 +7,130 @@
 
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import gsap from 'gsap';
 import { UserAvatar } from '@/components/ui/UserAvatar';
 import { useAuth } from '@/hooks/useAuth';
+import { PollMessage } from './PollMessage';
+import { MentionText } from './MentionText';
+import { FileMessage } from './FileMessage';
+import { MessageReactions } from './MessageReactions';
+import { ReactionPicker } from './ReactionPicker';
+import type { ReactionSummary } from '@/hooks/useReactions';
+import type { OutboxStatus } from '@/lib/outbox';
+import type { FriendMessageMetadata, MessageType, PollVote } from '@/types/database';
 
-interface Message {
+export interface ChatMessage {
   id: string;
   user_id: string;
   username: string;
   avatar_url?: string;
   content: string;
-  message_type: 'text' | 'file' | 'image';
+  message_type: MessageType;
+  metadata?: FriendMessageMetadata | null;
+  reply_to_id?: string | null;
+  file_url?: string | null;
+  file_name?: string | null;
+  file_size?: number | null;
+  is_edited?: boolean;
   created_at: string;
+  /** Deleted while loaded; rendered as a tombstone */
+  deleted?: boolean;
+  /** Not delivered yet (see lib/outbox.ts) */
+  send_status?: OutboxStatus;
 }
 
 interface MessageBubbleProps {
-  message: Message;
+  message: ChatMessage;
   delay?: number;
   avatarUrl?: string; // Add avatarUrl prop
+  pollVotes?: PollVote[];
+  onVote?: (messageId: string, optionIndex: number) => void;
+  reactions?: ReactionSummary[];
+  onReact?: (messageId: string, emoji: string) => void;
+  /** Message this one replies to; null if it is no longer loaded */
+  replyTo?: ChatMessage | null;
+  replyCount?: number;
+  highlighted?: boolean;
+  onReply?: (message: ChatMessage) => void;
+  onOpenThread?: (message: ChatMessage) => void;
+  onJumpTo?: (messageId: string) => void;
+  /** Owners and admins may delete anyone's messages */
+  canModerate?: boolean;
+  onEdit?: (messageId: string, content: string) => Promise<void>;
+  onDelete?: (messageId: string) => Promise<void>;
+  onRetrySend?: (messageId: string) => void;
+  onDiscardSend?: (messageId: string) => void;
 }
 
-export function MessageBubble({ message, delay = 0, avatarUrl }: MessageBubbleProps) {
+// Headings for messages posted by slash commands
+const systemLabels: Record<string, string> = {
+  ask: '🤖 Asked the AI tutor',
+  summarize: '📝 Discussion summary',
+  call: '📞 Call',
+};
+
+/**
+ * One-line preview of a message for reply quotes
+ */
+export function getMessagePreview(message: ChatMessage): string {
+  if (message.deleted) return 'Message deleted';
+  if (message.message_type === 'poll') return `📊 ${message.content}`;
+  if (message.message_type === 'image') return `🖼 ${message.file_name || 'Image'}`;
+  if (message.message_type === 'file') return `📎 ${message.file_name || 'File'}`;
+  const text = message.content.replace(/```\w*\n?/g, '').replace(/\s+/g, ' ').trim();
+  return text.length > 100 ? `${text.slice(0, 100)}…` : text;
+}
+
+/**
+ * Split text into plain parts and ``` fenced code blocks
+ */
+function splitCodeBlocks(content: string) {
+  return content
+    .split(/(```[\s\S]*?```)/g)
+    .filter((part) => part.trim())
+    .map((part) => {
+      const match = part.match(/^```(\w+)?\n?([\s\S]*?)```$/);
+      return match
+        ? { code: true, lang: match[1] || 'code', text: match[2].trim() }
+        : { code: false, lang: '', text: part };
+    });
+}
+
+export function MessageBubble({
+  message,
+  delay = 0,
+  avatarUrl,
+  pollVotes = [],
+  onVote,
+  reactions = [],
+  onReact,
+  replyTo,
+  replyCount = 0,
+  highlighted = false,
+  onReply,
+  onOpenThread,
+  onJumpTo,
+  canModerate = false,
+  onEdit,
+  onDelete,
+  onRetrySend,
+  onDiscardSend,
+}: MessageBubbleProps) {
   const { user } = useAuth();
   const bubbleRef = useRef<HTMLDivElement>(null);
+  const [editing, setEditing] = useState(false);
+  const [editValue, setEditValue] = useState('');
+  const [saving, setSaving] = useState(false);
   const isOwnMessage = user?._id === message.user_id || String(user?._id) === String(message.user_id);
+  const canEdit = !!onEdit && isOwnMessage && message.message_type === 'text';
+  const canDelete = !!onDelete && (isOwnMessage || canModerate);
+  // Queued messages have no row yet to reply to, react to or change
+  const unsent = !!message.send_status;
 
   /**
-   * GSAP slide-in animation
+   * GSAP slide-in animation, once on mount so prepending older pages
+   * doesn't replay it for messages already shown
    */
   useEffect(() => {
     if (bubbleRef.current) {
@@ -44,7 +140,8 @@ export function MessageBubble({ message, delay = 0, avatarUrl }: MessageBubblePr
         { y: 0, opacity: 1, duration: 0.3, delay, ease: 'power2.out' }
       );
     }
-  }, [delay]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   /**
    * Format timestamp
@@ -61,11 +158,82 @@ export function MessageBubble({ message, delay = 0, avatarUrl }: MessageBubblePr
     return date.toLocaleDateString();
   };
 
+  const startEditing = () => {
+    setEditValue(message.content);
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    const content = editValue.trim();
+    if (!content || content === message.content) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onEdit?.(message.id, content);
+      setEditing(false);
+    } catch {
+      // Keep the editor open so the change isn't lost
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      setEditing(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm('Delete this message?')) {
+      onDelete?.(message.id).catch(() => {});
+    }
+  };
+
+  if (message.deleted) {
+    return (
+      <div
+        ref={bubbleRef}
+        id={`message-${message.id}`}
+        className={`flex py-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+      >
+        <p className="rounded-xl border border-dashed border-white/10 px-3 py-1.5 text-xs text-gray-500 italic">
+          🗑 {isOwnMessage ? 'You' : message.username} deleted this message
+        </p>
+      </div>
+    );
+  }
+
+  if (message.message_type === 'system') {
+    const label = systemLabels[message.metadata?.command || ''];
+
+    return (
+      <div ref={bubbleRef} className="flex justify-center py-2">
+        <div className="max-w-[85%] rounded-xl border border-white/10 bg-white/3 px-4 py-3 text-center">
+          <p className="text-xs text-gray-400">
+            {label && <span className="font-medium text-gray-300">{label} · </span>}
+            {isOwnMessage ? 'You' : message.username} · {formatTime(message.created_at)}
+          </p>
+          <p className="mt-1 text-left text-sm leading-relaxed whitespace-pre-wrap text-gray-200">
+            {message.content}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
       ref={bubbleRef}
+      id={`message-${message.id}`}
       className={`group -mx-2 flex gap-3 rounded-xl px-2 py-2 transition-colors hover:bg-white/2 ${isOwnMessage ? 'flex-row-reverse' : ''
-        }`}
+        } ${highlighted ? 'bg-accent/10' : ''}`}
     >
       {/* Avatar */}
       <div className="shrink-0 pt-0.5">
@@ -88,19 +256,186 @@ export function MessageBubble({ message, delay = 0, avatarUrl }: MessageBubblePr
           <span className="text-[11px] text-gray-500 opacity-0 transition-opacity group-hover:opacity-100">
             {formatTime(message.created_at)}
           </span>
+          {message.is_edited && <span className="text-[11px] text-gray-500">(edited)</span>}
+          {/* Actions */}
+          <div
+            className={`flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100 ${
+              unsent ? 'hidden' : ''
+            }`}
+          >
+            {onReact && (
+              <ReactionPicker
+                onPick={(emoji) => onReact(message.id, emoji)}
+                alignRight={isOwnMessage}
+              />
+            )}
+            {onReply && (
+              <button
+                onClick={() => onReply(message)}
+                className="rounded px-1.5 text-[11px] text-gray-500 hover:bg-white/10 hover:text-white"
+              >
+                Reply
+              </button>
+            )}
+            {onOpenThread && (
+              <button
+                onClick={() => onOpenThread(message)}
+                className="rounded px-1.5 text-[11px] text-gray-500 hover:bg-white/10 hover:text-white"
+              >
+                Thread
+              </button>
+            )}
+            {canEdit && !editing && (
+              <button
+                onClick={startEditing}
+                className="rounded px-1.5 text-[11px] text-gray-500 hover:bg-white/10 hover:text-white"
+              >
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                className="rounded px-1.5 text-[11px] text-gray-500 hover:bg-white/10 hover:text-red-400"
+              >
+                Delete
+              </button>
+            )}
+          </div>
         </div>
 
+        {/* Quoted message this replies to */}
+        {message.reply_to_id && replyTo !== undefined && (
+          <button
+            onClick={() => replyTo && onJumpTo?.(replyTo.id)}
+            disabled={!replyTo}
+            className="mb-1 max-w-full truncate rounded-lg border-l-2 border-white/20 bg-white/5 px-3 py-1 text-left text-xs text-gray-400 transition-colors enabled:hover:bg-white/10"
+          >
+            {replyTo ? (
+              <>
+                <span className="font-medium text-gray-300">{replyTo.username}</span>{' '}
+                {getMessagePreview(replyTo)}
+              </>
+            ) : (
+              'Original message is not loaded'
+            )}
+          </button>
+        )}
+
         {/* Message Bubble */}
-        <div
-          className={`inline-block rounded-2xl px-4 py-2.5 ${isOwnMessage
-            ? 'from-accent to-accent-dark rounded-tr-md bg-linear-to-br text-white'
-            : 'rounded-tl-md border border-white/10 bg-white/5 text-gray-200'
-            }`}
-        >
-          <p className="text-sm leading-relaxed wrap-break-word whitespace-pre-wrap">
-            {message.content}
-          </p>
-        </div>
+        {editing ? (
+          <div className="w-full min-w-64 rounded-2xl border border-white/10 bg-white/5 p-2">
+            <textarea
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              disabled={saving}
+              autoFocus
+              rows={Math.min(6, editValue.split('\n').length)}
+              className="w-full resize-none bg-transparent px-2 py-1 text-sm text-white outline-none"
+            />
+            <div className="mt-1 flex justify-end gap-2 text-xs">
+              <button
+                onClick={() => setEditing(false)}
+                disabled={saving}
+                className="rounded-lg px-2 py-1 text-gray-400 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveEdit}
+                disabled={saving || !editValue.trim()}
+                className="bg-accent rounded-lg px-3 py-1 font-medium text-white disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        ) : message.message_type === 'poll' ? (
+          <PollMessage
+            question={message.content}
+            options={message.metadata?.options || []}
+            votes={pollVotes}
+            currentUserId={user?._id}
+            onVote={(optionIndex) => onVote?.(message.id, optionIndex)}
+          />
+        ) : (message.message_type === 'image' || message.message_type === 'file') &&
+          message.file_url ? (
+          <FileMessage
+            url={message.file_url}
+            fileName={message.file_name || message.content}
+            fileSize={message.file_size}
+            isImage={message.message_type === 'image'}
+          />
+        ) : (
+          <div
+            className={`inline-block rounded-2xl px-4 py-2.5 ${isOwnMessage
+              ? 'from-accent to-accent-dark rounded-tr-md bg-linear-to-br text-white'
+              : 'rounded-tl-md border border-white/10 bg-white/5 text-gray-200'
+              }`}
+          >
+            {splitCodeBlocks(message.content).map((part, i) =>
+              part.code ? (
+                <div
+                  key={i}
+                  className="my-1 overflow-hidden rounded-lg border border-white/10 bg-[#0d0d0f] font-mono text-xs"
+                >
+                  <div className="border-b border-white/5 bg-[#1a1a1e] px-3 py-1.5 text-gray-400">
+                    {part.lang}
+                  </div>
+                  <pre className="overflow-x-auto p-3 whitespace-pre text-blue-300">{part.text}</pre>
+                </div>
+              ) : (
+                <p key={i} className="text-sm leading-relaxed wrap-break-word whitespace-pre-wrap">
+                  <MentionText text={part.text} />
+                </p>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Delivery status of a queued message */}
+        {message.send_status === 'pending' && (
+          <span className="mt-1 text-[11px] text-gray-500">Sending...</span>
+        )}
+        {message.send_status === 'failed' && (
+          <div className="mt-1 flex items-center gap-2 text-[11px]">
+            <span className="text-red-400">Not sent</span>
+            {onRetrySend && (
+              <button
+                onClick={() => onRetrySend(message.id)}
+                className="text-gray-400 hover:text-white hover:underline"
+              >
+                Retry
+              </button>
+            )}
+            {onDiscardSend && (
+              <button
+                onClick={() => onDiscardSend(message.id)}
+                className="text-gray-500 hover:text-red-400 hover:underline"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        )}
+
+        {onReact && !unsent && (
+          <MessageReactions
+            reactions={reactions}
+            onToggle={(emoji) => onReact(message.id, emoji)}
+          />
+        )}
+
+        {/* Thread reply count */}
+        {replyCount > 0 && onOpenThread && (
+          <button
+            onClick={() => onOpenThread(message)}
+            className="text-accent mt-1 text-xs hover:underline"
+          >
+            💬 {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+          </button>
+        )}
       </div>
     </div>
   );
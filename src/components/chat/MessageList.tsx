@@ -1,40 +1,77 @@
 /**
  * Message List Component
  *
- * Scrollable list of chat messages with auto-scroll
+ * Scrollable list of chat messages with auto-scroll and older history
+ * loaded on scroll-up
  * Premium design with smooth animations
  */
 
 'use client';
 
-import { useRef, useEffect } from 'react';
-import { MessageBubble } from './MessageBubble';
-
-interface Message {
-  id: string;
-  user_id: string;
-  username: string;
-  avatar_url?: string;
-  content: string;
-  message_type: 'text' | 'file' | 'image';
-  created_at: string;
-}
+import { useMemo } from 'react';
+import { MessageBubble, type ChatMessage } from './MessageBubble';
+import { useChatScroll } from '@/hooks/useChatScroll';
+import type { ReactionSummary } from '@/hooks/useReactions';
+import type { PollVote } from '@/types/database';
 
 interface MessageListProps {
-  messages: Message[];
+  messages: ChatMessage[];
   loading: boolean;
+  loadingOlder?: boolean;
+  hasMore?: boolean;
+  onLoadOlder?: () => void;
+  /** Message to scroll to and highlight once loaded, e.g. from a mention notification */
+  focusMessageId?: string | null;
   memberAvatars?: Map<string, string>;
+  pollVotes?: Map<string, PollVote[]>;
+  onVote?: (messageId: string, optionIndex: number) => void;
+  reactions?: Map<string, ReactionSummary[]>;
+  onReact?: (messageId: string, emoji: string) => void;
+  onReply?: (message: ChatMessage) => void;
+  onOpenThread?: (message: ChatMessage) => void;
+  canModerate?: boolean;
+  onEdit?: (messageId: string, content: string) => Promise<void>;
+  onDelete?: (messageId: string) => Promise<void>;
+  onRetrySend?: (messageId: string) => void;
+  onDiscardSend?: (messageId: string) => void;
 }
 
-export function MessageList({ messages, loading, memberAvatars }: MessageListProps) {
-  const scrollRef = useRef<HTMLDivElement>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+export function MessageList({
+  messages,
+  loading,
+  loadingOlder = false,
+  hasMore = false,
+  onLoadOlder = () => {},
+  focusMessageId,
+  memberAvatars,
+  pollVotes,
+  onVote,
+  reactions,
+  onReact,
+  onReply,
+  onOpenThread,
+  canModerate,
+  onEdit,
+  onDelete,
+  onRetrySend,
+  onDiscardSend,
+}: MessageListProps) {
+  const { scrollRef, handleScroll, highlightedId, jumpToMessage } = useChatScroll({
+    messages,
+    hasMore,
+    loadingOlder,
+    loadOlder: onLoadOlder,
+    focusMessageId,
+  });
+
+  const byId = useMemo(() => new Map(messages.map((m) => [m.id, m])), [messages]);
 
-  /**
-   * Auto-scroll to bottom when new messages arrive
-   */
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const replyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const m of messages) {
+      if (m.reply_to_id) counts.set(m.reply_to_id, (counts.get(m.reply_to_id) || 0) + 1);
+    }
+    return counts;
   }, [messages]);
 
   if (loading) {
@@ -52,7 +89,11 @@ export function MessageList({ messages, loading, memberAvatars }: MessageListPro
   }
 
   return (
-    <div ref={scrollRef} className="flex-1 space-y-1 overflow-y-auto px-4 py-4">
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="scrollbar-hide flex-1 space-y-1 overflow-y-auto px-4 py-4"
+    >
       {messages.length === 0 ? (
         /* Empty State */
         <div className="flex h-full items-center justify-center">
@@ -81,17 +122,36 @@ export function MessageList({ messages, loading, memberAvatars }: MessageListPro
       ) : (
         /* Messages */
         <>
+          {loadingOlder && (
+            <p className="py-2 text-center text-xs text-gray-500">Loading older messages...</p>
+          )}
+          {!hasMore && (
+            <p className="py-2 text-center text-xs text-gray-600">Start of the conversation</p>
+          )}
+
           {messages.map((message, index) => (
             <MessageBubble
               key={message.id}
               message={message}
               delay={index * 0.03}
               avatarUrl={memberAvatars?.get(message.user_id)}
+              pollVotes={pollVotes?.get(message.id)}
+              onVote={onVote}
+              reactions={reactions?.get(message.id)}
+              onReact={onReact}
+              replyTo={message.reply_to_id ? byId.get(message.reply_to_id) || null : undefined}
+              replyCount={replyCounts.get(message.id)}
+              highlighted={highlightedId === message.id}
+              onReply={onReply}
+              onOpenThread={onOpenThread}
+              onJumpTo={jumpToMessage}
+              canModerate={canModerate}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onRetrySend={onRetrySend}
+              onDiscardSend={onDiscardSend}
             />
           ))}
-
-          {/* Scroll anchor */}
-          <div ref={messagesEndRef} />
         </>
       )}
     </div>
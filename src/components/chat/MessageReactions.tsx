@@ -0,0 +1,41 @@
+/**
+ * Message Reactions Component
+ *
+ * Reaction counts under a message; hovering one shows who reacted and
+ * clicking it toggles the current user's reaction
+ */
+
+'use client';
+
+import type { ReactionSummary } from '@/hooks/useReactions';
+
+interface MessageReactionsProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+}
+
+export function MessageReactions({ reactions, onToggle }: MessageReactionsProps) {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          onClick={() => onToggle(reaction.emoji)}
+          title={reaction.usernames.join(', ')}
+          className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+            reaction.reacted
+              ? 'border-accent/50 bg-accent/15 text-white'
+              : 'border-white/10 bg-white/5 text-gray-300 hover:border-white/20'
+          }`}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default MessageReactions;
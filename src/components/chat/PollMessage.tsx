@@ -0,0 +1,62 @@
+/**
+ * Poll Message Component
+ *
+ * A /poll posted in the group chat: the options with live vote counts
+ */
+
+'use client';
+
+import type { PollVote } from '@/types/database';
+
+interface PollMessageProps {
+  question: string;
+  options: string[];
+  votes: PollVote[];
+  currentUserId?: string;
+  onVote: (optionIndex: number) => void;
+}
+
+export function PollMessage({ question, options, votes, currentUserId, onVote }: PollMessageProps) {
+  const myVote = votes.find((v) => v.user_id === currentUserId)?.option_index;
+
+  return (
+    <div className="w-72 max-w-full rounded-2xl border border-white/10 bg-white/5 p-4">
+      <p className="mb-1 text-xs font-medium tracking-wide text-gray-400 uppercase">📊 Poll</p>
+      <p className="mb-3 text-sm font-medium text-white">{question}</p>
+
+      <div className="space-y-2">
+        {options.map((option, index) => {
+          const count = votes.filter((v) => v.option_index === index).length;
+          const percent = votes.length > 0 ? Math.round((count / votes.length) * 100) : 0;
+
+          return (
+            <button
+              key={index}
+              onClick={() => onVote(index)}
+              className={`relative w-full overflow-hidden rounded-lg border px-3 py-2 text-left text-sm transition-colors ${
+                myVote === index
+                  ? 'border-accent/60 text-white'
+                  : 'border-white/10 text-gray-300 hover:border-white/20'
+              }`}
+            >
+              <span
+                className={`absolute inset-y-0 left-0 ${myVote === index ? 'bg-accent/25' : 'bg-white/5'}`}
+                style={{ width: `${percent}%` }}
+              />
+              <span className="relative flex items-center justify-between gap-2">
+                <span className="truncate">{option}</span>
+                <span className="shrink-0 text-xs text-gray-400">{count}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        {votes.length} {votes.length === 1 ? 'vote' : 'votes'}
+      </p>
+    </div>
+  );
+}
+
+export default PollMessage;
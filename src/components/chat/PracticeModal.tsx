@@ -0,0 +1,149 @@
+/**
+ * Practice Modal Component
+ *
+ * Lets a member ask the AI tutor for a quiz or flashcard deck built from the
+ * session's chat and selected Canvas artifacts
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { useArtifactsQuery } from '@/hooks/queries';
+import {
+  MAX_PRACTICE_ITEMS,
+  MIN_PRACTICE_ITEMS,
+  PRACTICE_KINDS,
+  type PracticeKind,
+} from '@/lib/quiz';
+
+/** Artifact types the tutor can read text from */
+const SOURCE_TYPES = ['code', 'markdown', 'html', 'diagram', 'pdf'];
+
+interface PracticeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subjectId: string;
+  generating: boolean;
+  error: string | null;
+  onGenerate: (options: {
+    kind: PracticeKind;
+    count: number;
+    artifactIds: string[];
+  }) => Promise<string | null>;
+}
+
+export function PracticeModal({
+  isOpen,
+  onClose,
+  subjectId,
+  generating,
+  error,
+  onGenerate,
+}: PracticeModalProps) {
+  const { data: artifacts = [] } = useArtifactsQuery(subjectId);
+  const [kind, setKind] = useState<PracticeKind>('quiz');
+  const [count, setCount] = useState(5);
+  const [artifactIds, setArtifactIds] = useState<string[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+
+  const sources = artifacts.filter((a) => SOURCE_TYPES.includes(a.type));
+
+  const toggleArtifact = (id: string) => {
+    setArtifactIds((prev) => (prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]));
+  };
+
+  const handleGenerate = async () => {
+    setSubmitted(true);
+    const artifactId = await onGenerate({ kind, count, artifactIds });
+    if (artifactId) {
+      setArtifactIds([]);
+      setSubmitted(false);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Practice" maxWidth="max-w-lg">
+      <div className="space-y-6">
+        {/* Kind */}
+        <div className="grid grid-cols-2 gap-3">
+          {PRACTICE_KINDS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setKind(option.id)}
+              className={`rounded-xl border p-4 text-left transition-colors ${
+                kind === option.id
+                  ? 'border-orange-500/50 bg-orange-500/10'
+                  : 'border-white/10 hover:bg-white/5'
+              }`}
+            >
+              <p className="font-medium text-white">{option.label}</p>
+              <p className="mt-1 text-xs text-gray-400">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Count */}
+        <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+          {kind === 'quiz' ? 'Number of questions' : 'Number of cards'}
+          <input
+            type="number"
+            min={MIN_PRACTICE_ITEMS}
+            max={MAX_PRACTICE_ITEMS}
+            value={count}
+            onChange={(e) =>
+              setCount(
+                Math.min(
+                  MAX_PRACTICE_ITEMS,
+                  Math.max(MIN_PRACTICE_ITEMS, Number(e.target.value) || MIN_PRACTICE_ITEMS)
+                )
+              )
+            }
+            className="w-20 rounded-lg border border-white/10 bg-[#1a1a1e] px-3 py-2 text-white outline-none focus:border-orange-500/50"
+          />
+        </label>
+
+        {/* Source artifacts */}
+        <div>
+          <p className="mb-2 text-sm text-gray-300">Also use these Canvas artifacts</p>
+          {sources.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No documents or code in the Canvas yet. The chat will be used.
+            </p>
+          ) : (
+            <div className="custom-scrollbar max-h-48 space-y-1 overflow-y-auto">
+              {sources.map((artifact) => (
+                <label
+                  key={artifact._id}
+                  className="flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2 text-sm text-gray-300 hover:bg-white/5"
+                >
+                  <input
+                    type="checkbox"
+                    checked={artifactIds.includes(artifact._id)}
+                    onChange={() => toggleArtifact(artifact._id)}
+                    className="accent-orange-500"
+                  />
+                  <span className="truncate">{artifact.title}</span>
+                  <span className="ml-auto text-xs text-gray-500">{artifact.type}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {submitted && !generating && error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="w-full rounded-lg bg-orange-500 px-4 py-2.5 font-medium text-white transition-colors hover:bg-orange-600 disabled:opacity-50"
+        >
+          {generating ? 'Generating...' : `Generate ${kind === 'quiz' ? 'quiz' : 'flashcards'}`}
+        </button>
+      </div>
+    </Modal>
+  );
+}
+
+export default PracticeModal;
@@ -0,0 +1,54 @@
+/**
+ * Reaction Picker Component
+ *
+ * Small button that opens a row of quick emoji reactions
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { QUICK_REACTIONS } from '@/hooks/useReactions';
+
+interface ReactionPickerProps {
+  onPick: (emoji: string) => void;
+  /** Open the emoji row to the left of the button */
+  alignRight?: boolean;
+}
+
+export function ReactionPicker({ onPick, alignRight = false }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative" onMouseLeave={() => setOpen(false)}>
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="rounded px-1.5 text-[11px] text-gray-500 hover:bg-white/10 hover:text-white"
+        aria-label="Add reaction"
+      >
+        😊+
+      </button>
+      {open && (
+        <div
+          className={`absolute bottom-full z-20 mb-1 flex gap-0.5 rounded-full border border-white/10 bg-[#131316] px-1.5 py-1 shadow-2xl ${
+            alignRight ? 'right-0' : 'left-0'
+          }`}
+        >
+          {QUICK_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onPick(emoji);
+                setOpen(false);
+              }}
+              className="rounded-full px-1 text-base transition-transform hover:scale-125"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReactionPicker;
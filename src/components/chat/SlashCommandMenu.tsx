@@ -0,0 +1,74 @@
+/**
+ * Slash Command Menu Component
+ *
+ * Autocomplete popup shown above a chat input while a command is typed:
+ * matching commands, then the chosen command's usage, or the last error
+ */
+
+'use client';
+
+import { formatCommandUsage, type SlashCommand } from '@/lib/commands';
+
+interface SlashCommandMenuProps {
+  suggestions: SlashCommand[];
+  activeIndex: number;
+  activeCommand: SlashCommand | null;
+  menuOpen: boolean;
+  error: string | null;
+  onSelect: (command: SlashCommand) => void;
+}
+
+export function SlashCommandMenu({
+  suggestions,
+  activeIndex,
+  activeCommand,
+  menuOpen,
+  error,
+  onSelect,
+}: SlashCommandMenuProps) {
+  if (!menuOpen && !activeCommand && !error) return null;
+
+  return (
+    <div className="absolute right-0 bottom-full left-0 z-20 mb-2 overflow-hidden rounded-xl border border-white/10 bg-[#131316] shadow-2xl">
+      {menuOpen ? (
+        <ul className="py-1">
+          {suggestions.map((command, index) => (
+            <li key={command.name}>
+              <button
+                onMouseDown={(e) => {
+                  // Keep focus in the input
+                  e.preventDefault();
+                  onSelect(command);
+                }}
+                className={`flex w-full items-baseline gap-3 px-4 py-2 text-left transition-colors ${
+                  index === activeIndex ? 'bg-white/10' : 'hover:bg-white/5'
+                }`}
+              >
+                <span className="font-mono text-sm text-white">{formatCommandUsage(command)}</span>
+                <span className="truncate text-xs text-gray-400">{command.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : activeCommand && !error ? (
+        <div className="px-4 py-2">
+          <p className="font-mono text-sm text-white">{formatCommandUsage(activeCommand)}</p>
+          {activeCommand.args.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {activeCommand.args.map((arg) => (
+                <li key={arg.name} className="text-xs text-gray-400">
+                  <span className="text-gray-300">{arg.name}</span> – {arg.description}
+                  {!arg.required && ' (optional)'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        error && <p className="px-4 py-2 text-sm text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
+
+export default SlashCommandMenu;
@@ -0,0 +1,158 @@
+/**
+ * Thread Panel Component
+ *
+ * Side panel showing one group chat message and the replies to it,
+ * with its own input for replying in the thread
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { MessageBubble, type ChatMessage } from './MessageBubble';
+import type { SendMessageOptions } from '@/hooks/useSupabaseChat';
+import type { ReactionSummary } from '@/hooks/useReactions';
+import type { PollVote } from '@/types/database';
+
+interface ThreadPanelProps {
+  root: ChatMessage;
+  replies: ChatMessage[];
+  memberAvatars?: Map<string, string>;
+  pollVotes?: Map<string, PollVote[]>;
+  onVote?: (messageId: string, optionIndex: number) => void;
+  reactions?: Map<string, ReactionSummary[]>;
+  onReact?: (messageId: string, emoji: string) => void;
+  onSend: (content: string, options?: SendMessageOptions) => Promise<void>;
+  canModerate?: boolean;
+  onEdit?: (messageId: string, content: string) => Promise<void>;
+  onDelete?: (messageId: string) => Promise<void>;
+  onRetrySend?: (messageId: string) => void;
+  onDiscardSend?: (messageId: string) => void;
+  onClose: () => void;
+}
+
+export function ThreadPanel({
+  root,
+  replies,
+  memberAvatars,
+  pollVotes,
+  onVote,
+  reactions,
+  onReact,
+  onSend,
+  onClose,
+  canModerate,
+  onEdit,
+  onDelete,
+  onRetrySend,
+  onDiscardSend,
+}: ThreadPanelProps) {
+  const [inputValue, setInputValue] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    const content = inputValue.trim();
+    if (!content || sending) return;
+
+    setSending(true);
+    try {
+      await onSend(content, { replyToId: root.id });
+      setInputValue('');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <aside className="absolute inset-0 z-20 flex flex-col border-l border-white/5 bg-[#131316] md:static md:w-80 md:shrink-0">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-white/5 px-4 py-3">
+        <h3 className="font-semibold text-white">Thread</h3>
+        <button
+          onClick={onClose}
+          className="rounded-lg p-1.5 text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+          aria-label="Close thread"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Root message and replies */}
+      <div className="flex-1 space-y-1 overflow-y-auto px-4 py-4">
+        <MessageBubble
+          message={root}
+          avatarUrl={memberAvatars?.get(root.user_id)}
+          pollVotes={pollVotes?.get(root.id)}
+          onVote={onVote}
+          reactions={reactions?.get(root.id)}
+          onReact={onReact}
+          canModerate={canModerate}
+          onEdit={onEdit}
+          onDelete={onDelete}
+        />
+
+        <div className="flex items-center gap-3 py-2 text-xs text-gray-500">
+          <span>
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+          <div className="h-px flex-1 bg-white/5" />
+        </div>
+
+        {replies.map((reply, index) => (
+          <MessageBubble
+            key={reply.id}
+            message={reply}
+            delay={index * 0.03}
+            avatarUrl={memberAvatars?.get(reply.user_id)}
+            pollVotes={pollVotes?.get(reply.id)}
+            onVote={onVote}
+            reactions={reactions?.get(reply.id)}
+            onReact={onReact}
+            canModerate={canModerate}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onRetrySend={onRetrySend}
+            onDiscardSend={onDiscardSend}
+          />
+        ))}
+      </div>
+
+      {/* Input */}
+      <div className="shrink-0 p-3">
+        <div className="focus-within:border-accent/50 flex items-center gap-2 rounded-xl border border-white/10 bg-[#050505] p-2 pl-3 transition-colors">
+          <input
+            type="text"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Reply in thread..."
+            disabled={sending}
+            className="flex-1 py-1.5 text-sm text-white placeholder-gray-500 outline-none"
+          />
+          <button
+            onClick={handleSend}
+            disabled={!inputValue.trim() || sending}
+            className="bg-accent rounded-lg px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Reply
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+}
+
+export default ThreadPanel;
@@ -1,21 +1,31 @@
 /**
  * Typing Indicator Component
  *
- * Animated dots showing someone is typing
+ * Animated dots showing who is typing, e.g. "Alice and Bob are typing…"
  */
 
 'use client';
 
 import { useEffect, useRef } from 'react';
 import gsap from 'gsap';
-import { UserAvatar } from '@/components/ui/UserAvatar';
 
 interface TypingIndicatorProps {
-  username: string;
-  avatarUrl?: string;
+  usernames: string[];
 }
 
-export function TypingIndicator({ username, avatarUrl }: TypingIndicatorProps) {
+/**
+ * "Alice is typing…", "Alice and Bob are typing…", "Alice, Bob and 2 others are typing…"
+ */
+export function formatTypingUsers(usernames: string[]): string {
+  if (usernames.length === 1) return `${usernames[0]} is typing…`;
+  if (usernames.length === 2) return `${usernames[0]} and ${usernames[1]} are typing…`;
+  if (usernames.length === 3) {
+    return `${usernames[0]}, ${usernames[1]} and ${usernames[2]} are typing…`;
+  }
+  return `${usernames[0]}, ${usernames[1]} and ${usernames.length - 2} others are typing…`;
+}
+
+export function TypingIndicator({ usernames }: TypingIndicatorProps) {
   const dot1Ref = useRef<HTMLDivElement>(null);
   const dot2Ref = useRef<HTMLDivElement>(null);
   const dot3Ref = useRef<HTMLDivElement>(null);
@@ -27,14 +37,14 @@ export function TypingIndicator({ username, avatarUrl }: TypingIndicatorProps) {
     const tl = gsap.timeline({ repeat: -1 });
 
     tl.to(dot1Ref.current, {
-      y: -8,
+      y: -4,
       duration: 0.4,
       ease: 'power2.out',
     })
       .to(
         dot2Ref.current,
         {
-          y: -8,
+          y: -4,
           duration: 0.4,
           ease: 'power2.out',
         },
@@ -43,7 +53,7 @@ export function TypingIndicator({ username, avatarUrl }: TypingIndicatorProps) {
       .to(
         dot3Ref.current,
         {
-          y: -8,
+          y: -4,
           duration: 0.4,
           ease: 'power2.out',
         },
@@ -79,24 +89,13 @@ export function TypingIndicator({ username, avatarUrl }: TypingIndicatorProps) {
   }, []);
 
   return (
-    <div className="flex gap-3">
-      {/* Avatar */}
-      <UserAvatar username={username} avatarUrl={avatarUrl} size="sm" />
-
-      {/* Typing Bubble */}
-      <div className="min-w-0 flex-1">
-        <div className="mb-1 flex items-baseline gap-2">
-          <span className="text-sm font-semibold text-white">{username}</span>
-        </div>
-
-        <div className="bg-bg-100 inline-block rounded-2xl px-4 py-3">
-          <div className="flex gap-1.5">
-            <div ref={dot1Ref} className="h-2 w-2 rounded-full bg-gray-500" />
-            <div ref={dot2Ref} className="h-2 w-2 rounded-full bg-gray-500" />
-            <div ref={dot3Ref} className="h-2 w-2 rounded-full bg-gray-500" />
-          </div>
-        </div>
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <div className="flex gap-1">
+        <div ref={dot1Ref} className="h-1.5 w-1.5 rounded-full bg-gray-500" />
+        <div ref={dot2Ref} className="h-1.5 w-1.5 rounded-full bg-gray-500" />
+        <div ref={dot3Ref} className="h-1.5 w-1.5 rounded-full bg-gray-500" />
       </div>
+      <span className="truncate">{formatTypingUsers(usernames)}</span>
     </div>
   );
 }
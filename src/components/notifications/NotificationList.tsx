@@ -220,9 +220,13 @@ export function NotificationList({ isOpen, onClose }: NotificationListProps) {
       markAsRead([notification._id]);
     }
 
-    // Navigate based on notification type
-    if (notification.data.subjectId) {
-      router.push(`/subject/${notification.data.subjectId}`);
+    // Navigate based on notification type; mentions open the chat at the message
+    const { subjectId, messageId, chatType } = notification.data;
+    if (subjectId && messageId && chatType) {
+      router.push(`/subject/${subjectId}?chat=${chatType.toLowerCase()}&message=${messageId}`);
+      onClose();
+    } else if (subjectId) {
+      router.push(`/subject/${subjectId}`);
       onClose();
     }
   };
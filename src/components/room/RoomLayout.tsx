@@ -20,19 +20,48 @@ import { SubjectSettings } from '../subject/SubjectSettings';
 import { useIsSmallScreen } from '@/hooks/useMediaQuery';
 import type { Subject, SubjectMember } from '@/types/database';
 
+/**
+ * Chat message to open the room at, e.g. from a mention notification
+ */
+export interface FocusMessage {
+  chat: 'friend' | 'ai';
+  messageId: string;
+}
+
 interface RoomLayoutProps {
   subject: Subject & { members?: SubjectMember[] };
+  focusMessage?: FocusMessage | null;
+  /** Canvas artifact to open, e.g. from room search */
+  focusArtifactId?: string | null;
 }
 
 export type ActiveSection = 'chat' | 'video' | 'ai' | 'canvas';
 
-export function RoomLayout({ subject }: RoomLayoutProps) {
+export function RoomLayout({ subject, focusMessage, focusArtifactId }: RoomLayoutProps) {
   const isSmallScreen = useIsSmallScreen();
-  const [activeSection, setActiveSection] = useState<ActiveSection>('ai');
+  const [activeSection, setActiveSection] = useState<ActiveSection>(
+    focusArtifactId ? 'canvas' : focusMessage?.chat === 'friend' ? 'chat' : 'ai'
+  );
+  const [focusedMessageId, setFocusedMessageId] = useState(focusMessage?.messageId);
+  const [focusedArtifactId, setFocusedArtifactId] = useState(focusArtifactId);
   const [callMode, setCallMode] = useState<'video' | 'audio' | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [manualSidebarState, setManualSidebarState] = useState<boolean | null>(null);
   const [isInVideoCall, setIsInVideoCall] = useState(false);
+  // Question forwarded from the group chat with /ask, sent by the AI chat
+  const [tutorQuestion, setTutorQuestion] = useState<string | null>(null);
+
+  // Opening another notification while in the room switches to its chat
+  if (focusMessage && focusMessage.messageId !== focusedMessageId) {
+    setFocusedMessageId(focusMessage.messageId);
+    setActiveSection(focusMessage.chat === 'friend' ? 'chat' : 'ai');
+  }
+
+  // Likewise for an artifact chosen from room search
+  if (focusArtifactId && focusArtifactId !== focusedArtifactId) {
+    setFocusedArtifactId(focusArtifactId);
+    setActiveSection('canvas');
+  }
 
   // Panel system - for resizable side-by-side view
   const [showRightPanel, setShowRightPanel] = useState(false);
@@ -115,11 +144,23 @@ export function RoomLayout({ subject }: RoomLayoutProps) {
   /**
    * Handle call actions
    */
-  const _handleStartCall = useCallback((mode: 'video' | 'audio') => {
+  const handleStartCall = useCallback((mode: 'video' | 'audio') => {
     setCallMode(mode);
     setActiveSection('video');
   }, []);
 
+  /**
+   * Forward a group chat question to the AI tutor (/ask)
+   */
+  const handleAskTutor = useCallback((question: string) => {
+    setTutorQuestion(question);
+    setActiveSection('ai');
+  }, []);
+
+  const clearTutorQuestion = useCallback(() => {
+    setTutorQuestion(null);
+  }, []);
+
   const handleEndCall = useCallback(() => {
     setCallMode(null);
   }, []);
@@ -142,13 +183,32 @@ export function RoomLayout({ subject }: RoomLayoutProps) {
     }
   };
 
+  // Both chats can run slash commands that start a call or ask the tutor
+  const aiChat = (
+    <AIChat
+      subjectId={subject.id}
+      onStartCall={handleStartCall}
+      tutorQuestion={tutorQuestion}
+      onTutorQuestionSent={clearTutorQuestion}
+      focusMessageId={focusMessage?.chat === 'ai' ? focusMessage.messageId : null}
+    />
+  );
+  const friendsChat = (
+    <FriendsChat
+      subjectId={subject.id}
+      onStartCall={handleStartCall}
+      onAskTutor={handleAskTutor}
+      focusMessageId={focusMessage?.chat === 'friend' ? focusMessage.messageId : null}
+    />
+  );
+
   /**
    * Render left panel content
    */
   const renderLeftPanel = () => {
     switch (activeSection) {
       case 'chat':
-        return <FriendsChat subjectId={subject.id} />;
+        return friendsChat;
       case 'video':
         return (
           <VideoCall
@@ -159,11 +219,11 @@ export function RoomLayout({ subject }: RoomLayoutProps) {
           />
         );
       case 'ai':
-        return <AIChat subjectId={subject.id} />;
+        return aiChat;
       case 'canvas':
-        return <Canvas subjectId={subject.id} />;
+        return <Canvas subjectId={subject.id} focusArtifactId={focusArtifactId} />;
       default:
-        return <AIChat subjectId={subject.id} />;
+        return aiChat;
     }
   };
 
@@ -173,14 +233,14 @@ export function RoomLayout({ subject }: RoomLayoutProps) {
   const renderRightPanel = () => {
     // Right panel shows Canvas when AI is active, or AI when Canvas is active
     if (activeSection === 'ai') {
-      return <Canvas subjectId={subject.id} />;
+      return <Canvas subjectId={subject.id} focusArtifactId={focusArtifactId} />;
     } else if (activeSection === 'canvas') {
-      return <AIChat subjectId={subject.id} />;
+      return aiChat;
     } else if (activeSection === 'chat') {
-      return <AIChat subjectId={subject.id} />;
+      return aiChat;
     } else {
       // For video, show team chat
-      return <FriendsChat subjectId={subject.id} />;
+      return friendsChat;
     }
   };
 
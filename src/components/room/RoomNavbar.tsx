@@ -8,6 +8,7 @@ import { NotificationBell } from '@/components/notifications';
 import { useToast } from '@/components/ui/Toast';
 import { UserAvatar } from '@/components/ui/UserAvatar';
 import { InviteModal } from '../subject/InviteModal';
+import { RoomSearch } from './RoomSearch';
 import type { ActiveSection } from './RoomLayout';
 import type { Subject } from '@/types/database';
 
@@ -112,6 +113,7 @@ export function RoomNavbar({
   const { user } = useAuth();
   const { success: _success } = useToast();
   const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
 
   // Check ownership - support both lowercase and uppercase role values
   const role = (subject as Subject & { myRole?: string }).myRole || subject.role || '';
@@ -122,6 +124,21 @@ export function RoomNavbar({
     router.push(`/subject/${subject.id}/settings`);
   };
 
+  /**
+   * Open room search with Ctrl/Cmd+K
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   /**
    * Mount animation
    */
@@ -201,6 +218,27 @@ export function RoomNavbar({
 
         {/* Right: Actions */}
         <div className="flex items-center gap-3">
+          {/* Search */}
+          <button
+            onClick={() => setShowSearch(true)}
+            className="flex h-10 w-10 items-center justify-center rounded-full border border-white/5 bg-[#19191c] text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+            title="Search this room (Ctrl+K)"
+          >
+            <svg
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={2}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M21 21l-4.35-4.35M17 11A6 6 0 115 11a6 6 0 0112 0z"
+              />
+            </svg>
+          </button>
+
           {/* Invite Button */}
           <button
             onClick={() => setShowInviteModal(true)}
@@ -270,6 +308,13 @@ export function RoomNavbar({
         inviteCode={subject.inviteCode || subject.invite_code || ''}
         subjectName={subject.name}
       />
+
+      {/* Room Search */}
+      <RoomSearch
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        subjectId={subject.id}
+      />
     </>
   );
 }
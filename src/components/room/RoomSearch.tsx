@@ -0,0 +1,213 @@
+/**
+ * Room Search Component
+ *
+ * Searches the room's group chat, AI chat and Canvas artifacts. Results are
+ * grouped by source with the matched words highlighted; choosing one opens
+ * the message in its chat, or the artifact in the Canvas.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Modal } from '@/components/ui/Modal';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useRoomSearchQuery, MIN_SEARCH_LENGTH, type ArtifactSearchResult } from '@/hooks/queries';
+import type { MessageSearchResult } from '@/types/database';
+
+interface RoomSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subjectId: string;
+}
+
+const ARTIFACT_ICONS: Record<string, string> = {
+  code: '<>',
+  image: '🖼️',
+  pdf: '📄',
+  diagram: '📊',
+  markdown: '📝',
+  html: '🌐',
+  quiz: '🧠',
+  video: '🎬',
+};
+
+/**
+ * Text with the <mark>ed search matches highlighted. Rendered as React
+ * elements rather than HTML, so message content is never interpreted.
+ */
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-accent/30 rounded px-0.5 text-white">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function formatDate(timestamp: string) {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function ResultGroup({
+  title,
+  count,
+  children,
+}: {
+  title: string;
+  count: number;
+  children: React.ReactNode;
+}) {
+  if (count === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="px-1 text-xs font-semibold tracking-wider text-gray-500 uppercase">
+        {title} <span className="text-gray-600">· {count}</span>
+      </h4>
+      {children}
+    </div>
+  );
+}
+
+export function RoomSearch({ isOpen, onClose, subjectId }: RoomSearchProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebounce(query, 300);
+  const { data, isFetching, error } = useRoomSearchQuery(subjectId, debouncedQuery);
+
+  const searching = debouncedQuery.trim().length >= MIN_SEARCH_LENGTH;
+  const total = data ? data.friend.length + data.ai.length + data.artifacts.length : 0;
+
+  const close = () => {
+    setQuery('');
+    onClose();
+  };
+
+  const openMessage = (result: MessageSearchResult) => {
+    router.push(`/subject/${subjectId}?chat=${result.chat_type}&message=${result.message_id}`);
+    close();
+  };
+
+  const openArtifact = (result: ArtifactSearchResult) => {
+    router.push(`/subject/${subjectId}?artifact=${result._id}`);
+    close();
+  };
+
+  const renderMessage = (result: MessageSearchResult) => (
+    <button
+      key={result.message_id}
+      onClick={() => openMessage(result)}
+      className="w-full rounded-xl px-3 py-2.5 text-left transition-colors hover:bg-white/5"
+    >
+      <div className="mb-1 flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span className="truncate font-medium text-gray-300">
+          {result.role === 'assistant' ? 'AI Tutor' : result.username || 'Unknown'}
+        </span>
+        <span className="shrink-0">{formatDate(result.created_at)}</span>
+      </div>
+      <p className="line-clamp-3 text-sm text-gray-400">
+        <Highlighted text={result.headline} />
+      </p>
+    </button>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={close} title="Search this room" maxWidth="max-w-xl">
+      <div className="space-y-5">
+        <div className="relative">
+          <svg
+            className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-gray-500"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2}
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M21 21l-4.35-4.35M17 11A6 6 0 115 11a6 6 0 0112 0z"
+            />
+          </svg>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Messages, tutor answers, files..."
+            className="focus:border-accent/50 w-full rounded-xl border border-white/10 bg-white/5 py-2.5 pr-4 pl-9 text-sm text-white placeholder-gray-500 outline-none"
+          />
+        </div>
+
+        {!searching && (
+          <p className="text-center text-sm text-gray-500">
+            Type at least {MIN_SEARCH_LENGTH} characters to search
+          </p>
+        )}
+
+        {searching && error && (
+          <p className="text-center text-sm text-red-400">Search failed. Please try again.</p>
+        )}
+
+        {searching && !error && isFetching && !data && (
+          <p className="text-center text-sm text-gray-500">Searching...</p>
+        )}
+
+        {searching && data && total === 0 && !isFetching && (
+          <p className="text-center text-sm text-gray-500">
+            No results for &ldquo;{debouncedQuery.trim()}&rdquo;
+          </p>
+        )}
+
+        {searching && data && (
+          <div className="space-y-5">
+            <ResultGroup title="Team Chat" count={data.friend.length}>
+              {data.friend.map(renderMessage)}
+            </ResultGroup>
+
+            <ResultGroup title="AI Assistant" count={data.ai.length}>
+              {data.ai.map(renderMessage)}
+            </ResultGroup>
+
+            <ResultGroup title="Canvas" count={data.artifacts.length}>
+              {data.artifacts.map((artifact) => (
+                <button
+                  key={artifact._id}
+                  onClick={() => openArtifact(artifact)}
+                  className="flex w-full items-start gap-3 rounded-xl px-3 py-2.5 text-left transition-colors hover:bg-white/5"
+                >
+                  <span className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-white/5 font-mono text-xs text-gray-300">
+                    {ARTIFACT_ICONS[artifact.type] || '📁'}
+                  </span>
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm font-medium text-white">
+                      <Highlighted text={artifact.titleHighlight} />
+                    </span>
+                    {artifact.snippet && (
+                      <span className="mt-0.5 line-clamp-2 block text-xs text-gray-400">
+                        <Highlighted text={artifact.snippet} />
+                      </span>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </ResultGroup>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export default RoomSearch;
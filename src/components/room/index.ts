@@ -9,6 +9,7 @@ export { RoomSidebar } from './RoomSidebar';
 export { RoomNavbar } from './RoomNavbar';
 export { RoomActionBar } from './RoomActionBar';
 export { ActivityStrip } from './ActivityStrip';
+export { RoomSearch } from './RoomSearch';
 export { default as PanelTabs } from './PanelTabs';
 export { ResizablePanel } from './ResizablePanel';
 
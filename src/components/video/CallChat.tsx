@@ -0,0 +1,109 @@
+/**
+ * Call Chat Component
+ *
+ * Side chat for the people in a video call. Messages travel over the call's
+ * data channel and are not saved: they are gone once the call ends, and
+ * people who join later only see what is sent after they arrive.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { MAX_CALL_CHAT_LENGTH, type CallChatMessage } from '@/lib/callData';
+
+interface CallChatProps {
+  messages: CallChatMessage[];
+  onSend: (text: string) => void;
+  onClose: () => void;
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+export function CallChat({ messages, onSend, onClose }: CallChatProps) {
+  const [text, setText] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Keep the newest message in view
+   */
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSend(text);
+    setText('');
+  };
+
+  return (
+    <div
+      className="flex h-full w-80 flex-col border-l border-white/10 bg-[#141417]"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+        <div>
+          <h3 className="text-sm font-semibold text-white">In-call chat</h3>
+          <p className="text-xs text-gray-500">Only people in the call see these</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg p-1.5 text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+          title="Close chat"
+        >
+          <svg
+            className="h-4 w-4"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2}
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Messages */}
+      <div ref={listRef} className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
+        {messages.length === 0 ? (
+          <p className="pt-8 text-center text-xs text-gray-500">No messages yet</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className={message.isLocal ? 'text-right' : ''}>
+              <div className="mb-0.5 text-xs text-gray-500">
+                <span className="font-medium text-gray-300">
+                  {message.isLocal ? 'You' : message.identity}
+                </span>{' '}
+                · {formatTime(message.sentAt)}
+              </div>
+              <p
+                className={`inline-block max-w-full rounded-xl px-3 py-1.5 text-left text-sm break-words whitespace-pre-wrap ${
+                  message.isLocal ? 'bg-emerald-500/20 text-emerald-50' : 'bg-white/5 text-gray-200'
+                }`}
+              >
+                {message.text}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Input */}
+      <form onSubmit={handleSubmit} className="border-t border-white/10 p-3">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={MAX_CALL_CHAT_LENGTH}
+          placeholder="Send a message..."
+          className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder-gray-500 outline-none focus:border-emerald-500/50"
+        />
+      </form>
+    </div>
+  );
+}
+
+export default CallChat;
@@ -2,13 +2,16 @@
  * Control Bar Component
  *
  * Video call controls - mic, camera, screen share, leave
+ * Owners and admins also get mute-all, room lock, recording and live captions
+ * Everyone can raise a hand, react and open the in-call chat
  * Professional design with clear visual states
  */
 
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import gsap from 'gsap';
+import { CALL_REACTIONS } from '@/lib/callData';
 
 interface ControlBarProps {
   isMuted: boolean;
@@ -19,6 +22,25 @@ interface ControlBarProps {
   onToggleScreenShare: () => void;
   onLeave: () => void;
   participantCount: number;
+  /** False when joined as a listener */
+  canPublish?: boolean;
+  /** Show the owner/admin moderation controls */
+  canModerate?: boolean;
+  isLocked?: boolean;
+  onMuteAll?: () => void;
+  onToggleLock?: () => void;
+  /** The call is being recorded; shown to everyone */
+  isRecording?: boolean;
+  onToggleRecording?: () => void;
+  /** Live captions are on; shown to everyone */
+  isCaptioning?: boolean;
+  onToggleCaptions?: () => void;
+  isHandRaised?: boolean;
+  onToggleHand?: () => void;
+  onReaction?: (emoji: string) => void;
+  isChatOpen?: boolean;
+  unreadChatCount?: number;
+  onToggleChat?: () => void;
 }
 
 export function ControlBar({
@@ -30,8 +52,24 @@ export function ControlBar({
   onToggleScreenShare,
   onLeave,
   participantCount,
+  canPublish = true,
+  canModerate = false,
+  isLocked = false,
+  onMuteAll,
+  onToggleLock,
+  isRecording = false,
+  onToggleRecording,
+  isCaptioning = false,
+  onToggleCaptions,
+  isHandRaised = false,
+  onToggleHand,
+  onReaction,
+  isChatOpen = false,
+  unreadChatCount = 0,
+  onToggleChat,
 }: ControlBarProps) {
   const barRef = useRef<HTMLDivElement>(null);
+  const [showReactions, setShowReactions] = useState(false);
 
   /**
    * GSAP slide-up animation
@@ -63,85 +101,247 @@ export function ControlBar({
             <span className="text-sm font-medium text-white">{participantCount}</span>
             <span className="text-sm text-gray-500">/9</span>
           </div>
+
+          {isRecording && (
+            <div
+              className="flex items-center gap-2 rounded-full bg-red-500/20 px-3 py-2 text-xs font-semibold text-red-400"
+              title="This call is being recorded"
+            >
+              <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+              REC
+            </div>
+          )}
+
+          {isCaptioning && !canModerate && (
+            <div
+              className="rounded-full bg-blue-500/20 px-3 py-2 text-xs font-semibold text-blue-300"
+              title="Live captions are on; what you say is transcribed for the call summary"
+            >
+              CC
+            </div>
+          )}
+
+          {/* Moderation: owners and admins only */}
+          {canModerate && (
+            <div className="flex items-center gap-2">
+              {onMuteAll && (
+                <ControlButton onClick={onMuteAll} title="Mute everyone" label="Mute all">
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3l18 18" />
+                  </svg>
+                </ControlButton>
+              )}
+              {onToggleLock && (
+                <ControlButton
+                  onClick={onToggleLock}
+                  isAccent={isLocked}
+                  title={isLocked ? 'Unlock the call' : 'Lock the call to new joiners'}
+                  label={isLocked ? 'Unlock' : 'Lock'}
+                >
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d={isLocked
+                        ? 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z'
+                        : 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z'}
+                    />
+                  </svg>
+                </ControlButton>
+              )}
+              {onToggleCaptions && (
+                <ControlButton
+                  onClick={onToggleCaptions}
+                  isAccent={isCaptioning}
+                  title={
+                    isCaptioning
+                      ? 'Turn off live captions'
+                      : 'Turn on live captions; the tutor summarizes the call afterwards'
+                  }
+                  label={isCaptioning ? 'Captions off' : 'Captions on'}
+                >
+                  <span className="text-xs font-bold">CC</span>
+                </ControlButton>
+              )}
+              {onToggleRecording && (
+                <ControlButton
+                  onClick={onToggleRecording}
+                  isDestructive={isRecording}
+                  title={isRecording ? 'Stop recording and save it to the Canvas' : 'Record the call'}
+                  label={isRecording ? 'Stop recording' : 'Record'}
+                >
+                  {isRecording ? (
+                    <span className="h-3.5 w-3.5 rounded-sm bg-white" />
+                  ) : (
+                    <span className="h-3.5 w-3.5 rounded-full bg-red-500" />
+                  )}
+                </ControlButton>
+              )}
+            </div>
+          )}
         </div>
 
-        {/* Center: Main controls */}
-        <div className="flex items-center gap-2 sm:gap-3">
-          {/* Microphone */}
-          <ControlButton
-            onClick={onToggleMute}
-            isActive={!isMuted}
-            isDestructive={isMuted}
-            title={isMuted ? 'Unmute (M)' : 'Mute (M)'}
-            label={isMuted ? 'Unmute' : 'Mute'}
-          >
-            {isMuted ? (
-              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
-              </svg>
-            ) : (
-              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
-              </svg>
-            )}
-          </ControlButton>
-
-          {/* Camera */}
-          <ControlButton
-            onClick={onToggleCamera}
-            isActive={!isCameraOff}
-            isDestructive={isCameraOff}
-            title={isCameraOff ? 'Turn on camera (V)' : 'Turn off camera (V)'}
-            label={isCameraOff ? 'Start Video' : 'Stop Video'}
-          >
-            {isCameraOff ? (
-              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3l18 18" />
-              </svg>
-            ) : (
+        {/* Center: Main controls, or a badge for listeners */}
+        {canPublish ? (
+          <div className="flex items-center gap-2 sm:gap-3">
+            {/* Microphone */}
+            <ControlButton
+              onClick={onToggleMute}
+              isActive={!isMuted}
+              isDestructive={isMuted}
+              title={isMuted ? 'Unmute (M)' : 'Mute (M)'}
+              label={isMuted ? 'Unmute' : 'Mute'}
+            >
+              {isMuted ? (
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
+                </svg>
+              ) : (
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                </svg>
+              )}
+            </ControlButton>
+
+            {/* Camera */}
+            <ControlButton
+              onClick={onToggleCamera}
+              isActive={!isCameraOff}
+              isDestructive={isCameraOff}
+              title={isCameraOff ? 'Turn on camera (V)' : 'Turn off camera (V)'}
+              label={isCameraOff ? 'Start Video' : 'Stop Video'}
+            >
+              {isCameraOff ? (
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3l18 18" />
+                </svg>
+              ) : (
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+              )}
+            </ControlButton>
+
+            {/* Screen Share */}
+            <ControlButton
+              onClick={onToggleScreenShare}
+              isActive={isScreenSharing}
+              isAccent={isScreenSharing}
+              title={isScreenSharing ? 'Stop sharing (S)' : 'Share screen (S)'}
+              label={isScreenSharing ? 'Stop Share' : 'Share'}
+              showLabel
+            >
               <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                />
               </svg>
-            )}
-          </ControlButton>
-
-          {/* Screen Share */}
-          <ControlButton
-            onClick={onToggleScreenShare}
-            isActive={isScreenSharing}
-            isAccent={isScreenSharing}
-            title={isScreenSharing ? 'Stop sharing (S)' : 'Share screen (S)'}
-            label={isScreenSharing ? 'Stop Share' : 'Share'}
-            showLabel
+            </ControlButton>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 rounded-full bg-white/10 px-4 py-2 text-sm text-gray-300 backdrop-blur-sm">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"
+              />
+            </svg>
+            Listening only
+          </div>
+        )}
+
+        {/* Right: Hand, reactions, chat and leave */}
+        <div className="flex items-center gap-2 sm:gap-3">
+          {onToggleHand && (
+            <ControlButton
+              onClick={onToggleHand}
+              isAccent={isHandRaised}
+              title={isHandRaised ? 'Lower hand (H)' : 'Raise hand (H)'}
+              label={isHandRaised ? 'Lower hand' : 'Raise hand'}
+            >
+              <span className="text-lg leading-none">✋</span>
+            </ControlButton>
+          )}
+
+          {onReaction && (
+            <div className="relative">
+              <ControlButton
+                onClick={() => setShowReactions((open) => !open)}
+                isActive={showReactions}
+                title="Send a reaction"
+                label="React"
+              >
+                <span className="text-lg leading-none">😊</span>
+              </ControlButton>
+
+              {showReactions && (
+                <div className="absolute bottom-full left-1/2 mb-3 flex -translate-x-1/2 gap-1 rounded-full border border-white/10 bg-[#1a1a1d] p-1.5 shadow-xl">
+                  {CALL_REACTIONS.map((emoji) => (
+                    <button
+                      key={emoji}
+                      onClick={() => {
+                        onReaction(emoji);
+                        setShowReactions(false);
+                      }}
+                      className="flex h-9 w-9 items-center justify-center rounded-full text-xl transition-transform hover:scale-125 hover:bg-white/10"
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {onToggleChat && (
+            <div className="relative">
+              <ControlButton
+                onClick={onToggleChat}
+                isActive={isChatOpen}
+                title={isChatOpen ? 'Close chat' : 'Open chat'}
+                label="Chat"
+              >
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
+                  />
+                </svg>
+              </ControlButton>
+              {unreadChatCount > 0 && !isChatOpen && (
+                <span className="pointer-events-none absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-emerald-500 px-1 text-xs font-semibold text-white">
+                  {unreadChatCount > 9 ? '9+' : unreadChatCount}
+                </span>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={onLeave}
+            className="flex transform items-center gap-2 rounded-full bg-red-500/90 px-5 py-2.5 font-semibold text-white shadow-lg shadow-red-500/30 backdrop-blur-sm transition-all duration-200 hover:scale-105 hover:bg-red-500 active:scale-95"
           >
             <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path
                 strokeLinecap="round"
                 strokeLinejoin="round"
                 strokeWidth={2}
-                d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                d="M16 8l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2M5 3a2 2 0 00-2 2v1c0 8.284 6.716 15 15 15h1a2 2 0 002-2v-3.28a1 1 0 00-.684-.948l-4.493-1.498a1 1 0 00-1.21.502l-1.13 2.257a11.042 11.042 0 01-5.516-5.517l2.257-1.128a1 1 0 00.502-1.21L9.228 3.683A1 1 0 008.279 3H5z"
               />
             </svg>
-          </ControlButton>
+            <span className="hidden sm:inline">Leave</span>
+          </button>
         </div>
-
-        {/* Right: Leave button */}
-        <button
-          onClick={onLeave}
-          className="flex transform items-center gap-2 rounded-full bg-red-500/90 px-5 py-2.5 font-semibold text-white shadow-lg shadow-red-500/30 backdrop-blur-sm transition-all duration-200 hover:scale-105 hover:bg-red-500 active:scale-95"
-        >
-          <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M16 8l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2M5 3a2 2 0 00-2 2v1c0 8.284 6.716 15 15 15h1a2 2 0 002-2v-3.28a1 1 0 00-.684-.948l-4.493-1.498a1 1 0 00-1.21.502l-1.13 2.257a11.042 11.042 0 01-5.516-5.517l2.257-1.128a1 1 0 00.502-1.21L9.228 3.683A1 1 0 008.279 3H5z"
-            />
-          </svg>
-          <span className="hidden sm:inline">Leave</span>
-        </button>
       </div>
     </div>
   );
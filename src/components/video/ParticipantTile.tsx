@@ -11,6 +11,7 @@
 import { useRef, useEffect, useState } from 'react';
 import gsap from 'gsap';
 import { Participant } from '@/hooks/useLiveKit';
+import type { CallReaction } from '@/lib/callData';
 import { SpeakingIndicator } from './SpeakingIndicator';
 
 interface ParticipantTileProps {
@@ -18,8 +19,12 @@ interface ParticipantTileProps {
   size: 'small' | 'medium' | 'large' | 'full';
   isMain?: boolean;
   showScreenShare?: boolean; // If false, always show camera even if screen sharing
-  isOwner?: boolean; // If true, show kick button for non-local participants
-  onKick?: (participantId: string) => void;
+  isOwner?: boolean; // If true, show the moderation menu for non-local participants
+  onKick?: (identity: string) => void;
+  onMute?: (identity: string) => void;
+  handPosition?: number; // Place in the raised-hand queue, from 1
+  reactions?: CallReaction[];
+  caption?: string; // Live caption of what the participant is saying
 }
 
 export function ParticipantTile({
@@ -29,10 +34,17 @@ export function ParticipantTile({
   showScreenShare = true,
   isOwner = false,
   onKick,
+  onMute,
+  handPosition,
+  reactions = [],
+  caption,
 }: ParticipantTileProps) {
   const tileRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [hasVideoTrack, setHasVideoTrack] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
+
+  const canModerate = isOwner && !participant.isLocal && (onKick || onMute);
 
   /**
    * GSAP entrance animation
@@ -121,6 +133,7 @@ export function ParticipantTile({
       ref={tileRef}
       className={`group relative overflow-hidden rounded-xl bg-gray-900 transition-all h-full ${participant.isSpeaking ? 'ring-2 ring-green-500 ring-offset-2 ring-offset-[#0d0d0e]' : ''
         }`}
+      onMouseLeave={() => setShowMenu(false)}
     >
       {/* Avatar Placeholder - shown when camera is off */}
       <div
@@ -163,6 +176,44 @@ export function ParticipantTile({
       {/* Speaking Indicator */}
       {participant.isSpeaking && <SpeakingIndicator />}
 
+      {/* Raised Hand */}
+      {handPosition !== undefined && (
+        <div
+          className="absolute top-2 right-2 flex items-center gap-1 rounded bg-amber-500/90 px-2 py-1"
+          title={`Hand raised (#${handPosition} in queue)`}
+        >
+          <span className="text-xs">✋</span>
+          <span className="text-xs font-medium text-white">{handPosition}</span>
+        </div>
+      )}
+
+      {/* Reactions */}
+      {reactions.length > 0 && (
+        <div
+          className={`pointer-events-none absolute inset-x-0 flex justify-center gap-1 ${caption ? 'bottom-24' : 'bottom-10'}`}
+        >
+          {reactions.map((reaction) => (
+            <span
+              key={reaction.id}
+              className={`animate-bounce drop-shadow-lg ${size === 'small' ? 'text-2xl' : 'text-4xl'}`}
+            >
+              {reaction.emoji}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Live Caption */}
+      {caption && (
+        <div className="pointer-events-none absolute inset-x-3 bottom-10 flex justify-center">
+          <p
+            className={`rounded-lg bg-black/75 px-3 py-1.5 text-center text-white ${size === 'small' ? 'line-clamp-2 text-xs' : 'line-clamp-3 text-sm'}`}
+          >
+            {caption}
+          </p>
+        </div>
+      )}
+
       {/* Screen Share Indicator */}
       {participant.isScreenSharing && showScreenShare && (
         <div className="absolute top-2 left-2 flex items-center gap-1 rounded bg-blue-500/90 px-2 py-1">
@@ -238,30 +289,56 @@ export function ParticipantTile({
               </div>
             )}
 
-            {/* Kick Button - Only shown to owners for non-local participants */}
-            {isOwner && !participant.isLocal && onKick && (
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onKick(participant.id);
-                }}
-                className="flex h-6 w-6 items-center justify-center rounded-full bg-red-500/80 opacity-0 transition-all hover:bg-red-600 group-hover:opacity-100"
-                title={`Remove ${participant.username} from call`}
-              >
-                <svg
-                  className="h-3 w-3 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={2}
+            {/* Moderation Menu - Only shown to owners for non-local participants */}
+            {canModerate && (
+              <div className="relative">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowMenu((open) => !open);
+                  }}
+                  className={`flex h-6 w-6 items-center justify-center rounded-full bg-black/60 transition-all hover:bg-black/80 group-hover:opacity-100 ${showMenu ? 'opacity-100' : 'opacity-0'
+                    }`}
+                  title={`Moderate ${participant.username}`}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M6 18L18 6M6 6l12 12"
-                  />
-                </svg>
-              </button>
+                  <svg className="h-3 w-3 text-white" fill="currentColor" viewBox="0 0 24 24">
+                    <circle cx="12" cy="5" r="2" />
+                    <circle cx="12" cy="12" r="2" />
+                    <circle cx="12" cy="19" r="2" />
+                  </svg>
+                </button>
+
+                {showMenu && (
+                  <div className="absolute right-0 bottom-full z-10 mb-1 min-w-[8rem] overflow-hidden rounded-lg border border-white/10 bg-[#1a1a1d] py-1 shadow-xl">
+                    {onMute && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowMenu(false);
+                          onMute(participant.username);
+                        }}
+                        className="block w-full px-3 py-1.5 text-left text-xs text-gray-200 hover:bg-white/10"
+                      >
+                        Mute
+                      </button>
+                    )}
+                    {onKick && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowMenu(false);
+                          if (confirm(`Remove ${participant.username} from the call?`)) {
+                            onKick(participant.username);
+                          }
+                        }}
+                        className="block w-full px-3 py-1.5 text-left text-xs text-red-400 hover:bg-white/10"
+                      >
+                        Remove from call
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
             )}
           </div>
         </div>
@@ -14,6 +14,7 @@ import { useVideoCall } from '@/hooks/useVideoCall';
 import { useAuth } from '@/hooks/useAuth';
 import { VideoGrid } from './VideoGrid';
 import { ControlBar } from './ControlBar';
+import { CallChat } from './CallChat';
 
 interface VideoCallProps {
   subjectId: string;
@@ -27,6 +28,8 @@ const CONTROLS_HIDE_DELAY = 10000; // 10 seconds
 
 export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStateChange, isOwner = false, hasActiveCall = false }: VideoCallProps) {
   const { user } = useAuth();
+  // Join without publishing; the server grants listeners subscribe-only access
+  const [joinAsListener, setJoinAsListener] = useState(false);
   const {
     join,
     leave,
@@ -41,12 +44,44 @@ export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStat
     toggleMute,
     toggleCamera,
     toggleScreenShare,
+    canPublish,
+    videoRole,
+    isLocked,
+    isRecording,
+    isCaptioning,
+    kickParticipant,
+    muteParticipant,
+    muteAll,
+    toggleLock,
+    toggleRecording,
+    toggleCaptions,
+    raisedHands,
+    isHandRaised,
+    reactions,
+    chatMessages,
+    captions,
+    toggleHand,
+    sendReaction,
+    sendChatMessage,
   } = useVideoCall({
     subjectId,
     username: user?.username || 'Guest',
+    listener: joinAsListener,
   });
 
+  // The server grants admin to owners and admins; isOwner covers the moment before it answers
+  const canModerate = isOwner || videoRole === 'admin';
+
   const [hasJoined, setHasJoined] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  // Chat messages seen while the chat was open
+  const [readChatCount, setReadChatCount] = useState(0);
+  const unreadChatCount = isChatOpen ? 0 : Math.max(0, chatMessages.length - readChatCount);
+
+  const toggleChat = useCallback(() => {
+    setIsChatOpen((open) => !open);
+    setReadChatCount(chatMessages.length);
+  }, [chatMessages.length]);
   const [showControls, setShowControls] = useState(true);
   const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -108,6 +143,8 @@ export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStat
   }, [isInCall, hasJoined, resetHideTimer]);
 
   const handleJoin = async () => {
+    setIsChatOpen(false);
+    setReadChatCount(0);
     try {
       await join();
       setHasJoined(true);
@@ -145,12 +182,16 @@ export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStat
           e.preventDefault();
           toggleScreenShare();
           break;
+        case 'h':
+          e.preventDefault();
+          toggleHand();
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isInCall, hasJoined, toggleMute, toggleCamera, toggleScreenShare, resetHideTimer]);
+  }, [isInCall, hasJoined, toggleMute, toggleCamera, toggleScreenShare, toggleHand, resetHideTimer]);
 
   // In-call view
   if (isInCall && hasJoined) {
@@ -162,14 +203,25 @@ export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStat
         onMouseLeave={handleMouseLeave}
         onClick={handleClick}
       >
-        {/* Video Grid */}
-        <div className="flex-1 overflow-hidden">
-          <VideoGrid
-            participants={participants}
-            isScreenSharing={isScreenSharing}
-            screenShareTrack={screenShareTrack}
-            isOwner={isOwner}
-          />
+        {/* Video Grid and side chat */}
+        <div className="flex flex-1 overflow-hidden">
+          <div className="flex-1 overflow-hidden">
+            <VideoGrid
+              participants={participants}
+              isScreenSharing={isScreenSharing}
+              screenShareTrack={screenShareTrack}
+              isOwner={canModerate}
+              onKickParticipant={kickParticipant}
+              onMuteParticipant={muteParticipant}
+              raisedHands={raisedHands}
+              reactions={reactions}
+              captions={captions}
+            />
+          </div>
+
+          {isChatOpen && (
+            <CallChat messages={chatMessages} onSend={sendChatMessage} onClose={toggleChat} />
+          )}
         </div>
 
         {/* Control Bar - Shows/hides based on mouse activity */}
@@ -188,6 +240,21 @@ export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStat
             onToggleCamera={toggleCamera}
             onToggleScreenShare={toggleScreenShare}
             participantCount={participants.length}
+            canPublish={canPublish}
+            canModerate={canModerate}
+            isLocked={isLocked}
+            onMuteAll={muteAll}
+            onToggleLock={toggleLock}
+            isRecording={isRecording}
+            onToggleRecording={toggleRecording}
+            isCaptioning={isCaptioning}
+            onToggleCaptions={toggleCaptions}
+            isHandRaised={isHandRaised}
+            onToggleHand={toggleHand}
+            onReaction={sendReaction}
+            isChatOpen={isChatOpen}
+            unreadChatCount={unreadChatCount}
+            onToggleChat={toggleChat}
           />
         </div>
 
@@ -285,6 +352,17 @@ export function VideoCall({ subjectId, audioOnly: _audioOnly = false, onCallStat
           )}
         </button>
 
+        <label className="mt-4 flex cursor-pointer items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={joinAsListener}
+            onChange={(e) => setJoinAsListener(e.target.checked)}
+            disabled={isConnecting}
+            className="accent-emerald-500"
+          />
+          Join as a listener (no mic or camera)
+        </label>
+
         {/* Media info cards */}
         <div className="mt-8 grid grid-cols-2 gap-3">
           <div className="flex items-center gap-3 rounded-xl bg-white/5 px-4 py-3 backdrop-blur-sm">
@@ -14,13 +14,18 @@ import React, { useState } from 'react';
 import { Participant } from '@/hooks/useLiveKit';
 import { ParticipantTile } from './ParticipantTile';
 import { Track } from 'livekit-client';
+import type { CallCaption, CallReaction, RaisedHand } from '@/lib/callData';
 
 interface VideoGridProps {
   participants: Participant[];
   isScreenSharing: boolean;
   screenShareTrack?: Track | null;
   isOwner?: boolean;
-  onKickParticipant?: (participantId: string) => void;
+  onKickParticipant?: (identity: string) => void;
+  onMuteParticipant?: (identity: string) => void;
+  raisedHands?: RaisedHand[];
+  reactions?: CallReaction[];
+  captions?: CallCaption[];
 }
 
 export function VideoGrid({
@@ -29,9 +34,26 @@ export function VideoGrid({
   screenShareTrack,
   isOwner = false,
   onKickParticipant,
+  onMuteParticipant,
+  raisedHands = [],
+  reactions = [],
+  captions = [],
 }: VideoGridProps) {
   const [isPipExpanded, setIsPipExpanded] = useState(false);
 
+  // Moderation menu props for tiles large enough to show it
+  const moderation = { isOwner, onKick: onKickParticipant, onMute: onMuteParticipant };
+
+  // Raised hand, reactions and caption for a participant's tile
+  const callState = (p: Participant) => {
+    const handIndex = raisedHands.findIndex((hand) => hand.identity === p.username);
+    return {
+      handPosition: handIndex === -1 ? undefined : handIndex + 1,
+      reactions: reactions.filter((reaction) => reaction.identity === p.username),
+      caption: captions.find((caption) => caption.identity === p.username)?.text,
+    };
+  };
+
   // Find the participant who is screen sharing
   const screenSharingParticipant = participants.find((p) => p.isScreenSharing);
   const localParticipant = participants.find((p) => p.isLocal);
@@ -98,7 +120,7 @@ export function VideoGrid({
                       key={p.id}
                       className="h-12 w-16 overflow-hidden rounded-lg ring-2 ring-white/20 transition-transform hover:scale-110"
                     >
-                      <ParticipantTile participant={p} size="small" />
+                      <ParticipantTile participant={p} size="small" {...callState(p)} />
                     </div>
                   ))}
                   {otherParticipants.length > 5 && (
@@ -119,7 +141,7 @@ export function VideoGrid({
               }`}
             onClick={() => setIsPipExpanded(!isPipExpanded)}
           >
-            <ParticipantTile participant={localParticipant} size="small" showScreenShare={false} />
+            <ParticipantTile participant={localParticipant} size="small" showScreenShare={false} {...callState(localParticipant)} />
 
             {/* Expand/Collapse indicator */}
             <div className="absolute top-2 right-2 rounded bg-black/50 p-1">
@@ -141,7 +163,7 @@ export function VideoGrid({
   if (participants.length === 1) {
     return (
       <div className="h-full p-4">
-        <ParticipantTile participant={participants[0]} size="full" />
+        <ParticipantTile participant={participants[0]} size="full" {...moderation} {...callState(participants[0])} />
       </div>
     );
   }
@@ -152,7 +174,7 @@ export function VideoGrid({
       <div className="flex h-full gap-3 p-4">
         {participants.map((p) => (
           <div key={p.id} className="flex-1">
-            <ParticipantTile participant={p} size="large" />
+            <ParticipantTile participant={p} size="large" {...moderation} {...callState(p)} />
           </div>
         ))}
       </div>
@@ -164,7 +186,7 @@ export function VideoGrid({
     return (
       <div className="grid h-full grid-cols-2 gap-3 p-4">
         {participants.map((p) => (
-          <ParticipantTile key={p.id} participant={p} size="large" />
+          <ParticipantTile key={p.id} participant={p} size="large" {...moderation} {...callState(p)} />
         ))}
       </div>
     );
@@ -182,7 +204,7 @@ export function VideoGrid({
         <div className="flex h-24 shrink-0 justify-center gap-2">
           {topRow.map((p) => (
             <div key={p.id} className="h-full w-32">
-              <ParticipantTile participant={p} size="small" />
+              <ParticipantTile participant={p} size="small" {...moderation} {...callState(p)} />
             </div>
           ))}
         </div>
@@ -190,14 +212,14 @@ export function VideoGrid({
 
       <div className="flex min-h-0 flex-1 gap-2">
         <div className="flex-1">
-          <ParticipantTile participant={mainParticipant} size="full" isMain />
+          <ParticipantTile participant={mainParticipant} size="full" isMain {...moderation} {...callState(mainParticipant)} />
         </div>
 
         {rightColumn.length > 0 && (
           <div className="flex w-28 shrink-0 flex-col gap-2">
             {rightColumn.map((p) => (
               <div key={p.id} className="flex-1">
-                <ParticipantTile participant={p} size="small" />
+                <ParticipantTile participant={p} size="small" {...moderation} {...callState(p)} />
               </div>
             ))}
           </div>
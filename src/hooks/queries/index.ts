@@ -52,3 +52,11 @@ export {
   useRejectRequestMutation,
   useRemoveMemberMutation,
 } from './useMembershipQuery';
+
+// Search
+export {
+  useRoomSearchQuery,
+  MIN_SEARCH_LENGTH,
+  type ArtifactSearchResult,
+  type RoomSearchResults,
+} from './useSearchQuery';
@@ -10,9 +10,18 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '@/lib/api';
 import { queryKeys } from '@/lib/queryKeys';
 import { useAuth } from '@/hooks/useAuth';
+import type { ArtifactRecording } from '@/types/database';
 
 // Artifact types
-export type ArtifactType = 'code' | 'image' | 'pdf' | 'diagram' | 'markdown' | 'html';
+export type ArtifactType =
+  | 'code'
+  | 'image'
+  | 'pdf'
+  | 'diagram'
+  | 'markdown'
+  | 'html'
+  | 'quiz'
+  | 'video';
 
 export type ProgrammingLanguage =
   | 'javascript'
@@ -50,6 +59,7 @@ export interface Artifact {
   fileSize?: number;
   language?: ProgrammingLanguage;
   diagramType?: 'mermaid' | 'plantuml' | 'flowchart' | 'sequence' | 'other';
+  recording?: ArtifactRecording;
   createdBy: {
     _id: string;
     username: string;
@@ -34,6 +34,7 @@ export interface Notification {
     requestId?: string;
     artifactId?: string;
     messageId?: string;
+    chatType?: 'friend' | 'ai';
     fromUser?: {
       _id: string;
       username: string;
@@ -0,0 +1,76 @@
+/**
+ * useSearchQuery Hook
+ *
+ * TanStack Query hook for searching inside a room: group chat and AI chat
+ * messages through Postgres full-text search (search_messages), artifacts
+ * through the backend's Mongo text index. Matched words come back wrapped
+ * in <mark>.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { supabase } from '@/lib/supabase';
+import { queryKeys } from '@/lib/queryKeys';
+import type { ArtifactType, MessageSearchResult } from '@/types/database';
+
+/** Shortest query searched */
+export const MIN_SEARCH_LENGTH = 2;
+
+/** Most results returned from each source */
+const SEARCH_LIMIT = 20;
+
+export interface ArtifactSearchResult {
+  _id: string;
+  type: ArtifactType;
+  title: string;
+  titleHighlight: string;
+  snippet: string;
+  fileName?: string;
+  createdBy?: { _id: string; username: string };
+  createdAt: string;
+}
+
+export interface RoomSearchResults {
+  friend: MessageSearchResult[];
+  ai: MessageSearchResult[];
+  artifacts: ArtifactSearchResult[];
+}
+
+/**
+ * Query hook for searching a room's messages and artifacts
+ */
+export function useRoomSearchQuery(subjectId: string, query: string) {
+  const trimmed = query.trim();
+
+  return useQuery<RoomSearchResults>({
+    queryKey: queryKeys.search.room(subjectId, trimmed),
+    queryFn: async () => {
+      const [messages, artifacts] = await Promise.all([
+        supabase.rpc('search_messages', {
+          p_subject_id: subjectId,
+          p_query: trimmed,
+          p_limit: SEARCH_LIMIT,
+        }),
+        api.get(`/artifacts/subject/${subjectId}/search`, {
+          params: { q: trimmed, limit: SEARCH_LIMIT },
+        }),
+      ]);
+
+      if (messages.error) throw messages.error;
+      if (!artifacts.data.success) {
+        throw new Error(artifacts.data.message || 'Failed to search artifacts');
+      }
+
+      const matches = (messages.data || []) as MessageSearchResult[];
+      return {
+        friend: matches.filter((m) => m.chat_type === 'friend'),
+        ai: matches.filter((m) => m.chat_type === 'ai'),
+        artifacts: artifacts.data.data,
+      };
+    },
+    enabled: !!subjectId && trimmed.length >= MIN_SEARCH_LENGTH,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
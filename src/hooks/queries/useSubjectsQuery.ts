@@ -9,7 +9,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '@/lib/api';
 import { queryKeys } from '@/lib/queryKeys';
-import type { Subject } from '@/types/database';
+import type { Subject, UpdateSubjectInput } from '@/types/database';
 
 interface SubjectsData {
   owned: Subject[];
@@ -92,7 +92,7 @@ export function useUpdateSubjectMutation() {
       data,
     }: {
       id: string;
-      data: { name?: string; description?: string };
+      data: UpdateSubjectInput;
     }) => {
       const response = await api.put(`/subjects/${id}`, data);
       if (response.data.success) {
@@ -1,21 +1,49 @@
 /**
  * useAIChat Hook
  *
- * Hook for managing AI chat with real-time sync via Supabase
+ * Hook for managing AI chat with real-time sync via Supabase.
+ * Artifacts in AI responses are saved to the Canvas and linked to their message.
+ * Members' questions are answered one at a time through the subject's AI queue.
+ * Regenerated answers and edited questions are saved as variants (see lib/llm/thread.ts).
+ * Quizzes and flashcard decks generated from the session are saved to the Canvas.
+ * New questions go through the outbox (see lib/outbox.ts), so they survive a
+ * dropped connection and are asked once it is back.
  */
 
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createClient } from '@supabase/supabase-js';
+import { useMutation } from '@apollo/client/react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
-import { sendToAI, extractArtifacts, type AIMessage, type Artifact } from '@/services/ai.service';
+import { useOutbox } from '@/hooks/useOutbox';
+import {
+  sendToAI,
+  getAIQueue,
+  cancelAIRequest,
+  generatePracticeSet,
+  extractArtifacts,
+  toArtifactInput,
+  type Artifact,
+} from '@/services/ai.service';
+import type { AIQueueSnapshot } from '@/lib/aiQueue';
+import { estimateTokens } from '@/lib/llm/tokens';
+import type { AIMessageSource } from '@/types/database';
+import { getQuizLength, type PracticeKind } from '@/lib/quiz';
+import { CREATE_ARTIFACT, NOTIFY_MENTIONS } from '@/lib/graphql/operations';
+import { extractMentions } from '@/lib/mentions';
+import { DUPLICATE_KEY_ERROR, type OutboxStatus } from '@/lib/outbox';
+import { queryKeys } from '@/lib/queryKeys';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
+/** Messages per history page; older pages load as the member scrolls up */
+const PAGE_SIZE = 50;
+
 interface ChatMessage {
   id: string;
   subject_id: string;
@@ -23,44 +51,93 @@ interface ChatMessage {
   username: string | null;
   content: string;
   role: 'user' | 'assistant';
+  has_artifact?: boolean;
+  artifact_ids?: string[] | null;
+  model_used?: string | null;
+  token_count?: number | null;
+  reply_to_id?: string | null;
+  variant_of?: string | null;
+  sources?: AIMessageSource[] | null;
   created_at: string;
+  /** Set while a question is still in the outbox */
+  send_status?: OutboxStatus;
 }
 
+/** Question row inserted when it leaves the outbox */
+type QuestionRow = Pick<
+  ChatMessage,
+  'id' | 'subject_id' | 'user_id' | 'username' | 'content' | 'role' | 'token_count' | 'variant_of'
+>;
+
 export function useAIChat(subjectId: string) {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [createArtifactMutation] = useMutation<{ createArtifact: { id: string } }>(CREATE_ARTIFACT);
+  const [notifyMentionsMutation] = useMutation(NOTIFY_MENTIONS);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [sending, setSending] = useState(false);
+  // The response in flight, if any. A ref because respond's closure can be
+  // older than the latest render; outbox deliveries wait on it.
+  const respondingRef = useRef<Promise<void> | null>(null);
   const [streamingContent, setStreamingContent] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
   const [artifacts, setArtifacts] = useState<Artifact[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<AIQueueSnapshot | null>(null);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [generatingPractice, setGeneratingPractice] = useState(false);
 
-  // Use a ref to track if we're currently in a send operation
-  // Real-time handler will skip adding messages during send
-  const isSendingRef = useRef(false);
+  // This tab's in-flight question, and its queue request ID while it waits
+  const questionIdRef = useRef<string | null>(null);
+  const requestIdRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Track IDs of messages we've added locally
   const addedMessageIds = useRef<Set<string>>(new Set());
 
   /**
-   * Fetch messages from Supabase
+   * Add a message unless real-time already delivered it
    */
-  const fetchMessages = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  const appendMessage = useCallback((message: ChatMessage) => {
+    addedMessageIds.current.add(message.id);
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
 
-      const { data, error: fetchError } = await supabase
+  /**
+   * One page of messages older than the cursor (newest page without one), oldest first
+   */
+  const fetchPage = useCallback(
+    async (before?: string): Promise<ChatMessage[]> => {
+      let query = supabase
         .from('ai_messages')
         .select('*')
         .eq('subject_id', subjectId)
-        .order('created_at', { ascending: true })
-        .limit(50);
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
 
+      if (before) query = query.lt('created_at', before);
+
+      const { data, error: fetchError } = await query;
       if (fetchError) throw fetchError;
 
-      setMessages(data || []);
+      setHasMore((data || []).length === PAGE_SIZE);
+      return (data || []).reverse();
+    },
+    [subjectId]
+  );
+
+  /**
+   * Fetch the newest page of messages from Supabase
+   */
+  const fetchMessages = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setMessages(await fetchPage());
       // Clear tracked IDs
       addedMessageIds.current.clear();
     } catch (err: unknown) {
@@ -70,72 +147,146 @@ export function useAIChat(subjectId: string) {
     } finally {
       setLoading(false);
     }
-  }, [subjectId]);
+  }, [fetchPage]);
 
   /**
-   * Send message to AI
+   * Load the page before the oldest loaded message
    */
-  const sendMessage = useCallback(
-    async (content: string) => {
-      if (!user || !content.trim() || sending) return;
+  const loadOlder = useCallback(async () => {
+    const oldest = messages[0];
+    if (!oldest || loadingOlder || !hasMore) return;
+
+    try {
+      setLoadingOlder(true);
+      const older = await fetchPage(oldest.created_at);
+      setMessages((prev) => {
+        const loaded = new Set(prev.map((m) => m.id));
+        return [...older.filter((m) => !loaded.has(m.id)), ...prev];
+      });
+    } catch (err: unknown) {
+      const e = err instanceof Error ? err : new Error('Unknown error');
+      console.error('Load older AI messages error:', e);
+      setError(e.message);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [messages, loadingOlder, hasMore, fetchPage]);
+
+  /**
+   * Save artifacts from an AI response to the Canvas, returning the created IDs
+   */
+  const persistArtifacts = useCallback(
+    async (messageId: string, extracted: Artifact[]) => {
+      if (extracted.length === 0) return [];
+
+      const results = await Promise.allSettled(
+        extracted.map((artifact) =>
+          createArtifactMutation({
+            variables: { input: toArtifactInput(artifact, subjectId, messageId) },
+          })
+        )
+      );
+
+      const artifactIds: string[] = [];
+      results.forEach((result) => {
+        if (result.status === 'fulfilled' && result.value.data) {
+          artifactIds.push(result.value.data.createArtifact.id);
+        } else if (result.status === 'rejected') {
+          console.error('Save AI artifact error:', result.reason);
+        }
+      });
+
+      if (artifactIds.length > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.artifacts.bySubject(subjectId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.artifacts.stats(subjectId) });
+      }
+
+      return artifactIds;
+    },
+    [createArtifactMutation, queryClient, subjectId]
+  );
+
+  /**
+   * Ask the tutor to answer a saved question and save the response.
+   * `prepare` saves (or picks) the question; `variantOf` makes the answer an
+   * alternative to an earlier one. New questions are deleted if withdrawn.
+   */
+  const respond = useCallback(
+    async (
+      prepare: () => Promise<{ question: ChatMessage; isNew: boolean; variantOf?: string }>
+    ) => {
+      if (!user || respondingRef.current) return;
+      let finishResponding!: () => void;
+      respondingRef.current = new Promise((resolve) => (finishResponding = resolve));
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       try {
         setSending(true);
-        isSendingRef.current = true;
         setError(null);
         setStreamingContent('');
         setIsStreaming(true);
 
-        // Save user message to Supabase
-        const userMessage = {
-          subject_id: subjectId,
-          user_id: user._id,
-          username: user.username,
-          content: content.trim(),
-          role: 'user' as const,
-        };
+        const { question, isNew, variantOf = null } = await prepare();
 
-        const { data: savedUserMsg, error: userMsgError } = await supabase
-          .from('ai_messages')
-          .insert(userMessage)
-          .select()
-          .single();
+        // Wait our turn in the subject's queue, then stream the response.
+        // The server builds the context from saved messages.
+        questionIdRef.current = question.id;
 
-        if (userMsgError) throw userMsgError;
-
-        // Track this ID and add to local state
-        addedMessageIds.current.add(savedUserMsg.id);
-        setMessages((prev) => [...prev, savedUserMsg]);
-
-        // Prepare messages for AI
-        const aiMessages: AIMessage[] = messages.slice(-10).map((m) => ({
-          role: m.role,
-          content: m.content,
-          username: m.username || undefined,
-        }));
-        aiMessages.push({
-          role: 'user',
-          content: content.trim(),
-          username: user.username,
-        });
-
-        // Get AI response with streaming
         let fullResponse = '';
-        const { content: aiContent, artifacts: extractedArtifacts } = await sendToAI(
-          aiMessages,
-          (chunk) => {
+        const {
+          content: aiContent,
+          artifacts: extractedArtifacts,
+          usage,
+          sources,
+          cancelled,
+        } = await sendToAI(subjectId, question.id, {
+          signal: controller.signal,
+          onQueued: (position, requestId) => {
+            requestIdRef.current = requestId;
+            setQueuePosition(position);
+          },
+          onStream: (chunk) => {
+            setQueuePosition(null);
             fullResponse += chunk;
             setStreamingContent(fullResponse);
-          }
-        );
+          },
+        });
+
+        if (cancelled && isNew) {
+          // The question was withdrawn before the tutor got to it
+          await supabase.from('ai_messages').delete().eq('id', question.id);
+          setMessages((prev) => prev.filter((m) => m.id !== question.id));
+        }
+
+        // Nothing to keep: withdrawn, or stopped before the first token
+        if (cancelled || !aiContent) {
+          setIsStreaming(false);
+          setStreamingContent('');
+          return;
+        }
 
-        // Save AI response to Supabase
+        // Save artifacts first so the message row is inserted already linked to them
+        const aiMessageId = crypto.randomUUID();
+        addedMessageIds.current.add(aiMessageId);
+        const artifactIds = await persistArtifacts(aiMessageId, extractedArtifacts);
+
+        // Save AI response (partial if stopped) to Supabase
         const aiMessage = {
+          id: aiMessageId,
           subject_id: subjectId,
           user_id: null,
           username: 'AI Tutor',
           content: aiContent,
           role: 'assistant' as const,
+          model_used: usage?.model ?? null,
+          token_count: usage?.completionTokens ?? estimateTokens(aiContent),
+          has_artifact: artifactIds.length > 0,
+          artifact_ids: artifactIds.length > 0 ? artifactIds : null,
+          reply_to_id: question.id,
+          variant_of: variantOf,
+          sources: sources.length > 0 ? sources : null,
         };
 
         const { data: savedAiMsg, error: aiMsgError } = await supabase
@@ -146,9 +297,7 @@ export function useAIChat(subjectId: string) {
 
         if (aiMsgError) throw aiMsgError;
 
-        // Track this ID and add to local state
-        addedMessageIds.current.add(savedAiMsg.id);
-        setMessages((prev) => [...prev, savedAiMsg]);
+        appendMessage(savedAiMsg);
 
         // Clear streaming state after message is added
         setIsStreaming(false);
@@ -165,14 +314,320 @@ export function useAIChat(subjectId: string) {
         setIsStreaming(false);
         setStreamingContent('');
       } finally {
+        respondingRef.current = null;
+        finishResponding();
         setSending(false);
-        // Add a small delay before allowing real-time to add messages again
-        setTimeout(() => {
-          isSendingRef.current = false;
-        }, 1000);
+        setQueuePosition(null);
+        questionIdRef.current = null;
+        requestIdRef.current = null;
+        abortControllerRef.current = null;
+      }
+    },
+    [user, subjectId, persistArtifacts, appendMessage]
+  );
+
+  /**
+   * Notify members @mentioned in a question; failures don't affect the question
+   */
+  const notifyMentions = useCallback(
+    (question: ChatMessage) => {
+      if (extractMentions(question.content).length === 0) return;
+
+      notifyMentionsMutation({
+        variables: { input: { subjectId, messageId: question.id, chatType: 'AI' } },
+      }).catch((err) => console.error('Mention notification error:', err));
+    },
+    [subjectId, notifyMentionsMutation]
+  );
+
+  /**
+   * Save a user question, optionally as an edited version of an earlier one
+   */
+  const saveQuestion = useCallback(
+    async (content: string, variantOf: string | null = null) => {
+      if (!user) throw new Error('Authentication required');
+
+      const userMessage = {
+        subject_id: subjectId,
+        user_id: user._id,
+        username: user.username,
+        content: content.trim(),
+        role: 'user' as const,
+        token_count: estimateTokens(content.trim()),
+        variant_of: variantOf,
+      };
+
+      const { data: savedUserMsg, error: userMsgError } = await supabase
+        .from('ai_messages')
+        .insert(userMessage)
+        .select()
+        .single();
+
+      if (userMsgError) throw userMsgError;
+
+      appendMessage(savedUserMsg);
+      notifyMentions(savedUserMsg);
+
+      return savedUserMsg as ChatMessage;
+    },
+    [user, subjectId, appendMessage, notifyMentions]
+  );
+
+  /**
+   * Answer a question from the outbox once any response in flight (say, a
+   * regenerate) has finished, so the question isn't dropped
+   */
+  const answerInTurn = useCallback(
+    async (question: ChatMessage) => {
+      while (respondingRef.current) {
+        await respondingRef.current;
+      }
+      await respond(async () => ({ question, isNew: true }));
+    },
+    [respond]
+  );
+
+  /**
+   * Save a question from the outbox and ask the tutor to answer it
+   */
+  const deliverQuestion = useCallback(
+    async (row: QuestionRow) => {
+      const { data: savedUserMsg, error: userMsgError } = await supabase
+        .from('ai_messages')
+        .insert(row)
+        .select()
+        .single();
+
+      if (userMsgError) {
+        if (userMsgError.code !== DUPLICATE_KEY_ERROR) throw userMsgError;
+
+        // Saved by an earlier attempt we never heard back from. Ask the tutor
+        // unless that attempt got as far as saving an answer.
+        const { data: answers, error: answerError } = await supabase
+          .from('ai_messages')
+          .select('id')
+          .eq('reply_to_id', row.id)
+          .eq('role', 'assistant')
+          .limit(1);
+        if (answerError) throw answerError;
+        if (answers && answers.length > 0) return;
+
+        const { data: question, error: questionError } = await supabase
+          .from('ai_messages')
+          .select('*')
+          .eq('id', row.id)
+          .single();
+        if (questionError) throw questionError;
+
+        appendMessage(question);
+        await answerInTurn(question as ChatMessage);
+        return;
+      }
+
+      appendMessage(savedUserMsg);
+      notifyMentions(savedUserMsg);
+
+      await answerInTurn(savedUserMsg as ChatMessage);
+    },
+    [appendMessage, notifyMentions, answerInTurn]
+  );
+
+  const {
+    entries: outboxEntries,
+    enqueue,
+    retry: retrySend,
+    discard: discardSend,
+  } = useOutbox<QuestionRow>(subjectId, 'ai', deliverQuestion);
+
+  /**
+   * Send message to AI. The question is shown right away and queued in the
+   * outbox until it is saved.
+   */
+  const sendMessage = useCallback(
+    async (content: string) => {
+      if (!user?._id || !content.trim() || sending) return;
+
+      await enqueue({
+        id: crypto.randomUUID(),
+        subject_id: subjectId,
+        user_id: user._id,
+        username: user.username,
+        content: content.trim(),
+        role: 'user',
+        token_count: estimateTokens(content.trim()),
+        variant_of: null,
+      });
+    },
+    [user, subjectId, sending, enqueue]
+  );
+
+  /**
+   * Ask for another answer to the same question. Earlier answers are kept as
+   * alternatives that can be paged through.
+   */
+  const regenerate = useCallback(
+    async (answer: ChatMessage) => {
+      if (answer.role !== 'assistant') return;
+
+      const index = messages.findIndex((m) => m.id === answer.id);
+      const question =
+        messages.find((m) => m.id === answer.reply_to_id) ||
+        messages
+          .slice(0, index)
+          .reverse()
+          .find((m) => m.role === 'user');
+
+      if (!question) {
+        setError('Could not find the question for this answer');
+        return;
+      }
+
+      await respond(async () => ({
+        question,
+        isNew: false,
+        variantOf: answer.variant_of || answer.id,
+      }));
+    },
+    [messages, respond]
+  );
+
+  /**
+   * Resend one of your questions with new wording. This forks the thread: the
+   * edited version and its answer replace the original from that point on.
+   */
+  const editAndResend = useCallback(
+    async (message: ChatMessage, content: string) => {
+      if (!user || message.role !== 'user' || message.user_id !== user._id) return;
+      if (!content.trim()) return;
+
+      await respond(async () => ({
+        question: await saveQuestion(content, message.variant_of || message.id),
+        isNew: true,
+      }));
+    },
+    [user, respond, saveQuestion]
+  );
+
+  /**
+   * Stop the response being generated. Text streamed so far is saved.
+   */
+  const stopGenerating = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Generate a quiz or flashcard deck from this session and save it to the Canvas.
+   * The tutor posts a message linking it so the whole group sees it.
+   */
+  const createPracticeSet = useCallback(
+    async (options: { kind: PracticeKind; count: number; artifactIds: string[] }) => {
+      if (!user || generatingPractice) return null;
+
+      try {
+        setGeneratingPractice(true);
+        setError(null);
+
+        const { title, content } = await generatePracticeSet(subjectId, options);
+
+        const aiMessageId = crypto.randomUUID();
+        addedMessageIds.current.add(aiMessageId);
+
+        const { data } = await createArtifactMutation({
+          variables: {
+            input: {
+              subjectId,
+              messageId: aiMessageId,
+              type: 'QUIZ',
+              title,
+              content: JSON.stringify(content),
+              isAiGenerated: true,
+            },
+          },
+        });
+        const artifactId = data?.createArtifact.id;
+        if (!artifactId) throw new Error('Failed to save practice set');
+
+        queryClient.invalidateQueries({ queryKey: queryKeys.artifacts.bySubject(subjectId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.artifacts.stats(subjectId) });
+
+        const length = getQuizLength(content);
+        const summary =
+          content.kind === 'quiz' ? `a ${length}-question quiz` : `a deck of ${length} flashcards`;
+
+        const { data: savedAiMsg, error: aiMsgError } = await supabase
+          .from('ai_messages')
+          .insert({
+            id: aiMessageId,
+            subject_id: subjectId,
+            user_id: null,
+            username: 'AI Tutor',
+            content: `${user.username} asked for practice material: I made ${summary}, "${title}". Open it in the Canvas to practise; everyone's scores are tracked there.`,
+            role: 'assistant' as const,
+            has_artifact: true,
+            artifact_ids: [artifactId],
+          })
+          .select()
+          .single();
+
+        if (aiMsgError) throw aiMsgError;
+
+        appendMessage(savedAiMsg);
+        return artifactId;
+      } catch (err: unknown) {
+        const e = err instanceof Error ? err : new Error('Unknown error');
+        console.error('Create practice set error:', e);
+        setError(e.message);
+        return null;
+      } finally {
+        setGeneratingPractice(false);
       }
     },
-    [user, subjectId, messages, sending]
+    [user, subjectId, generatingPractice, createArtifactMutation, queryClient, appendMessage]
+  );
+
+  /**
+   * Withdraw this tab's question while it is still waiting in the queue
+   */
+  const cancelQueuedRequest = useCallback(async () => {
+    if (!requestIdRef.current) return;
+
+    try {
+      await cancelAIRequest(subjectId, requestIdRef.current);
+    } catch (err: unknown) {
+      const e = err instanceof Error ? err : new Error('Unknown error');
+      console.error('Cancel AI request error:', e);
+      setError(e.message);
+    }
+  }, [subjectId]);
+
+  /**
+   * Record the member's rating of a tutor answer, or withdraw it with null
+   */
+  const rateAnswer = useCallback(
+    async (message: ChatMessage, rating: 1 | -1 | null) => {
+      if (!user || message.role !== 'assistant') return;
+
+      const { error: feedbackError } =
+        rating === null
+          ? await supabase
+              .from('ai_feedback')
+              .delete()
+              .eq('message_id', message.id)
+              .eq('user_id', user._id)
+          : await supabase.from('ai_feedback').upsert(
+              {
+                message_id: message.id,
+                subject_id: subjectId,
+                user_id: user._id,
+                rating,
+                model_used: message.model_used ?? null,
+              },
+              { onConflict: 'message_id,user_id' }
+            );
+
+      if (feedbackError) console.error('AI feedback error:', feedbackError);
+    },
+    [user, subjectId]
   );
 
   /**
@@ -181,6 +636,10 @@ export function useAIChat(subjectId: string) {
   useEffect(() => {
     fetchMessages();
 
+    getAIQueue(subjectId)
+      .then(setQueue)
+      .catch((err) => console.error('Fetch AI queue error:', err));
+
     const channel = supabase
       .channel(`ai_messages:${subjectId}`)
       .on(
@@ -194,11 +653,6 @@ export function useAIChat(subjectId: string) {
         (payload) => {
           const newMessage = payload.new as ChatMessage;
 
-          // Skip if we're currently sending (we'll add the message ourselves)
-          if (isSendingRef.current) {
-            return;
-          }
-
           // Skip if we've already added this message locally
           if (addedMessageIds.current.has(newMessage.id)) {
             return;
@@ -210,6 +664,11 @@ export function useAIChat(subjectId: string) {
             return [...prev, newMessage];
           });
 
+          // Another member's AI response added artifacts to the Canvas
+          if (newMessage.has_artifact) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.artifacts.bySubject(subjectId) });
+          }
+
           // Extract artifacts from new messages
           if (newMessage.role === 'assistant') {
             const newArtifacts = extractArtifacts(newMessage.content);
@@ -219,12 +678,21 @@ export function useAIChat(subjectId: string) {
           }
         }
       )
+      .on('broadcast', { event: 'ai_queue' }, ({ payload }) => {
+        const snapshot = payload as AIQueueSnapshot;
+        setQueue(snapshot);
+
+        const index = snapshot.waiting.findIndex(
+          (r) => r.userId === user?._id && r.messageId === questionIdRef.current
+        );
+        setQueuePosition(index === -1 ? null : index + 1);
+      })
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [subjectId, fetchMessages]);
+  }, [subjectId, user?._id, fetchMessages, queryClient]);
 
   /**
    * Clear artifacts
@@ -233,15 +701,38 @@ export function useAIChat(subjectId: string) {
     setArtifacts([]);
   }, []);
 
+  // Questions still in the outbox follow the saved messages
+  const shownMessages = useMemo(() => {
+    const saved = new Set(messages.map((m) => m.id));
+    const queued = outboxEntries
+      .filter((e) => !saved.has(e.id))
+      .map((e): ChatMessage => ({ ...e.row, created_at: e.createdAt, send_status: e.status }));
+    return queued.length > 0 ? [...messages, ...queued] : messages;
+  }, [messages, outboxEntries]);
+
   return {
-    messages,
+    messages: shownMessages,
     loading,
+    loadingOlder,
+    hasMore,
     sending,
     isStreaming,
     streamingContent,
     artifacts,
     error,
+    queue,
+    queuePosition,
+    generatingPractice,
     sendMessage,
+    retrySend,
+    discardSend,
+    regenerate,
+    editAndResend,
+    stopGenerating,
+    createPracticeSet,
+    cancelQueuedRequest,
+    rateAnswer,
+    loadOlder,
     clearArtifacts,
     refetch: fetchMessages,
   };
@@ -10,6 +10,7 @@
 import { useState, useCallback } from 'react';
 import { useQuery, useMutation, useApolloClient } from '@apollo/client/react';
 import { useAuth } from '@/providers/AuthProvider';
+import type { ArtifactRecording } from '@/types/database';
 import {
   GET_ARTIFACTS,
   GET_MY_ARTIFACTS,
@@ -25,7 +26,15 @@ import {
 // TYPES
 // =============================================================================
 
-export type ArtifactType = 'code' | 'image' | 'pdf' | 'diagram' | 'markdown' | 'html';
+export type ArtifactType =
+  | 'code'
+  | 'image'
+  | 'pdf'
+  | 'diagram'
+  | 'markdown'
+  | 'html'
+  | 'quiz'
+  | 'video';
 
 export type ProgrammingLanguage =
   | 'javascript'
@@ -62,6 +71,7 @@ export interface Artifact {
   fileSize?: number;
   displaySize?: string;
   diagramType?: string;
+  recording?: ArtifactRecording;
   isAiGenerated?: boolean;
   metadata?: {
     width?: number;
@@ -115,7 +125,7 @@ export function useArtifacts(subjectId?: string) {
     return {
       _id: artifact.id, // Ensure internal _id is mapped from GraphQL id
       id: artifact.id,
-      type: artifact.type,
+      type: artifact.type?.toLowerCase(),
       title: artifact.title,
       content: artifact.content,
       fileUrl: artifact.fileUrl,
@@ -123,7 +133,7 @@ export function useArtifacts(subjectId?: string) {
       fileSize: artifact.fileSize,
       displaySize: artifact.displaySize,
       diagramType: artifact.diagramType,
-      language: artifact.language,
+      language: artifact.language?.toLowerCase(),
       isAiGenerated: artifact.isAiGenerated,
       createdBy: {
         id: artifact.createdBy?.id || '',
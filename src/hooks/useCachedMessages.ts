@@ -1,146 +1,107 @@
 /**
  * useCachedMessages Hook
  *
- * Message caching for better performance (placeholder for Redis integration)
- * Currently uses in-memory caching, can be upgraded to Redis later
+ * A subject's most recent group chat messages, cached in IndexedDB so the
+ * room shows them instantly on the next visit. The server keeps a shared
+ * copy in Redis (see lib/redisMessageCache.ts); both follow the policy in
+ * lib/messageCache.ts.
  */
 
 'use client';
-/* eslint-disable react-hooks/set-state-in-effect */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { clearLocalCache, readLocalCache, trimToWindow, writeLocalCache } from '@/lib/messageCache';
 
-interface Message {
-  id: string;
-  subject_id: string;
-  user_id: string;
-  username: string;
-  content: string;
-  message_type: 'text' | 'file' | 'image';
-  created_at: string;
-}
-
-interface CacheEntry {
-  messages: Message[];
-  timestamp: number;
-}
-
-// In-memory cache (simulates Redis)
-const messageCache = new Map<string, CacheEntry>();
-const CACHE_DURATION = 2 * 24 * 60 * 60 * 1000; // 2 days in milliseconds
-const MAX_CACHED_MESSAGES = 100;
-
-export function useCachedMessages(subjectId: string) {
+export function useCachedMessages<Message extends { id: string }>(subjectId: string) {
   const [cachedMessages, setCachedMessages] = useState<Message[]>([]);
+  // Current window, or null when nothing is cached for the subject yet
+  const windowRef = useRef<Message[] | null>(null);
 
   /**
-   * Get messages from cache
+   * Replace the cached window
    */
-  const getFromCache = useCallback((): Message[] | null => {
-    const entry = messageCache.get(subjectId);
-
-    if (!entry) return null;
-
-    // Check if cache is still valid (within 2 days)
-    const isExpired = Date.now() - entry.timestamp > CACHE_DURATION;
-
-    if (isExpired) {
-      messageCache.delete(subjectId);
-      return null;
-    }
+  const writeWindow = useCallback(
+    (messages: Message[]) => {
+      const recent = trimToWindow(messages);
+      windowRef.current = recent;
+      setCachedMessages(recent);
+      writeLocalCache(subjectId, recent);
+    },
+    [subjectId]
+  );
 
-    return entry.messages;
+  /**
+   * Get messages from cache
+   */
+  const getFromCache = useCallback(async (): Promise<Message[] | null> => {
+    const cached = await readLocalCache<Message>(subjectId);
+    windowRef.current = cached;
+    setCachedMessages(cached || []);
+    return cached;
   }, [subjectId]);
 
   /**
    * Save messages to cache
    */
-  const saveToCache = useCallback(
-    (messages: Message[]) => {
-      // Only cache the most recent messages
-      const messagesToCache = messages.slice(-MAX_CACHED_MESSAGES);
-
-      messageCache.set(subjectId, {
-        messages: messagesToCache,
-        timestamp: Date.now(),
-      });
-
-      setCachedMessages(messagesToCache);
-    },
-    [subjectId]
-  );
+  const saveToCache = useCallback((messages: Message[]) => writeWindow(messages), [writeWindow]);
 
   /**
    * Add a single message to cache
    */
   const addMessageToCache = useCallback(
     (message: Message) => {
-      const entry = messageCache.get(subjectId);
-
-      if (entry) {
-        const updatedMessages = [...entry.messages, message].slice(-MAX_CACHED_MESSAGES);
+      const recent = windowRef.current;
+      if (recent && !recent.some((m) => m.id === message.id)) {
+        writeWindow([...recent, message]);
+      }
+    },
+    [writeWindow]
+  );
 
-        messageCache.set(subjectId, {
-          messages: updatedMessages,
-          timestamp: Date.now(),
-        });
+  /**
+   * Apply an edit to a cached message
+   */
+  const updateMessageInCache = useCallback(
+    (messageId: string, changes: Partial<Message>) => {
+      const recent = windowRef.current;
+      if (recent) {
+        writeWindow(recent.map((m) => (m.id === messageId ? { ...m, ...changes } : m)));
+      }
+    },
+    [writeWindow]
+  );
 
-        setCachedMessages(updatedMessages);
+  /**
+   * Drop a deleted message from cache
+   */
+  const removeMessageFromCache = useCallback(
+    (messageId: string) => {
+      const recent = windowRef.current;
+      if (recent) {
+        writeWindow(recent.filter((m) => m.id !== messageId));
       }
     },
-    [subjectId]
+    [writeWindow]
   );
 
   /**
    * Clear cache for subject
    */
   const clearCache = useCallback(() => {
-    messageCache.delete(subjectId);
+    windowRef.current = null;
     setCachedMessages([]);
+    clearLocalCache(subjectId);
   }, [subjectId]);
 
-  /**
-   * Load cached messages on mount
-   */
-  useEffect(() => {
-    const cached = getFromCache();
-    if (cached) {
-      setCachedMessages((prev) => {
-        // Prevent unnecessary updates
-        if (prev.length === cached.length && prev[0]?.id === cached[0]?.id) {
-          return prev;
-        }
-        return cached;
-      });
-    }
-  }, [getFromCache]);
-
   return {
     cachedMessages,
     getFromCache,
     saveToCache,
     addMessageToCache,
+    updateMessageInCache,
+    removeMessageFromCache,
     clearCache,
   };
 }
 
 export default useCachedMessages;
-
-/**
- * TODO: Redis Integration
- *
- * To upgrade to Redis:
- * 1. Install Redis client: npm install ioredis
- * 2. Create Redis connection in backend
- * 3. Create API endpoints:
- *    - GET /api/cache/messages/:subjectId
- *    - POST /api/cache/messages/:subjectId
- * 4. Replace in-memory Map with Redis calls
- * 5. Use Redis TTL for automatic expiration
- *
- * Benefits:
- * - Persistent cache across sessions
- * - Shared cache between users
- * - Better performance with large datasets
- * - Automatic cleanup with TTL
- */
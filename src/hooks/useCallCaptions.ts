@@ -0,0 +1,100 @@
+/**
+ * useCallCaptions Hook
+ *
+ * Transcribes the local microphone in short clips while live captions are on
+ * in a video call. Each clip goes to /api/ai/transcribe, which also adds it
+ * to the call's transcript for the post-call summary; the text comes back
+ * through `onCaption` so it can be shown and sent to the rest of the call.
+ * Clips in which we never spoke are dropped without being sent.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { transcribeCallAudio } from '@/services/ai.service';
+
+/** Length of each transcribed clip */
+const CLIP_DURATION = 5000;
+
+interface UseCallCaptionsOptions {
+  subjectId: string;
+  /** Local microphone; nothing is recorded without one */
+  track: MediaStreamTrack | null;
+  enabled: boolean;
+  /** LiveKit's speaking indicator for the local participant */
+  isSpeaking: boolean;
+  onCaption: (text: string, spokenAt: number) => void;
+}
+
+export function useCallCaptions({
+  subjectId,
+  track,
+  enabled,
+  isSpeaking,
+  onCaption,
+}: UseCallCaptionsOptions) {
+  const isSpeakingRef = useRef(isSpeaking);
+  // Whether we spoke at any point during the current clip
+  const spokeRef = useRef(isSpeaking);
+  const onCaptionRef = useRef(onCaption);
+
+  useEffect(() => {
+    isSpeakingRef.current = isSpeaking;
+    if (isSpeaking) spokeRef.current = true;
+  }, [isSpeaking]);
+
+  useEffect(() => {
+    onCaptionRef.current = onCaption;
+  }, [onCaption]);
+
+  useEffect(() => {
+    if (!enabled || !track || typeof MediaRecorder === 'undefined') return;
+
+    const stream = new MediaStream([track]);
+    let recorder: MediaRecorder | null = null;
+    let clipTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    // A new recorder per clip, so every upload is a complete audio file
+    const recordClip = () => {
+      if (stopped) return;
+
+      const clipRecorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      const spokenAt = Date.now();
+      spokeRef.current = isSpeakingRef.current;
+
+      clipRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+
+      clipRecorder.onstop = () => {
+        const spoke = spokeRef.current;
+        recordClip();
+        if (!spoke || chunks.length === 0) return;
+
+        const audio = new Blob(chunks, { type: clipRecorder.mimeType });
+        transcribeCallAudio(subjectId, audio, spokenAt)
+          .then((text) => {
+            if (text) onCaptionRef.current(text, spokenAt);
+          })
+          .catch((err) => console.error('Transcription error:', err));
+      };
+
+      clipRecorder.start();
+      recorder = clipRecorder;
+      clipTimer = setTimeout(() => clipRecorder.stop(), CLIP_DURATION);
+    };
+
+    recordClip();
+
+    return () => {
+      stopped = true;
+      clearTimeout(clipTimer);
+      // Sends what was said since the last clip
+      if (recorder?.state === 'recording') recorder.stop();
+    };
+  }, [subjectId, track, enabled]);
+}
+
+export default useCallCaptions;
@@ -9,7 +9,20 @@
 import { useSupabaseChat } from './useSupabaseChat';
 
 export function useChat(subjectId: string) {
-  const { messages, loading, error, sendMessage, refetch } = useSupabaseChat(subjectId);
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    hasMore,
+    error,
+    loadOlder,
+    sendMessage,
+    retrySend,
+    discardSend,
+    editMessage,
+    deleteMessage,
+    refetch,
+  } = useSupabaseChat(subjectId);
 
   // Adapter to match the interface expected by FriendsChat
   // Since useSupabaseChat handles subscriptions internally via useEffect,
@@ -24,8 +37,15 @@ export function useChat(subjectId: string) {
   return {
     messages,
     loading,
+    loadingOlder,
+    hasMore,
     error,
+    loadOlder,
     sendMessage,
+    retrySend,
+    discardSend,
+    editMessage,
+    deleteMessage,
     subscribeToMessages,
     refetch,
   };
@@ -0,0 +1,110 @@
+/**
+ * useChatScroll Hook
+ *
+ * Scroll handling for chat message lists: follows new messages at the bottom,
+ * loads older history when the member scrolls near the top, and keeps the
+ * visible messages in place when that older page is prepended. Messages can
+ * be jumped to and briefly highlighted, e.g. when opened from a notification.
+ */
+
+'use client';
+
+import { useRef, useState, useCallback, useEffect, useLayoutEffect } from 'react';
+
+/** Distance from the top (px) at which the next older page starts loading */
+const LOAD_OLDER_THRESHOLD = 120;
+
+interface UseChatScrollOptions {
+  messages: Array<{ id: string }>;
+  hasMore: boolean;
+  loadingOlder: boolean;
+  loadOlder: () => void;
+  /** Message to jump to once loaded; older pages are fetched until it is */
+  focusMessageId?: string | null;
+}
+
+export function useChatScroll({
+  messages,
+  hasMore,
+  loadingOlder,
+  loadOlder,
+  focusMessageId,
+}: UseChatScrollOptions) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const focusedIdRef = useRef<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Scroll metrics captured before an older page is requested
+  const restoreRef = useRef<{ height: number; top: number } | null>(null);
+  const lastIdRef = useRef<string | undefined>(undefined);
+
+  const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
+    const el = scrollRef.current;
+    el?.scrollTo({ top: el.scrollHeight, behavior });
+  }, []);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const lastId = messages[messages.length - 1]?.id;
+
+    if (restoreRef.current && !loadingOlder) {
+      // Older messages were prepended: keep the same ones under the reader
+      el.scrollTop = el.scrollHeight - restoreRef.current.height + restoreRef.current.top;
+      restoreRef.current = null;
+    } else if (lastId !== lastIdRef.current) {
+      // Jump straight to the bottom on first load, then follow new messages
+      scrollToBottom(lastIdRef.current ? 'smooth' : 'auto');
+    }
+
+    lastIdRef.current = lastId;
+  }, [messages, loadingOlder, scrollToBottom]);
+
+  const handleScroll = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el || !hasMore || loadingOlder || el.scrollTop > LOAD_OLDER_THRESHOLD) return;
+
+    restoreRef.current = { height: el.scrollHeight, top: el.scrollTop };
+    loadOlder();
+  }, [hasMore, loadingOlder, loadOlder]);
+
+  /**
+   * Scroll a message (rendered with id="message-<id>") into view and briefly highlight it
+   */
+  const jumpToMessage = useCallback((messageId: string) => {
+    document
+      .getElementById(`message-${messageId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(messageId);
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedId(null), 2000);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    };
+  }, []);
+
+  /**
+   * Jump to the focused message, loading older pages until it is found
+   */
+  useEffect(() => {
+    if (!focusMessageId || focusedIdRef.current === focusMessageId) return;
+
+    if (messages.some((m) => m.id === focusMessageId)) {
+      // Let the list lay out first
+      const timeout = setTimeout(() => {
+        focusedIdRef.current = focusMessageId;
+        jumpToMessage(focusMessageId);
+      }, 100);
+      return () => clearTimeout(timeout);
+    }
+
+    if (hasMore && !loadingOlder) loadOlder();
+  }, [focusMessageId, messages, hasMore, loadingOlder, loadOlder, jumpToMessage]);
+
+  return { scrollRef, handleScroll, scrollToBottom, highlightedId, jumpToMessage };
+}
+
+export default useChatScroll;
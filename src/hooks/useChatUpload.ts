@@ -0,0 +1,116 @@
+/**
+ * useChatUpload Hook
+ *
+ * Uploads files dropped or pasted into the group chat to Cloudinary and
+ * sends each one as a file or image message. Uploads go through the
+ * artifacts endpoint, so shared files also show up in the subject's canvas.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { uploadFile, getFileType } from '@/services/cloudinary.service';
+import { validateFile } from '@/utils/fileValidation';
+import type { SendMessageOptions } from '@/hooks/useSupabaseChat';
+import type { ArtifactType } from '@/types/database';
+
+/**
+ * A file being uploaded, or one that failed
+ */
+export interface ChatUpload {
+  id: string;
+  fileName: string;
+  percentage: number;
+  error?: string;
+}
+
+interface UseChatUploadOptions {
+  subjectId: string;
+  sendMessage: (content: string, options?: SendMessageOptions) => Promise<void>;
+}
+
+/**
+ * Artifact type the upload endpoint stores a chat file as
+ */
+function getArtifactType(fileName: string): ArtifactType {
+  const type = getFileType(fileName);
+  return type === 'image' || type === 'pdf' ? type : 'code';
+}
+
+export function useChatUpload({ subjectId, sendMessage }: UseChatUploadOptions) {
+  const [uploads, setUploads] = useState<ChatUpload[]>([]);
+
+  const updateUpload = useCallback((id: string, changes: Partial<ChatUpload>) => {
+    setUploads((prev) => prev.map((u) => (u.id === id ? { ...u, ...changes } : u)));
+  }, []);
+
+  /**
+   * Upload one file and send it to the chat
+   */
+  const uploadOne = useCallback(
+    async (file: File) => {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const validation = validateFile(file);
+
+      if (!validation.isValid) {
+        setUploads((prev) => [
+          ...prev,
+          { id, fileName: file.name, percentage: 0, error: validation.error },
+        ]);
+        return;
+      }
+
+      setUploads((prev) => [...prev, { id, fileName: file.name, percentage: 0 }]);
+
+      const type = getArtifactType(file.name);
+      const result = await uploadFile(
+        file,
+        { subjectId, type, title: file.name },
+        'bytemeet/chat',
+        ({ percentage }) => updateUpload(id, { percentage })
+      );
+
+      if (!result.success || !result.url) {
+        updateUpload(id, { error: result.error || 'Upload failed' });
+        return;
+      }
+
+      try {
+        await sendMessage(file.name, {
+          messageType: type === 'image' ? 'image' : 'file',
+          file: { url: result.url, name: file.name, size: file.size },
+        });
+        setUploads((prev) => prev.filter((u) => u.id !== id));
+      } catch {
+        updateUpload(id, { error: 'Uploaded, but the message could not be sent' });
+      }
+    },
+    [subjectId, sendMessage, updateUpload]
+  );
+
+  /**
+   * Upload files side by side, each sent as its own message
+   */
+  const uploadFiles = useCallback(
+    async (files: FileList | File[]) => {
+      await Promise.all(Array.from(files).map(uploadOne));
+    },
+    [uploadOne]
+  );
+
+  /**
+   * Remove a failed upload from the list
+   */
+  const dismissUpload = useCallback((id: string) => {
+    setUploads((prev) => prev.filter((u) => u.id !== id));
+  }, []);
+
+  return {
+    uploads,
+    uploading: uploads.some((u) => !u.error),
+    uploadFiles,
+    dismissUpload,
+  };
+}
+
+export default useChatUpload;
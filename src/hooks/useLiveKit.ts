@@ -11,6 +11,7 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Room,
   RoomEvent,
+  DisconnectReason,
   VideoPresets,
   LocalVideoTrack,
   LocalAudioTrack,
@@ -20,7 +21,22 @@ import {
   LocalTrackPublication,
 } from 'livekit-client';
 import { useMutation } from '@apollo/client/react';
-import { GENERATE_VIDEO_TOKEN } from '@/lib/graphql/operations';
+import {
+  GENERATE_VIDEO_TOKEN,
+  KICK_VIDEO_PARTICIPANT,
+  MUTE_VIDEO_PARTICIPANT,
+  MUTE_ALL_VIDEO_PARTICIPANTS,
+  SET_VIDEO_ROOM_LOCKED,
+  SET_VIDEO_CAPTIONS,
+  START_VIDEO_RECORDING,
+  STOP_VIDEO_RECORDING,
+} from '@/lib/graphql/operations';
+import {
+  CALL_DATA_TOPIC,
+  encodeCallData,
+  decodeCallData,
+  type CallDataMessage,
+} from '@/lib/callData';
 
 export interface Participant {
   id: string;
@@ -35,18 +51,44 @@ export interface Participant {
   screenTrack: Track | null;
 }
 
+/**
+ * Grant the server gave this member: admins can moderate the room, listeners
+ * can't publish
+ */
+export type VideoRole = 'admin' | 'member' | 'listener';
+
+/**
+ * Switches moderators set in the room's metadata: locked to new joiners, and
+ * live captions on
+ */
+function parseRoomMetadata(metadata: string | undefined) {
+  try {
+    const data = metadata ? JSON.parse(metadata) : {};
+    return { locked: Boolean(data.locked), captions: Boolean(data.captions) };
+  } catch {
+    return { locked: false, captions: false };
+  }
+}
+
 interface UseLiveKitOptions {
-  roomName: string;
+  /** Subject whose call to join; the server checks membership */
+  subjectId: string;
   username: string;
+  /** Join as a listener, without publishing audio or video */
+  listener?: boolean;
   onParticipantJoined?: (participant: Participant) => void;
   onParticipantLeft?: (participantId: string) => void;
+  /** Called for each call data message another participant sends */
+  onDataMessage?: (message: CallDataMessage, identity: string) => void;
 }
 
 export function useLiveKit({
-  roomName,
+  subjectId,
   username,
+  listener = false,
   onParticipantJoined,
   onParticipantLeft,
+  onDataMessage,
 }: UseLiveKitOptions) {
   const [room, setRoom] = useState<Room | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
@@ -57,13 +99,32 @@ export function useLiveKit({
   const [isScreenSharing, setIsScreenSharing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [screenShareTrack, setScreenShareTrack] = useState<Track | null>(null);
+  const [videoRole, setVideoRole] = useState<VideoRole | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isCaptioning, setIsCaptioning] = useState(false);
 
   // Refs to track current state for cleanup (avoids dependency issues in useEffect)
   const roomRef = useRef<Room | null>(null);
+  // Latest data handler, so the room's listener never goes stale
+  const onDataMessageRef = useRef(onDataMessage);
+
+  useEffect(() => {
+    onDataMessageRef.current = onDataMessage;
+  }, [onDataMessage]);
 
   // GraphQL mutation for token generation
   const [generateTokenMutation] = useMutation<any>(GENERATE_VIDEO_TOKEN);
 
+  // GraphQL mutations for moderation (owners and admins)
+  const [kickMutation] = useMutation(KICK_VIDEO_PARTICIPANT);
+  const [muteMutation] = useMutation(MUTE_VIDEO_PARTICIPANT);
+  const [muteAllMutation] = useMutation(MUTE_ALL_VIDEO_PARTICIPANTS);
+  const [setLockedMutation] = useMutation(SET_VIDEO_ROOM_LOCKED);
+  const [setCaptionsMutation] = useMutation(SET_VIDEO_CAPTIONS);
+  const [startRecordingMutation] = useMutation(START_VIDEO_RECORDING);
+  const [stopRecordingMutation] = useMutation(STOP_VIDEO_RECORDING);
+
   // =============================================================================
   // PARTICIPANT MANAGEMENT - Gets tracks directly from room
   // =============================================================================
@@ -166,7 +227,7 @@ export function useLiveKit({
     try {
       // Get token from GraphQL API
       const { data } = await generateTokenMutation({
-        variables: { roomName },
+        variables: { subjectId, listener },
       });
 
       if (!data?.generateVideoToken?.success || !data?.generateVideoToken?.token) {
@@ -174,6 +235,7 @@ export function useLiveKit({
       }
 
       const token = data.generateVideoToken.token;
+      setVideoRole(data.generateVideoToken.role.toLowerCase() as VideoRole);
 
       // Create room instance with proper settings
       const newRoom = new Room({
@@ -187,12 +249,20 @@ export function useLiveKit({
         },
       });
 
+      const applyRoomMetadata = (metadata: string | undefined) => {
+        const { locked, captions } = parseRoomMetadata(metadata);
+        setIsLocked(locked);
+        setIsCaptioning(captions);
+      };
+
       // Set up event listeners BEFORE connecting
       newRoom
         .on(RoomEvent.Connected, () => {
           console.log('Room connected successfully');
           setIsConnected(true);
           setIsConnecting(false);
+          applyRoomMetadata(newRoom.metadata);
+          setIsRecording(newRoom.isRecording);
           updateParticipants(newRoom);
         })
         .on(RoomEvent.Disconnected, (reason) => {
@@ -200,6 +270,23 @@ export function useLiveKit({
           setIsConnected(false);
           setParticipants([]);
           setScreenShareTrack(null);
+          setIsCaptioning(false);
+          if (reason === DisconnectReason.PARTICIPANT_REMOVED) {
+            setError('You were removed from the call');
+          }
+        })
+        .on(RoomEvent.RoomMetadataChanged, (metadata) => {
+          applyRoomMetadata(metadata);
+        })
+        .on(RoomEvent.RecordingStatusChanged, (recording) => {
+          setIsRecording(recording);
+        })
+        .on(RoomEvent.DataReceived, (payload, participant, _kind, topic) => {
+          if (topic !== CALL_DATA_TOPIC || !participant) return;
+          const message = decodeCallData(payload);
+          if (message) {
+            onDataMessageRef.current?.(message, participant.identity);
+          }
         })
         .on(RoomEvent.ParticipantConnected, (participant) => {
           console.log('Participant joined:', participant.identity);
@@ -245,6 +332,18 @@ export function useLiveKit({
         .on(RoomEvent.ActiveSpeakersChanged, () => {
           updateParticipants(newRoom);
         })
+        .on(RoomEvent.TrackMuted, (publication, participant) => {
+          // A moderator may have muted us from the server
+          if (participant.isLocal && publication.source === Track.Source.Microphone) {
+            setIsMuted(true);
+          } else if (participant.isLocal && publication.source === Track.Source.Camera) {
+            setIsCameraOff(true);
+          }
+          updateParticipants(newRoom);
+        })
+        .on(RoomEvent.TrackUnmuted, () => {
+          updateParticipants(newRoom);
+        })
         .on(RoomEvent.LocalTrackPublished, (publication) => {
           console.log('Local track published:', publication.kind, publication.source);
           // Update state based on what was published
@@ -289,7 +388,8 @@ export function useLiveKit({
   }, [
     isConnecting,
     isConnected,
-    roomName,
+    subjectId,
+    listener,
     generateTokenMutation,
     updateParticipants,
     onParticipantJoined,
@@ -311,8 +411,10 @@ export function useLiveKit({
   // CONTROLS - Use LiveKit's built-in methods
   // =============================================================================
 
+  const canPublish = videoRole !== 'listener';
+
   const toggleMute = useCallback(async () => {
-    if (!room) return;
+    if (!room || !canPublish) return;
 
     try {
       const currentlyMuted = !room.localParticipant.isMicrophoneEnabled;
@@ -334,10 +436,10 @@ export function useLiveKit({
       console.error('Toggle mute error:', err);
       setError('Failed to toggle microphone. It may be in use by another application.');
     }
-  }, [room, updateParticipants]);
+  }, [room, canPublish, updateParticipants]);
 
   const toggleCamera = useCallback(async () => {
-    if (!room) return;
+    if (!room || !canPublish) return;
 
     try {
       const currentlyOff = !room.localParticipant.isCameraEnabled;
@@ -358,10 +460,10 @@ export function useLiveKit({
       console.error('Toggle camera error:', err);
       setError('Failed to toggle camera. It may be in use by another application.');
     }
-  }, [room, updateParticipants]);
+  }, [room, canPublish, updateParticipants]);
 
   const toggleScreenShare = useCallback(async () => {
-    if (!room) return;
+    if (!room || !canPublish) return;
 
     try {
       const currentlySharing = room.localParticipant.isScreenShareEnabled;
@@ -395,7 +497,85 @@ export function useLiveKit({
         setError('Failed to share screen');
       }
     }
-  }, [room, updateParticipants]);
+  }, [room, canPublish, updateParticipants]);
+
+  // =============================================================================
+  // DATA CHANNEL - Call messages to everyone, or to `to` identities only
+  // =============================================================================
+
+  const publishData = useCallback(
+    async (message: CallDataMessage, { reliable = true, to }: { reliable?: boolean; to?: string[] } = {}) => {
+      if (!room) return;
+
+      try {
+        await room.localParticipant.publishData(encodeCallData(message), {
+          reliable,
+          topic: CALL_DATA_TOPIC,
+          destinationIdentities: to,
+        });
+      } catch (err) {
+        console.error('Publish data error:', err);
+      }
+    },
+    [room]
+  );
+
+  // =============================================================================
+  // MODERATION - Owners and admins, enforced by the server
+  // =============================================================================
+
+  const runModeration = useCallback(async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('Moderation error:', err);
+      setError(err instanceof Error ? err.message : 'Moderation action failed');
+    }
+  }, []);
+
+  const kickParticipant = useCallback(
+    (identity: string) =>
+      runModeration(() => kickMutation({ variables: { subjectId, identity } })),
+    [runModeration, kickMutation, subjectId]
+  );
+
+  const muteParticipant = useCallback(
+    (identity: string) =>
+      runModeration(() => muteMutation({ variables: { subjectId, identity } })),
+    [runModeration, muteMutation, subjectId]
+  );
+
+  const muteAll = useCallback(
+    () => runModeration(() => muteAllMutation({ variables: { subjectId } })),
+    [runModeration, muteAllMutation, subjectId]
+  );
+
+  // The lock state itself arrives through RoomMetadataChanged
+  const toggleLock = useCallback(
+    () =>
+      runModeration(() => setLockedMutation({ variables: { subjectId, locked: !isLocked } })),
+    [runModeration, setLockedMutation, subjectId, isLocked]
+  );
+
+  // Captions state also arrives through RoomMetadataChanged
+  const toggleCaptions = useCallback(
+    () =>
+      runModeration(() =>
+        setCaptionsMutation({ variables: { subjectId, enabled: !isCaptioning } })
+      ),
+    [runModeration, setCaptionsMutation, subjectId, isCaptioning]
+  );
+
+  // LiveKit reports the recording status once Egress starts or stops
+  const toggleRecording = useCallback(
+    () =>
+      runModeration(() =>
+        (isRecording ? stopRecordingMutation : startRecordingMutation)({
+          variables: { subjectId },
+        })
+      ),
+    [runModeration, startRecordingMutation, stopRecordingMutation, subjectId, isRecording]
+  );
 
   // =============================================================================
   // CLEANUP
@@ -419,12 +599,24 @@ export function useLiveKit({
     isCameraOff,
     isScreenSharing,
     screenShareTrack,
+    videoRole,
+    canPublish,
+    isLocked,
+    isRecording,
+    isCaptioning,
     error,
     connect,
     disconnect,
     toggleMute,
     toggleCamera,
     toggleScreenShare,
+    publishData,
+    kickParticipant,
+    muteParticipant,
+    muteAll,
+    toggleLock,
+    toggleRecording,
+    toggleCaptions,
   };
 }
 
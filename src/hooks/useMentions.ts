@@ -0,0 +1,114 @@
+/**
+ * useMentions Hook
+ *
+ * @mention autocomplete for a chat input, suggesting the subject's members
+ * (see lib/mentions.ts). Sent messages are checked for mentions by the chat
+ * hooks, which ask the backend to notify the members mentioned.
+ */
+
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useQuery } from '@apollo/client/react';
+import { useAuth } from '@/hooks/useAuth';
+import { GET_SUBJECT } from '@/lib/graphql/operations';
+import {
+  completeMention,
+  getMentionQuery,
+  getMentionSuggestions,
+  type MentionCandidate,
+} from '@/lib/mentions';
+
+interface SubjectMembersData {
+  subject: {
+    members?: Array<{ user: { id: string; username: string; avatarUrl?: string | null } }>;
+  };
+}
+
+interface UseMentionsOptions {
+  subjectId: string;
+  input: string;
+  setInput: (value: string) => void;
+}
+
+export function useMentions({ subjectId, input, setInput }: UseMentionsOptions) {
+  const { user } = useAuth();
+  const [highlight, setHighlight] = useState({ input: '', index: 0 });
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+
+  const { data } = useQuery<SubjectMembersData>(GET_SUBJECT, {
+    variables: { id: subjectId },
+    skip: !subjectId,
+    fetchPolicy: 'cache-first',
+  });
+
+  const candidates = useMemo<MentionCandidate[]>(
+    () =>
+      (data?.subject.members || [])
+        .filter((m) => m.user)
+        .map((m) => ({ id: m.user.id, username: m.user.username, avatarUrl: m.user.avatarUrl })),
+    [data]
+  );
+
+  const suggestions = useMemo(() => {
+    const query = getMentionQuery(input);
+    return query === null ? [] : getMentionSuggestions(query, candidates, user?.id);
+  }, [input, candidates, user?.id]);
+
+  const menuOpen = suggestions.length > 0 && dismissedInput !== input;
+  const activeIndex =
+    highlight.input === input ? Math.min(highlight.index, suggestions.length - 1) : 0;
+
+  /**
+   * Fill in the chosen member's username
+   */
+  const complete = useCallback(
+    (candidate: MentionCandidate) => {
+      setInput(completeMention(input, candidate.username));
+    },
+    [input, setInput]
+  );
+
+  /**
+   * Menu keyboard handling. Returns true if the key was used by the menu.
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (!menuOpen) return false;
+
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'ArrowUp': {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          const index = (activeIndex + step + suggestions.length) % suggestions.length;
+          setHighlight({ input, index });
+          return true;
+        }
+        case 'Tab':
+        case 'Enter':
+          if (e.shiftKey) return false;
+          e.preventDefault();
+          complete(suggestions[activeIndex]);
+          return true;
+        case 'Escape':
+          e.preventDefault();
+          setDismissedInput(input);
+          return true;
+        default:
+          return false;
+      }
+    },
+    [menuOpen, activeIndex, suggestions, input, complete]
+  );
+
+  return {
+    suggestions,
+    activeIndex,
+    menuOpen,
+    complete,
+    handleKeyDown,
+  };
+}
+
+export default useMentions;
@@ -0,0 +1,166 @@
+/**
+ * useOutbox Hook
+ *
+ * Sends one chat's messages through the persistent outbox (see
+ * lib/outbox.ts). Queued messages are delivered in order, again whenever the
+ * connection comes back, and on the next visit if the page was closed first.
+ * `deliver` inserts a row; it should treat a duplicate key as delivered.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { loadOutbox, removeOutboxEntry, saveOutboxEntry, type OutboxEntry } from '@/lib/outbox';
+import type { TypingChatType } from '@/types/database';
+
+export function useOutbox<Row extends { id: string }>(
+  subjectId: string,
+  chatType: TypingChatType,
+  deliver: (row: Row) => Promise<void>
+) {
+  const [entries, setEntries] = useState<OutboxEntry<Row>[]>([]);
+  // Kept in step with state so a running flush sees entries queued meanwhile
+  const entriesRef = useRef<OutboxEntry<Row>[]>([]);
+  const deliverRef = useRef(deliver);
+  const flushingRef = useRef(false);
+
+  useEffect(() => {
+    deliverRef.current = deliver;
+  });
+
+  const updateEntries = useCallback((update: (prev: OutboxEntry<Row>[]) => OutboxEntry<Row>[]) => {
+    entriesRef.current = update(entriesRef.current);
+    setEntries(entriesRef.current);
+  }, []);
+
+  /**
+   * Try to deliver one entry, marking it failed if that doesn't work
+   */
+  const attempt = useCallback(
+    async (entry: OutboxEntry<Row>) => {
+      try {
+        await deliverRef.current(entry.row);
+        await removeOutboxEntry(entry.id);
+        updateEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      } catch (err: unknown) {
+        const failed: OutboxEntry<Row> = {
+          ...entry,
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          error: err instanceof Error ? err.message : 'Failed to send',
+        };
+        console.error('Outbox delivery error:', err);
+        await saveOutboxEntry(failed);
+        updateEntries((prev) => prev.map((e) => (e.id === entry.id ? failed : e)));
+      }
+    },
+    [updateEntries]
+  );
+
+  /**
+   * Deliver pending entries in order, each at most once per flush
+   */
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      const tried = new Set<string>();
+      for (;;) {
+        const next = entriesRef.current.find((e) => e.status === 'pending' && !tried.has(e.id));
+        if (!next) break;
+        tried.add(next.id);
+        await attempt(next);
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [attempt]);
+
+  /**
+   * Mark failed entries pending again and deliver everything queued
+   */
+  const retryAll = useCallback(() => {
+    updateEntries((prev) => prev.map((e) => ({ ...e, status: 'pending' as const })));
+    return flush();
+  }, [updateEntries, flush]);
+
+  /**
+   * Queue a row and try to deliver it right away
+   */
+  const enqueue = useCallback(
+    async (row: Row) => {
+      const entry: OutboxEntry<Row> = {
+        id: row.id,
+        subjectId,
+        chatType,
+        row,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+
+      updateEntries((prev) => [...prev, entry]);
+      await saveOutboxEntry(entry);
+      await flush();
+    },
+    [subjectId, chatType, updateEntries, flush]
+  );
+
+  /**
+   * Try a failed entry again
+   */
+  const retry = useCallback(
+    (id: string) => {
+      updateEntries((prev) => prev.map((e) => (e.id === id ? { ...e, status: 'pending' } : e)));
+      return flush();
+    },
+    [updateEntries, flush]
+  );
+
+  /**
+   * Give up on an entry without sending it
+   */
+  const discard = useCallback(
+    async (id: string) => {
+      updateEntries((prev) => prev.filter((e) => e.id !== id));
+      await removeOutboxEntry(id);
+    },
+    [updateEntries]
+  );
+
+  // Pick up what an earlier visit left queued, and retry once back online
+  useEffect(() => {
+    let cancelled = false;
+
+    loadOutbox<Row>(subjectId, chatType).then((stored) => {
+      if (cancelled) return;
+      updateEntries((prev) => [
+        ...stored
+          .filter((s) => !prev.some((e) => e.id === s.id))
+          .map((s) => ({ ...s, status: 'pending' as const })),
+        ...prev,
+      ]);
+      flush();
+    });
+
+    const handleOnline = () => retryAll();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      entriesRef.current = [];
+      setEntries([]);
+    };
+  }, [subjectId, chatType, updateEntries, flush, retryAll]);
+
+  return {
+    entries,
+    enqueue,
+    retry,
+    discard,
+  };
+}
+
+export default useOutbox;
@@ -0,0 +1,113 @@
+/**
+ * usePollVotes Hook
+ *
+ * Votes on the polls in a subject's group chat, kept live with Supabase
+ * realtime. Voting again replaces the member's previous vote.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import type { PollVote } from '@/types/database';
+
+export function usePollVotes(subjectId: string) {
+  const { user } = useAuth();
+  const [votes, setVotes] = useState<PollVote[]>([]);
+
+  /**
+   * Add or replace a vote in local state
+   */
+  const applyVote = useCallback((vote: PollVote) => {
+    setVotes((prev) => [
+      ...prev.filter((v) => !(v.message_id === vote.message_id && v.user_id === vote.user_id)),
+      vote,
+    ]);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from('poll_votes')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Fetch poll votes error:', error);
+          return;
+        }
+        if (!cancelled) setVotes(data || []);
+      });
+
+    const channel = supabase
+      .channel(`poll_votes:${subjectId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'poll_votes',
+          filter: `subject_id=eq.${subjectId}`,
+        },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') applyVote(payload.new as PollVote);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [subjectId, applyVote]);
+
+  /**
+   * Votes grouped by poll message
+   */
+  const votesByMessage = useMemo(() => {
+    const map = new Map<string, PollVote[]>();
+    votes.forEach((vote) => {
+      map.set(vote.message_id, [...(map.get(vote.message_id) || []), vote]);
+    });
+    return map;
+  }, [votes]);
+
+  /**
+   * Vote for an option, replacing any earlier vote on the poll
+   */
+  const vote = useCallback(
+    async (messageId: string, optionIndex: number) => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('poll_votes')
+        .upsert(
+          {
+            message_id: messageId,
+            subject_id: subjectId,
+            user_id: user._id,
+            option_index: optionIndex,
+          },
+          { onConflict: 'message_id,user_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Poll vote error:', error);
+        return;
+      }
+      applyVote(data);
+    },
+    [user, subjectId, applyVote]
+  );
+
+  return {
+    votesByMessage,
+    vote,
+  };
+}
+
+export default usePollVotes;
@@ -0,0 +1,161 @@
+/**
+ * useReactions Hook
+ *
+ * Emoji reactions on the messages of one of a subject's chats, kept live
+ * with Supabase realtime. Reacting again with the same emoji removes it.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import type { MessageReaction, TypingChatType } from '@/types/database';
+
+/** Emojis offered by the reaction picker */
+export const QUICK_REACTIONS = ['👍', '👎', '❤️', '😂', '🎉', '🤔'];
+
+/**
+ * One emoji's reactions on a message
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  usernames: string[];
+  /** The current user reacted with this emoji */
+  reacted: boolean;
+}
+
+export function useReactions(subjectId: string, chatType: TypingChatType) {
+  const { user } = useAuth();
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+
+  /**
+   * Add a reaction to local state
+   */
+  const applyReaction = useCallback(
+    (reaction: MessageReaction) => {
+      if (reaction.chat_type !== chatType) return;
+      setReactions((prev) => [...prev.filter((r) => r.id !== reaction.id), reaction]);
+    },
+    [chatType]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from('message_reactions')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .eq('chat_type', chatType)
+      .order('created_at', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Fetch reactions error:', error);
+          return;
+        }
+        if (!cancelled) setReactions(data || []);
+      });
+
+    const channel = supabase
+      .channel(`message_reactions:${subjectId}:${chatType}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `subject_id=eq.${subjectId}`,
+        },
+        (payload) => applyReaction(payload.new as MessageReaction)
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered and only carry the id
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<MessageReaction>).id;
+          setReactions((prev) => prev.filter((r) => r.id !== deletedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [subjectId, chatType, applyReaction]);
+
+  /**
+   * Reactions grouped by message, then by emoji in the order first used
+   */
+  const reactionsByMessage = useMemo(() => {
+    const map = new Map<string, ReactionSummary[]>();
+    reactions.forEach((reaction) => {
+      const summaries = map.get(reaction.message_id) || [];
+      let summary = summaries.find((s) => s.emoji === reaction.emoji);
+      if (!summary) {
+        summary = { emoji: reaction.emoji, count: 0, usernames: [], reacted: false };
+        summaries.push(summary);
+      }
+      summary.count += 1;
+      summary.usernames.push(reaction.username);
+      if (reaction.user_id === user?._id) summary.reacted = true;
+      map.set(reaction.message_id, summaries);
+    });
+    return map;
+  }, [reactions, user?._id]);
+
+  /**
+   * Add the emoji, or remove it if the member already reacted with it.
+   * Returns whether the reaction is now on.
+   */
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string): Promise<boolean> => {
+      if (!user) return false;
+
+      const existing = reactions.find(
+        (r) => r.message_id === messageId && r.user_id === user._id && r.emoji === emoji
+      );
+
+      if (existing) {
+        const { error } = await supabase.from('message_reactions').delete().eq('id', existing.id);
+        if (error) {
+          console.error('Remove reaction error:', error);
+          return true;
+        }
+        setReactions((prev) => prev.filter((r) => r.id !== existing.id));
+        return false;
+      }
+
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .insert({
+          message_id: messageId,
+          chat_type: chatType,
+          subject_id: subjectId,
+          user_id: user._id,
+          username: user.username,
+          emoji,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Add reaction error:', error);
+        return false;
+      }
+      applyReaction(data as MessageReaction);
+      return true;
+    },
+    [user, reactions, subjectId, chatType, applyReaction]
+  );
+
+  return {
+    reactionsByMessage,
+    toggleReaction,
+  };
+}
+
+export default useReactions;
@@ -0,0 +1,174 @@
+/**
+ * useSlashCommands Hook
+ *
+ * Slash command support for a chat input: autocomplete menu state, keyboard
+ * navigation, parsing and permission checks (see lib/commands.ts). The chat
+ * supplies a handler per command it supports.
+ */
+
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useQuery } from '@apollo/client/react';
+import { useAuth } from '@/hooks/useAuth';
+import { GET_SUBJECT } from '@/lib/graphql/operations';
+import {
+  getActiveCommand,
+  getCommandSuggestions,
+  isSlashCommand,
+  parseSlashCommand,
+  type CommandArgs,
+  type CommandName,
+  type CommandSurface,
+  type SlashCommand,
+} from '@/lib/commands';
+import type { MemberRole } from '@/types/database';
+
+export type CommandHandlers = Partial<
+  Record<CommandName, (args: CommandArgs) => Promise<void> | void>
+>;
+
+interface SubjectMembersData {
+  subject: {
+    members?: Array<{ role: string; user: { id: string } }>;
+  };
+}
+
+interface UseSlashCommandsOptions {
+  subjectId: string;
+  surface: CommandSurface;
+  input: string;
+  setInput: (value: string) => void;
+  handlers: CommandHandlers;
+}
+
+export function useSlashCommands({
+  subjectId,
+  surface,
+  input,
+  setInput,
+  handlers,
+}: UseSlashCommandsOptions) {
+  const { user } = useAuth();
+  const [highlight, setHighlight] = useState({ input: '', index: 0 });
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+  const [failure, setFailure] = useState<{ input: string; message: string } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const { data } = useQuery<SubjectMembersData>(GET_SUBJECT, {
+    variables: { id: subjectId },
+    skip: !subjectId,
+    fetchPolicy: 'cache-first',
+  });
+
+  const role = useMemo<MemberRole | null>(() => {
+    const member = data?.subject.members?.find((m) => m.user?.id === user?.id);
+    return member ? (member.role.toLowerCase() as MemberRole) : null;
+  }, [data, user]);
+
+  const suggestions = useMemo(
+    () => getCommandSuggestions(input, surface, role),
+    [input, surface, role]
+  );
+  const activeCommand = useMemo(() => getActiveCommand(input, surface), [input, surface]);
+
+  const menuOpen = suggestions.length > 0 && dismissedInput !== input;
+  const activeIndex =
+    highlight.input === input ? Math.min(highlight.index, suggestions.length - 1) : 0;
+  // Errors stay up until the input changes
+  const error = failure?.input === input ? failure.message : null;
+
+  /**
+   * Fill in a command's name, ready for its arguments
+   */
+  const complete = useCallback(
+    (command: SlashCommand) => {
+      setInput(`/${command.name} `);
+    },
+    [setInput]
+  );
+
+  /**
+   * Menu keyboard handling. Returns true if the key was used by the menu.
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (!menuOpen) return false;
+
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'ArrowUp': {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          const index = (activeIndex + step + suggestions.length) % suggestions.length;
+          setHighlight({ input, index });
+          return true;
+        }
+        case 'Tab':
+        case 'Enter':
+          if (e.shiftKey) return false;
+          e.preventDefault();
+          complete(suggestions[activeIndex]);
+          return true;
+        case 'Escape':
+          e.preventDefault();
+          setDismissedInput(input);
+          return true;
+        default:
+          return false;
+      }
+    },
+    [menuOpen, activeIndex, suggestions, input, complete]
+  );
+
+  /**
+   * Run the input if it is a command. Returns false for ordinary messages.
+   * The input is cleared on success and kept, with the error shown, on failure.
+   */
+  const execute = useCallback(
+    async (value: string) => {
+      if (!isSlashCommand(value)) return false;
+
+      const parsed = parseSlashCommand(value, surface, role);
+      if (!parsed.ok) {
+        setFailure({ input: value, message: parsed.error });
+        return true;
+      }
+
+      const handler = handlers[parsed.command.name];
+      if (!handler) {
+        setFailure({ input: value, message: `/${parsed.command.name} is not available here` });
+        return true;
+      }
+
+      try {
+        setRunning(true);
+        await handler(parsed.args);
+        setInput('');
+      } catch (err: unknown) {
+        const e = err instanceof Error ? err : new Error('Unknown error');
+        console.error(`Command /${parsed.command.name} error:`, e);
+        setFailure({ input: value, message: e.message });
+      } finally {
+        setRunning(false);
+      }
+      return true;
+    },
+    [surface, role, handlers, setInput]
+  );
+
+  return {
+    role,
+    suggestions,
+    activeIndex,
+    activeCommand,
+    menuOpen,
+    error,
+    running,
+    complete,
+    handleKeyDown,
+    execute,
+  };
+}
+
+export default useSlashCommands;
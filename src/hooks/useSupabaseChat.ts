@@ -6,10 +6,18 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { createClient } from '@supabase/supabase-js';
+import { useMutation } from '@apollo/client/react';
 import { useAuth } from '@/hooks/useAuth';
 import { useCachedMessages } from '@/hooks/useCachedMessages';
+import { useOutbox } from '@/hooks/useOutbox';
+import { fetchMessageWindow, syncCachedMessage } from '@/services/chat.service';
+import { NOTIFY_MENTIONS } from '@/lib/graphql/operations';
+import { MAX_CACHED_MESSAGES } from '@/lib/messageCache';
+import { extractMentions } from '@/lib/mentions';
+import { DUPLICATE_KEY_ERROR, type OutboxStatus } from '@/lib/outbox';
+import type { FriendMessageMetadata, MessageType } from '@/types/database';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -22,8 +30,45 @@ interface Message {
   user_id: string;
   username: string;
   content: string;
-  message_type: 'text' | 'file' | 'image';
+  message_type: MessageType;
+  metadata?: FriendMessageMetadata | null;
+  reply_to_id?: string | null;
+  file_url?: string | null;
+  file_name?: string | null;
+  file_size?: number | null;
+  is_edited?: boolean;
+  edited_at?: string | null;
   created_at: string;
+  /** Set when the message is deleted while loaded, so it stays as a tombstone */
+  deleted?: boolean;
+  /** Set while the message is still in the outbox */
+  send_status?: OutboxStatus;
+}
+
+/** Row inserted when a message leaves the outbox */
+type MessageRow = Omit<
+  Message,
+  'created_at' | 'is_edited' | 'edited_at' | 'deleted' | 'send_status'
+>;
+
+/** Messages per history page; older pages load as the member scrolls up */
+const PAGE_SIZE = 100;
+
+/**
+ * An uploaded file sent with a file or image message
+ */
+export interface MessageAttachment {
+  url: string;
+  name: string;
+  size: number;
+}
+
+export interface SendMessageOptions {
+  messageType?: MessageType;
+  metadata?: FriendMessageMetadata | null;
+  /** Message this one replies to */
+  replyToId?: string | null;
+  file?: MessageAttachment | null;
 }
 
 export function useSupabaseChat(subjectId: string) {
@@ -33,11 +78,54 @@ export function useSupabaseChat(subjectId: string) {
     getFromCache,
     saveToCache,
     addMessageToCache,
-  } = useCachedMessages(subjectId);
+    updateMessageInCache,
+    removeMessageFromCache,
+  } = useCachedMessages<Message>(subjectId);
+  const [notifyMentionsMutation] = useMutation(NOTIFY_MENTIONS);
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  /**
+   * One page of messages older than the cursor (newest page without one), oldest first
+   */
+  const fetchPage = useCallback(
+    async (before?: string): Promise<Message[]> => {
+      let query = supabase
+        .from('friend_messages')
+        .select('*')
+        .eq('subject_id', subjectId)
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (before) query = query.lt('created_at', before);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setHasMore((data || []).length === PAGE_SIZE);
+      return (data || []).reverse();
+    },
+    [subjectId]
+  );
+
+  /**
+   * The newest messages from the server's shared cache, falling back to
+   * Supabase if it can't be reached
+   */
+  const fetchLatest = useCallback(async (): Promise<Message[]> => {
+    try {
+      const latest = await fetchMessageWindow<Message>(subjectId);
+      setHasMore(latest.length >= MAX_CACHED_MESSAGES);
+      return latest;
+    } catch (err) {
+      console.error('Message cache error, loading from Supabase:', err);
+      return fetchPage();
+    }
+  }, [subjectId, fetchPage]);
+
   /**
    * Fetch initial messages
    */
@@ -46,40 +134,16 @@ export function useSupabaseChat(subjectId: string) {
       setLoading(true);
       setError(null);
 
-      // Try to load from cache first
-      const cached = getFromCache();
+      // Show this browser's cached copy while the latest messages load
+      const cached = await getFromCache();
       if (cached && cached.length > 0) {
         setMessages(cached);
         setLoading(false);
-
-        // Still fetch from Supabase in background to get updates
-        const { data } = await supabase
-          .from('friend_messages')
-          .select('*')
-          .eq('subject_id', subjectId)
-          .order('created_at', { ascending: true })
-          .limit(100);
-
-        if (data && data.length > 0) {
-          setMessages(data);
-          saveToCache(data);
-        }
-        return;
       }
 
-      // No cache, fetch from Supabase
-      const { data, error: fetchError } = await supabase
-        .from('friend_messages')
-        .select('*')
-        .eq('subject_id', subjectId)
-        .order('created_at', { ascending: true })
-        .limit(100);
-
-      if (fetchError) throw fetchError;
-
-      const messageData = data || [];
-      setMessages(messageData);
-      saveToCache(messageData);
+      const latest = await fetchLatest();
+      setMessages(latest);
+      saveToCache(latest);
     } catch (err: unknown) {
       const e = err instanceof Error ? err : new Error('Unknown error');
       console.error('Fetch messages error:', e);
@@ -87,31 +151,180 @@ export function useSupabaseChat(subjectId: string) {
     } finally {
       setLoading(false);
     }
-  }, [subjectId, getFromCache, saveToCache]);
+  }, [fetchLatest, getFromCache, saveToCache]);
+
+  /**
+   * Load the page before the oldest loaded message
+   */
+  const loadOlder = useCallback(async () => {
+    const oldest = messages[0];
+    if (!oldest || loadingOlder || !hasMore) return;
+
+    try {
+      setLoadingOlder(true);
+      const older = await fetchPage(oldest.created_at);
+      setMessages((prev) => {
+        const loaded = new Set(prev.map((m) => m.id));
+        return [...older.filter((m) => !loaded.has(m.id)), ...prev];
+      });
+    } catch (err: unknown) {
+      const e = err instanceof Error ? err : new Error('Unknown error');
+      console.error('Load older messages error:', e);
+      setError(e.message);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [messages, loadingOlder, hasMore, fetchPage]);
+
+  /**
+   * Notify members @mentioned in a message; failures don't affect the message
+   */
+  const notifyMentions = useCallback(
+    (messageId: string, content: string) => {
+      if (extractMentions(content).length === 0) return;
+
+      notifyMentionsMutation({
+        variables: { input: { subjectId, messageId, chatType: 'FRIEND' } },
+      }).catch((err) => console.error('Mention notification error:', err));
+    },
+    [subjectId, notifyMentionsMutation]
+  );
+
+  /**
+   * Refresh a sent, edited or deleted message in the server's shared cache
+   */
+  const syncServerCache = useCallback(
+    (messageId: string) => {
+      syncCachedMessage(subjectId, messageId).catch((err) =>
+        console.error('Message cache sync error:', err)
+      );
+    },
+    [subjectId]
+  );
+
+  /**
+   * Add a message unless it is already shown (e.g. the realtime echo of our own)
+   */
+  const addMessage = useCallback(
+    (message: Message) => {
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      addMessageToCache(message);
+    },
+    [addMessageToCache]
+  );
+
+  /**
+   * Insert a message from the outbox
+   */
+  const deliverMessage = useCallback(
+    async (row: MessageRow) => {
+      const { data, error: insertError } = await supabase
+        .from('friend_messages')
+        .insert(row)
+        .select()
+        .single();
+
+      if (insertError) {
+        // An earlier attempt got through even though we never heard back
+        if (insertError.code === DUPLICATE_KEY_ERROR) return;
+        throw insertError;
+      }
+
+      addMessage(data);
+      syncServerCache(row.id);
+      if (row.message_type === 'text') notifyMentions(row.id, row.content);
+    },
+    [addMessage, syncServerCache, notifyMentions]
+  );
+
+  const {
+    entries: outboxEntries,
+    enqueue,
+    retry: retrySend,
+    discard: discardSend,
+  } = useOutbox<MessageRow>(subjectId, 'friend', deliverMessage);
 
   /**
-   * Send a message
+   * Send a message. It is queued in the outbox and shown right away; if it
+   * can't be delivered yet it is marked failed and retried later.
    */
   const sendMessage = useCallback(
-    async (content: string, messageType: 'text' | 'file' | 'image' = 'text') => {
+    async (
+      content: string,
+      {
+        messageType = 'text',
+        metadata = null,
+        replyToId = null,
+        file = null,
+      }: SendMessageOptions = {}
+    ) => {
+      if (!user?._id || !content.trim()) return;
+
+      await enqueue({
+        id: crypto.randomUUID(),
+        subject_id: subjectId,
+        user_id: user._id,
+        username: user.username,
+        content: content.trim(),
+        message_type: messageType,
+        metadata,
+        reply_to_id: replyToId,
+        file_url: file?.url ?? null,
+        file_name: file?.name ?? null,
+        file_size: file?.size ?? null,
+      });
+    },
+    [user, subjectId, enqueue]
+  );
+
+  /**
+   * Edit one of the current user's messages
+   */
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
       if (!user || !content.trim()) return;
 
       try {
-        const { error: insertError } = await supabase.from('friend_messages').insert({
-          subject_id: subjectId,
-          user_id: user._id,
-          username: user.username,
-          content: content.trim(),
-          message_type: messageType,
-        });
-
-        if (insertError) throw insertError;
+        const { error: updateError } = await supabase
+          .from('friend_messages')
+          .update({
+            content: content.trim(),
+            is_edited: true,
+            edited_at: new Date().toISOString(),
+          })
+          .eq('id', messageId)
+          .eq('user_id', user._id);
+
+        if (updateError) throw updateError;
+        syncServerCache(messageId);
+        notifyMentions(messageId, content);
+      } catch (err: unknown) {
+        console.error('Edit message error:', err);
+        throw err;
+      }
+    },
+    [user, syncServerCache, notifyMentions]
+  );
+
+  /**
+   * Delete a message. Callers check the user is its author or an owner/admin.
+   */
+  const deleteMessage = useCallback(
+    async (messageId: string) => {
+      try {
+        const { error: deleteError } = await supabase
+          .from('friend_messages')
+          .delete()
+          .eq('id', messageId);
+
+        if (deleteError) throw deleteError;
+        syncServerCache(messageId);
       } catch (err: unknown) {
-        console.error('Send message error:', err);
+        console.error('Delete message error:', err);
         throw err;
       }
     },
-    [user, subjectId]
+    [syncServerCache]
   );
 
   /**
@@ -130,10 +343,34 @@ export function useSupabaseChat(subjectId: string) {
           table: 'friend_messages',
           filter: `subject_id=eq.${subjectId}`,
         },
+        (payload) => addMessage(payload.new as Message)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'friend_messages',
+          filter: `subject_id=eq.${subjectId}`,
+        },
         (payload) => {
-          const newMessage = payload.new as Message;
-          setMessages((prev) => [...prev, newMessage]);
-          addMessageToCache(newMessage);
+          const updated = payload.new as Message;
+          setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)));
+          updateMessageInCache(updated.id, updated);
+        }
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered and only carry the id; other
+        // subjects' deletions simply match nothing here
+        { event: 'DELETE', schema: 'public', table: 'friend_messages' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<Message>).id;
+          if (!deletedId) return;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === deletedId ? { ...m, content: '', deleted: true } : m))
+          );
+          removeMessageFromCache(deletedId);
         }
       )
       .subscribe();
@@ -144,11 +381,27 @@ export function useSupabaseChat(subjectId: string) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [subjectId, fetchMessages]);
 
+  // Messages still in the outbox follow the delivered ones
+  const shownMessages = useMemo(() => {
+    const delivered = new Set(messages.map((m) => m.id));
+    const queued = outboxEntries
+      .filter((e) => !delivered.has(e.id))
+      .map((e): Message => ({ ...e.row, created_at: e.createdAt, send_status: e.status }));
+    return queued.length > 0 ? [...messages, ...queued] : messages;
+  }, [messages, outboxEntries]);
+
   return {
-    messages,
+    messages: shownMessages,
     loading,
+    loadingOlder,
+    hasMore,
     error,
+    loadOlder,
     sendMessage,
+    retrySend,
+    discardSend,
+    editMessage,
+    deleteMessage,
     refetch: fetchMessages,
   };
 }
@@ -0,0 +1,189 @@
+/**
+ * useTypingIndicator Hook
+ *
+ * Who is typing in one of a subject's chats, backed by the typing_indicators
+ * table and Supabase realtime. The member's own row is refreshed while they
+ * type and removed once they stop or send; rows nobody refreshes expire.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import type { TypingChatType, TypingIndicatorRow } from '@/types/database';
+
+/** Indicators not refreshed within this time are hidden (see cleanup_typing_indicators) */
+const TYPING_EXPIRY_MS = 10000;
+
+/** Minimum time between writes while the member keeps typing */
+const TYPING_REFRESH_MS = 3000;
+
+/** The member counts as stopped after this long without a keystroke */
+const TYPING_IDLE_MS = 4000;
+
+interface TypingEntry {
+  id: string;
+  userId: string;
+  username: string;
+  // Local receive time, so expiry doesn't depend on other members' clocks
+  receivedAt: number;
+}
+
+export function useTypingIndicator(subjectId: string, chatType: TypingChatType) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TypingEntry[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const lastSentRef = useRef(0);
+  const idleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Add or refresh a typing row in local state
+   */
+  const applyRow = useCallback(
+    (row: TypingIndicatorRow) => {
+      if (row.chat_type !== chatType) return;
+      setEntries((prev) => [
+        ...prev.filter((e) => e.id !== row.id && e.userId !== row.user_id),
+        { id: row.id, userId: row.user_id, username: row.username, receivedAt: Date.now() },
+      ]);
+    },
+    [chatType]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from('typing_indicators')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .eq('chat_type', chatType)
+      .gt('started_at', new Date(Date.now() - TYPING_EXPIRY_MS).toISOString())
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Fetch typing indicators error:', error);
+          return;
+        }
+        if (!cancelled) (data || []).forEach(applyRow);
+      });
+
+    const channel = supabase
+      .channel(`typing_indicators:${subjectId}:${chatType}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'typing_indicators',
+          filter: `subject_id=eq.${subjectId}`,
+        },
+        (payload) => applyRow(payload.new as TypingIndicatorRow)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'typing_indicators',
+          filter: `subject_id=eq.${subjectId}`,
+        },
+        (payload) => applyRow(payload.new as TypingIndicatorRow)
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered and only carry the id
+        { event: 'DELETE', schema: 'public', table: 'typing_indicators' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<TypingIndicatorRow>).id;
+          setEntries((prev) => prev.filter((e) => e.id !== deletedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [subjectId, chatType, applyRow]);
+
+  /**
+   * Re-check expiry while anyone is shown as typing
+   */
+  useEffect(() => {
+    if (entries.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 2000);
+    return () => clearInterval(interval);
+  }, [entries.length]);
+
+  /**
+   * Names of the other members typing, in the order they started
+   */
+  const typingUsers = useMemo(
+    () =>
+      entries
+        .filter((e) => e.userId !== user?._id && now - e.receivedAt < TYPING_EXPIRY_MS)
+        .map((e) => e.username),
+    [entries, now, user?._id]
+  );
+
+  /**
+   * Remove the member's typing row
+   */
+  const stopTyping = useCallback(() => {
+    if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = null;
+    if (!user || !lastSentRef.current) return;
+
+    lastSentRef.current = 0;
+    supabase
+      .from('typing_indicators')
+      .delete()
+      .eq('subject_id', subjectId)
+      .eq('user_id', user._id)
+      .eq('chat_type', chatType)
+      .then(({ error }) => {
+        if (error) console.error('Clear typing indicator error:', error);
+      });
+  }, [user, subjectId, chatType]);
+
+  /**
+   * Call on each keystroke; writes at most once per TYPING_REFRESH_MS
+   */
+  const notifyTyping = useCallback(() => {
+    if (!user) return;
+
+    if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+
+    if (Date.now() - lastSentRef.current < TYPING_REFRESH_MS) return;
+    lastSentRef.current = Date.now();
+
+    supabase
+      .from('typing_indicators')
+      .upsert(
+        {
+          subject_id: subjectId,
+          user_id: user._id,
+          username: user.username,
+          chat_type: chatType,
+          started_at: new Date().toISOString(),
+        },
+        { onConflict: 'subject_id,user_id,chat_type' }
+      )
+      .then(({ error }) => {
+        if (error) console.error('Typing indicator error:', error);
+      });
+  }, [user, subjectId, chatType, stopTyping]);
+
+  // Clear the member's row when they leave the chat
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return {
+    typingUsers,
+    notifyTyping,
+    stopTyping,
+  };
+}
+
+export default useTypingIndicator;
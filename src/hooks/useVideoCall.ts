@@ -1,13 +1,27 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { useLiveKit, Participant } from './useLiveKit';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useLiveKit, Participant, type VideoRole } from './useLiveKit';
+import { useCallCaptions } from './useCallCaptions';
 import { Track } from 'livekit-client';
+import {
+  CAPTION_DURATION,
+  MAX_CALL_CHAT_LENGTH,
+  REACTION_DURATION,
+  updateHandQueue,
+  type CallCaption,
+  type CallChatMessage,
+  type CallDataMessage,
+  type CallReaction,
+  type RaisedHand,
+} from '@/lib/callData';
 
 interface UseVideoCallOptions {
   subjectId: string;
   username: string;
   autoJoin?: boolean;
+  /** Join without publishing audio or video */
+  listener?: boolean;
 }
 
 interface VideoCallState {
@@ -17,15 +31,113 @@ interface VideoCallState {
   isMuted: boolean;
   isCameraOff: boolean;
   isScreenSharing: boolean;
+  videoRole: VideoRole | null;
+  canPublish: boolean;
+  /** Room is locked to new members */
+  isLocked: boolean;
+  /** Call is being recorded to the Canvas */
+  isRecording: boolean;
+  /** Live captions are on; everyone who can speak is transcribed */
+  isCaptioning: boolean;
   activeSpeaker: string | null;
   screenShareTrack: Track | null;
+  /** Raised hands of participants in the call, in the order they were raised */
+  raisedHands: RaisedHand[];
+  isHandRaised: boolean;
+  /** Reactions currently showing over participants' tiles */
+  reactions: CallReaction[];
+  chatMessages: CallChatMessage[];
+  /** Latest caption of each participant who spoke recently */
+  captions: CallCaption[];
 }
 
-export function useVideoCall({ subjectId, username, autoJoin = false }: UseVideoCallOptions) {
-  const livekit = useLiveKit({ roomName: subjectId, username });
+export function useVideoCall({
+  subjectId,
+  username,
+  autoJoin = false,
+  listener = false,
+}: UseVideoCallOptions) {
+  const [raisedHands, setRaisedHands] = useState<RaisedHand[]>([]);
+  const [reactions, setReactions] = useState<CallReaction[]>([]);
+  const [chatMessages, setChatMessages] = useState<CallChatMessage[]>([]);
+  const [captions, setCaptions] = useState<CallCaption[]>([]);
+
+  /**
+   * Show a reaction over a participant's tile for a few seconds
+   */
+  const showReaction = useCallback((identity: string, emoji: string) => {
+    const id = crypto.randomUUID();
+    setReactions((prev) => [...prev, { id, identity, emoji }]);
+    setTimeout(() => {
+      setReactions((prev) => prev.filter((r) => r.id !== id));
+    }, REACTION_DURATION);
+  }, []);
+
+  /**
+   * Show a participant's latest caption under their tile until they go quiet
+   */
+  const showCaption = useCallback((identity: string, text: string, spokenAt: number) => {
+    setCaptions((prev) => {
+      const current = prev.find((c) => c.identity === identity);
+      // Clips can be transcribed out of order; keep the newest
+      if (current && current.spokenAt > spokenAt) return prev;
+      return [...prev.filter((c) => c.identity !== identity), { identity, text, spokenAt }];
+    });
+    setTimeout(() => {
+      setCaptions((prev) => prev.filter((c) => c.identity !== identity || c.spokenAt !== spokenAt));
+    }, CAPTION_DURATION);
+  }, []);
+
+  /**
+   * Apply a data message from another participant
+   */
+  const handleDataMessage = useCallback(
+    (message: CallDataMessage, identity: string) => {
+      switch (message.type) {
+        case 'hand':
+          setRaisedHands((prev) =>
+            updateHandQueue(prev, identity, message.raised, message.raisedAt)
+          );
+          break;
+        case 'reaction':
+          showReaction(identity, message.emoji);
+          break;
+        case 'chat':
+          setChatMessages((prev) =>
+            prev.some((m) => m.id === message.id)
+              ? prev
+              : [
+                  ...prev,
+                  {
+                    id: message.id,
+                    identity,
+                    text: message.text,
+                    sentAt: message.sentAt,
+                    isLocal: false,
+                  },
+                ]
+          );
+          break;
+        case 'caption':
+          showCaption(identity, message.text, message.spokenAt);
+          break;
+      }
+    },
+    [showReaction, showCaption]
+  );
+
+  const livekit = useLiveKit({ subjectId, username, listener, onDataMessage: handleDataMessage });
+  const { connect, publishData } = livekit;
 
   const [activeSpeaker, setActiveSpeaker] = useState<string | null>(null);
   const [pinnedParticipant, setPinnedParticipant] = useState<string | null>(null);
+  // Identities already in the call, to spot who joined since the last render
+  const knownIdentitiesRef = useRef<Set<string>>(new Set());
+
+  // Hands of participants who left drop out of the queue
+  const presentIdentities = new Set(livekit.participants.map((p) => p.username));
+  const handQueue = raisedHands.filter((hand) => presentIdentities.has(hand.identity));
+  const myHand = handQueue.find((hand) => hand.identity === username) || null;
 
   /**
    * Track active speaker
@@ -37,6 +149,20 @@ export function useVideoCall({ subjectId, username, autoJoin = false }: UseVideo
     }
   }, [livekit.participants, activeSpeaker]);
 
+  /**
+   * Tell participants who join while our hand is up, so their queue matches
+   */
+  useEffect(() => {
+    const identities = livekit.participants.filter((p) => !p.isLocal).map((p) => p.username);
+    const joined = identities.filter((identity) => !knownIdentitiesRef.current.has(identity));
+    knownIdentitiesRef.current = new Set(identities);
+
+    if (myHand && joined.length > 0) {
+      publishData({ type: 'hand', raised: true, raisedAt: myHand.raisedAt }, { to: joined });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [livekit.participants]);
+
   /**
    * Auto-join on mount if enabled
    */
@@ -52,6 +178,25 @@ export function useVideoCall({ subjectId, username, autoJoin = false }: UseVideo
    */
   const localParticipant = livekit.participants.find((p) => p.isLocal) || null;
 
+  /**
+   * Caption our own microphone while captions are on and we're unmuted
+   */
+  const publishCaption = useCallback(
+    (text: string, spokenAt: number) => {
+      showCaption(username, text, spokenAt);
+      publishData({ type: 'caption', text, spokenAt });
+    },
+    [showCaption, username, publishData]
+  );
+
+  useCallCaptions({
+    subjectId,
+    track: localParticipant?.audioTrack?.mediaStreamTrack ?? null,
+    enabled: livekit.isConnected && livekit.isCaptioning && livekit.canPublish && !livekit.isMuted,
+    isSpeaking: !!localParticipant?.isSpeaking,
+    onCaption: publishCaption,
+  });
+
   /**
    * Get remote participants
    */
@@ -93,6 +238,53 @@ export function useVideoCall({ subjectId, username, autoJoin = false }: UseVideo
     setPinnedParticipant(participantId);
   }, []);
 
+  /**
+   * Join the call with a fresh hand queue, reactions, side chat and captions
+   */
+  const join = useCallback(() => {
+    setRaisedHands([]);
+    setReactions([]);
+    setChatMessages([]);
+    setCaptions([]);
+    return connect();
+  }, [connect]);
+
+  /**
+   * Raise or lower our hand
+   */
+  const toggleHand = useCallback(() => {
+    const raised = !myHand;
+    const raisedAt = Date.now();
+    setRaisedHands((prev) => updateHandQueue(prev, username, raised, raisedAt));
+    publishData({ type: 'hand', raised, raisedAt });
+  }, [myHand, username, publishData]);
+
+  /**
+   * Send a reaction; reactions are lossy, a dropped one doesn't matter
+   */
+  const sendReaction = useCallback(
+    (emoji: string) => {
+      showReaction(username, emoji);
+      publishData({ type: 'reaction', emoji }, { reliable: false });
+    },
+    [showReaction, username, publishData]
+  );
+
+  /**
+   * Send a message to the in-call side chat
+   */
+  const sendChatMessage = useCallback(
+    (content: string) => {
+      const text = content.trim().slice(0, MAX_CALL_CHAT_LENGTH);
+      if (!text) return;
+
+      const message = { id: crypto.randomUUID(), text, sentAt: Date.now() };
+      setChatMessages((prev) => [...prev, { ...message, identity: username, isLocal: true }]);
+      publishData({ type: 'chat', ...message });
+    },
+    [username, publishData]
+  );
+
   /**
    * Get call state
    */
@@ -103,19 +295,38 @@ export function useVideoCall({ subjectId, username, autoJoin = false }: UseVideo
     isMuted: livekit.isMuted,
     isCameraOff: livekit.isCameraOff,
     isScreenSharing: livekit.isScreenSharing,
+    videoRole: livekit.videoRole,
+    canPublish: livekit.canPublish,
+    isLocked: livekit.isLocked,
+    isRecording: livekit.isRecording,
+    isCaptioning: livekit.isCaptioning,
     activeSpeaker,
     screenShareTrack: livekit.screenShareTrack,
+    raisedHands: handQueue,
+    isHandRaised: !!myHand,
+    reactions,
+    chatMessages,
+    captions,
   };
 
   /**
    * Call actions
    */
   const callActions = {
-    join: livekit.connect,
+    join,
     leave: livekit.disconnect,
     toggleMute: livekit.toggleMute,
     toggleCamera: livekit.toggleCamera,
     toggleScreenShare: livekit.toggleScreenShare,
+    kickParticipant: livekit.kickParticipant,
+    muteParticipant: livekit.muteParticipant,
+    muteAll: livekit.muteAll,
+    toggleLock: livekit.toggleLock,
+    toggleRecording: livekit.toggleRecording,
+    toggleCaptions: livekit.toggleCaptions,
+    toggleHand,
+    sendReaction,
+    sendChatMessage,
     pinParticipant,
   };
 
@@ -0,0 +1,160 @@
+/**
+ * AI Request Queue (server only)
+ *
+ * Serialises AI tutor requests per subject so members asking at the same time
+ * are answered one after another instead of in parallel. Every change to a
+ * subject's queue is broadcast as an `ai_queue` event on the subject's
+ * `ai_messages:<subjectId>` Supabase channel.
+ *
+ * Queues are held in memory by the Next.js server process, so requests for a
+ * subject must be served by a single instance.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+/**
+ * A request in a subject's AI queue
+ */
+export interface AIQueueEntry {
+  userId: string;
+  username: string;
+  messageId: string;
+}
+
+/**
+ * Queue of AI requests for a subject; one request is answered at a time
+ */
+export interface AIQueueSnapshot {
+  subjectId: string;
+  active: AIQueueEntry | null;
+  waiting: AIQueueEntry[];
+}
+
+interface QueuedRequest extends AIQueueEntry {
+  /** Server-generated; only the asker learns it, so only they can withdraw it */
+  requestId: string;
+  start: () => void;
+  cancel: () => void;
+}
+
+interface SubjectQueue {
+  active: QueuedRequest | null;
+  waiting: QueuedRequest[];
+}
+
+export interface AIQueueTicket {
+  /** Resolves with true when it is this request's turn, or false if it was cancelled */
+  turn: Promise<boolean>;
+  /** Position in line when enqueued (0 means it starts immediately) */
+  position: number;
+}
+
+const queues = new Map<string, SubjectQueue>();
+
+function toEntry({ userId, username, messageId }: QueuedRequest): AIQueueEntry {
+  return { userId, username, messageId };
+}
+
+/**
+ * Get the current queue for a subject
+ */
+export function getQueueSnapshot(subjectId: string): AIQueueSnapshot {
+  const queue = queues.get(subjectId);
+
+  return {
+    subjectId,
+    active: queue?.active ? toEntry(queue.active) : null,
+    waiting: queue?.waiting.map(toEntry) || [],
+  };
+}
+
+async function broadcast(subjectId: string) {
+  const channel = supabaseAdmin.channel(`ai_messages:${subjectId}`);
+  try {
+    const result = await channel.httpSend('ai_queue', getQueueSnapshot(subjectId));
+    if (!result.success) {
+      console.error('AI queue broadcast error:', result.error);
+    }
+  } catch (error) {
+    console.error('AI queue broadcast error:', error);
+  } finally {
+    supabaseAdmin.removeChannel(channel);
+  }
+}
+
+/**
+ * Start the next waiting request, or drop the subject's queue when it is empty
+ */
+function advance(subjectId: string, queue: SubjectQueue) {
+  queue.active = queue.waiting.shift() || null;
+
+  if (queue.active) {
+    queue.active.start();
+  } else {
+    queues.delete(subjectId);
+  }
+}
+
+/**
+ * Add a request to a subject's queue
+ */
+export function enqueue(
+  subjectId: string,
+  entry: AIQueueEntry & { requestId: string }
+): AIQueueTicket {
+  let queue = queues.get(subjectId);
+  if (!queue) {
+    queue = { active: null, waiting: [] };
+    queues.set(subjectId, queue);
+  }
+
+  let start!: () => void;
+  let cancel!: () => void;
+  const turn = new Promise<boolean>((resolve) => {
+    start = () => resolve(true);
+    cancel = () => resolve(false);
+  });
+
+  const request: QueuedRequest = { ...entry, start, cancel };
+  let position = 0;
+
+  if (!queue.active) {
+    queue.active = request;
+    request.start();
+  } else {
+    queue.waiting.push(request);
+    position = queue.waiting.length;
+  }
+
+  void broadcast(subjectId);
+  return { turn, position };
+}
+
+/**
+ * Finish the active request and hand the tutor to the next in line
+ */
+export function release(subjectId: string, requestId: string, userId: string) {
+  const queue = queues.get(subjectId);
+  if (!queue || queue.active?.requestId !== requestId || queue.active.userId !== userId) return;
+
+  advance(subjectId, queue);
+  void broadcast(subjectId);
+}
+
+/**
+ * Remove a waiting request. Only the asker may cancel, and only before its turn.
+ * Returns false if the request is not waiting in the queue.
+ */
+export function cancel(subjectId: string, requestId: string, userId: string): boolean {
+  const queue = queues.get(subjectId);
+  if (!queue) return false;
+
+  const index = queue.waiting.findIndex((r) => r.requestId === requestId && r.userId === userId);
+  if (index === -1) return false;
+
+  const [request] = queue.waiting.splice(index, 1);
+  request.cancel();
+
+  void broadcast(subjectId);
+  return true;
+}
@@ -0,0 +1,10 @@
+/**
+ * Route Handler Responses
+ *
+ * JSON helpers for Next.js route handlers, matching the backend's
+ * `{ success, message, data }` response shape.
+ */
+
+export function jsonError(status: number, message: string) {
+  return Response.json({ success: false, message }, { status });
+}
@@ -0,0 +1,134 @@
+/**
+ * Call Data Messages
+ *
+ * Protocol for the messages participants exchange over a video call's LiveKit
+ * data channel: raised hands, emoji reactions, the in-call side chat and live
+ * captions. The sender is always the LiveKit participant the message arrives
+ * from, so messages never name themselves. Client-safe.
+ */
+
+/** Topic the messages are published under, so other data can share the room */
+export const CALL_DATA_TOPIC = 'call';
+
+/** Reactions members can send during a call */
+export const CALL_REACTIONS = ['👍', '👏', '😂', '❤️', '🎉', '😮'];
+
+/** How long a reaction stays over the sender's tile */
+export const REACTION_DURATION = 4000;
+
+export const MAX_CALL_CHAT_LENGTH = 500;
+
+/** How long a caption stays under the speaker's tile once nothing new arrives */
+export const CAPTION_DURATION = 8000;
+
+export type CallDataMessage =
+  /** `raisedAt` orders the hand queue; it is resent to participants who join later */
+  | { type: 'hand'; raised: boolean; raisedAt: number }
+  | { type: 'reaction'; emoji: string }
+  | { type: 'chat'; id: string; text: string; sentAt: number }
+  /** Transcription of the sender's microphone, one clip at a time */
+  | { type: 'caption'; text: string; spokenAt: number };
+
+/**
+ * A raised hand, in queue order by `raisedAt`
+ */
+export interface RaisedHand {
+  identity: string;
+  raisedAt: number;
+}
+
+/**
+ * A reaction currently showing over a participant's tile
+ */
+export interface CallReaction {
+  id: string;
+  identity: string;
+  emoji: string;
+}
+
+/**
+ * A message in the in-call side chat
+ */
+export interface CallChatMessage {
+  id: string;
+  identity: string;
+  text: string;
+  sentAt: number;
+  isLocal: boolean;
+}
+
+/**
+ * The latest caption of a participant, showing under their tile
+ */
+export interface CallCaption {
+  identity: string;
+  text: string;
+  spokenAt: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeCallData(message: CallDataMessage): Uint8Array {
+  return encoder.encode(JSON.stringify(message));
+}
+
+/**
+ * Parse a data packet, or null when it isn't a valid call message
+ */
+export function decodeCallData(payload: Uint8Array): CallDataMessage | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(decoder.decode(payload));
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+
+  switch (data.type) {
+    case 'hand':
+      return typeof data.raised === 'boolean' && typeof data.raisedAt === 'number'
+        ? { type: 'hand', raised: data.raised, raisedAt: data.raisedAt }
+        : null;
+    case 'reaction':
+      return typeof data.emoji === 'string' && CALL_REACTIONS.includes(data.emoji)
+        ? { type: 'reaction', emoji: data.emoji }
+        : null;
+    case 'chat':
+      return typeof data.id === 'string' &&
+        typeof data.text === 'string' &&
+        data.text.trim() &&
+        typeof data.sentAt === 'number'
+        ? {
+            type: 'chat',
+            id: data.id,
+            text: data.text.slice(0, MAX_CALL_CHAT_LENGTH),
+            sentAt: data.sentAt,
+          }
+        : null;
+    case 'caption':
+      return typeof data.text === 'string' && data.text.trim() && typeof data.spokenAt === 'number'
+        ? {
+            type: 'caption',
+            text: data.text.slice(0, MAX_CALL_CHAT_LENGTH),
+            spokenAt: data.spokenAt,
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Add, move or remove a participant's hand and keep the queue in order
+ */
+export function updateHandQueue(
+  queue: RaisedHand[],
+  identity: string,
+  raised: boolean,
+  raisedAt: number
+): RaisedHand[] {
+  const rest = queue.filter((hand) => hand.identity !== identity);
+  if (!raised) return rest;
+  return [...rest, { identity, raisedAt }].sort((a, b) => a.raisedAt - b.raisedAt);
+}
@@ -0,0 +1,235 @@
+/**
+ * Slash Commands
+ *
+ * Registry and parser for the commands members can type in the chat inputs.
+ * Each command declares its arguments, the chats it works in and the member
+ * roles allowed to run it; the chats supply the handlers (see
+ * hooks/useSlashCommands.ts). Client-safe.
+ */
+
+import type { MemberRole } from '@/types/database';
+
+export type CommandSurface = 'friends' | 'ai';
+
+export type CommandName = 'ask' | 'poll' | 'code' | 'summarize' | 'call';
+
+export interface CommandArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  /** Takes the rest of the input, new lines included */
+  rest?: boolean;
+  choices?: string[];
+}
+
+export interface SlashCommand {
+  name: CommandName;
+  description: string;
+  args: CommandArgument[];
+  /** Arguments are split on this instead of whitespace */
+  separator?: string;
+  surfaces: CommandSurface[];
+  roles: MemberRole[];
+  /** Extra checks on the parsed arguments; returns an error message */
+  validate?: (args: CommandArgs) => string | null;
+}
+
+export type CommandArgs = Record<string, string>;
+
+export type ParsedCommand =
+  | { ok: true; command: SlashCommand; args: CommandArgs }
+  | { ok: false; error: string };
+
+export const MAX_POLL_OPTIONS = 10;
+
+const ALL_ROLES: MemberRole[] = ['owner', 'admin', 'member'];
+
+/**
+ * Split poll options typed as "A | B | C"
+ */
+export function splitPollOptions(options: string): string[] {
+  return options
+    .split('|')
+    .map((o) => o.trim())
+    .filter(Boolean);
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'ask',
+    description: 'Ask the AI tutor a question from the group chat',
+    args: [{ name: 'question', description: 'What to ask', required: true, rest: true }],
+    surfaces: ['friends'],
+    roles: ALL_ROLES,
+  },
+  {
+    name: 'poll',
+    description: 'Start a poll, e.g. /poll Study when? | Tonight | Tomorrow',
+    args: [
+      { name: 'question', description: 'Poll question', required: true },
+      { name: 'options', description: 'Options separated by |', required: true, rest: true },
+    ],
+    separator: '|',
+    surfaces: ['friends'],
+    roles: ALL_ROLES,
+    validate: (args) => {
+      const count = splitPollOptions(args.options).length;
+      if (count < 2) return 'A poll needs at least 2 options';
+      if (count > MAX_POLL_OPTIONS) return `A poll can have at most ${MAX_POLL_OPTIONS} options`;
+      return null;
+    },
+  },
+  {
+    name: 'code',
+    description: 'Share a formatted code snippet',
+    args: [
+      { name: 'lang', description: 'Language, e.g. ts or python', required: true },
+      {
+        name: 'code',
+        description: 'The code, on the same line or the next ones',
+        required: true,
+        rest: true,
+      },
+    ],
+    surfaces: ['friends', 'ai'],
+    roles: ALL_ROLES,
+  },
+  {
+    name: 'summarize',
+    description: 'Have the tutor summarize the discussion so far',
+    args: [],
+    surfaces: ['friends', 'ai'],
+    roles: ['owner', 'admin'],
+  },
+  {
+    name: 'call',
+    description: 'Start a call with the group',
+    args: [{ name: 'mode', description: 'video or audio', choices: ['video', 'audio'] }],
+    surfaces: ['friends', 'ai'],
+    roles: ALL_ROLES,
+  },
+];
+
+/**
+ * Whether a member with this role can run the command in this chat
+ */
+export function canRunCommand(
+  command: SlashCommand,
+  surface: CommandSurface,
+  role: MemberRole | null
+): boolean {
+  return command.surfaces.includes(surface) && !!role && command.roles.includes(role);
+}
+
+/**
+ * Usage line for a command, e.g. "/code <lang> <code>"
+ */
+export function formatCommandUsage(command: SlashCommand): string {
+  const args = command.args.map((arg) => (arg.required ? `<${arg.name}>` : `[${arg.name}]`));
+  const joined = args.join(command.separator ? ` ${command.separator} ` : ' ');
+  return joined ? `/${command.name} ${joined}` : `/${command.name}`;
+}
+
+/**
+ * Commands matching a partly typed name, for autocomplete.
+ * Returns nothing once the name is complete and arguments are being typed.
+ */
+export function getCommandSuggestions(
+  input: string,
+  surface: CommandSurface,
+  role: MemberRole | null
+): SlashCommand[] {
+  const match = input.match(/^\/(\w*)$/);
+  if (!match) return [];
+
+  const prefix = match[1].toLowerCase();
+  return SLASH_COMMANDS.filter(
+    (command) => command.name.startsWith(prefix) && canRunCommand(command, surface, role)
+  );
+}
+
+/**
+ * The command whose arguments are being typed, for showing its usage
+ */
+export function getActiveCommand(input: string, surface: CommandSurface): SlashCommand | null {
+  const match = input.match(/^\/(\w+)\s/);
+  if (!match) return null;
+
+  return (
+    SLASH_COMMANDS.find((c) => c.name === match[1].toLowerCase() && c.surfaces.includes(surface)) ||
+    null
+  );
+}
+
+/**
+ * Whether the input is a command rather than a message. Only registered
+ * command names count; anything else, like "/shrug" or "/usr/bin", is sent
+ * as text.
+ */
+export function isSlashCommand(input: string): boolean {
+  const match = input.trimStart().match(/^\/(\w+)(?:\s|$)/);
+  return Boolean(match && SLASH_COMMANDS.some((c) => c.name === match[1].toLowerCase()));
+}
+
+/**
+ * Parse a typed command and check the member may run it here
+ */
+export function parseSlashCommand(
+  input: string,
+  surface: CommandSurface,
+  role: MemberRole | null
+): ParsedCommand {
+  const match = input.trimStart().match(/^\/(\w+)(?:[ \t]+|\n|$)([\s\S]*)$/);
+  if (!match) return { ok: false, error: 'Not a command' };
+
+  const name = match[1].toLowerCase();
+  const command = SLASH_COMMANDS.find((c) => c.name === name);
+  if (!command || !command.surfaces.includes(surface)) {
+    return { ok: false, error: `Unknown command /${name}` };
+  }
+  if (!canRunCommand(command, surface, role)) {
+    return { ok: false, error: `You don't have permission to use /${name}` };
+  }
+
+  let rest = match[2];
+  const args: CommandArgs = {};
+
+  for (const arg of command.args) {
+    let value: string;
+    if (arg.rest) {
+      value = rest.trim();
+      rest = '';
+    } else if (command.separator) {
+      const index = rest.indexOf(command.separator);
+      value = (index === -1 ? rest : rest.slice(0, index)).trim();
+      rest = index === -1 ? '' : rest.slice(index + command.separator.length);
+    } else {
+      const token = rest.match(/^[ \t]*(\S*)/)!;
+      value = token[1];
+      rest = rest.slice(token[0].length).replace(/^[ \t]*\n?/, '');
+    }
+
+    if (!value) {
+      if (arg.required) {
+        return { ok: false, error: `Missing ${arg.name}. Usage: ${formatCommandUsage(command)}` };
+      }
+      continue;
+    }
+    if (arg.choices && !arg.choices.includes(value.toLowerCase())) {
+      return { ok: false, error: `${arg.name} must be one of: ${arg.choices.join(', ')}` };
+    }
+    args[arg.name] = arg.choices ? value.toLowerCase() : value;
+  }
+
+  const error = command.validate?.(args);
+  if (error) return { ok: false, error };
+
+  return { ok: true, command, args };
+}
+
+/**
+ * Wrap code in a Markdown fence so the chats render it as a code block
+ */
+export function formatCodeBlock(lang: string, code: string): string {
+  return `\`\`\`${lang}\n${code}\n\`\`\``;
+}
@@ -72,6 +72,12 @@ export const ARTIFACT_FIELDS = gql`
     displaySize
     language
     diagramType
+    recording {
+      durationSeconds
+      participants
+      startedAt
+      endedAt
+    }
     isAiGenerated
     viewCount
     downloadCount
@@ -99,6 +105,8 @@ export const NOTIFICATION_FIELDS = gql`
       subjectId
       subjectName
       artifactId
+      messageId
+      chatType
     }
     fromUser {
       id
@@ -274,6 +282,12 @@ export const GET_SUBJECT = gql`
   query GetSubject($id: ID!) {
     subject(id: $id) {
       ...SubjectFields
+      aiProvider
+      aiModel
+      aiPersona
+      aiDifficulty
+      aiLanguage
+      aiInstructions
       owner {
         ...UserFields
       }
@@ -545,6 +559,45 @@ export const TRACK_ARTIFACT_DOWNLOAD = gql`
   }
 `;
 
+// =============================================================================
+// QUIZ OPERATIONS
+// =============================================================================
+
+/**
+ * Get each member's scores on a quiz
+ */
+export const GET_QUIZ_SCORES = gql`
+  query GetQuizScores($artifactId: ID!) {
+    quizScores(artifactId: $artifactId) {
+      bestScore
+      lastScore
+      total
+      attempts
+      lastAttemptAt
+      user {
+        id
+        username
+        avatarUrl
+      }
+    }
+  }
+`;
+
+/**
+ * Grade and record a quiz or flashcard attempt
+ */
+export const SUBMIT_QUIZ_ATTEMPT = gql`
+  mutation SubmitQuizAttempt($input: SubmitQuizAttemptInput!) {
+    submitQuizAttempt(input: $input) {
+      id
+      score
+      total
+      results
+      createdAt
+    }
+  }
+`;
+
 // =============================================================================
 // NOTIFICATION QUERIES
 // =============================================================================
@@ -615,6 +668,18 @@ export const DELETE_NOTIFICATION = gql`
   }
 `;
 
+/**
+ * Notify the members mentioned in a chat message
+ */
+export const NOTIFY_MENTIONS = gql`
+  mutation NotifyMentions($input: NotifyMentionsInput!) {
+    notifyMentions(input: $input) {
+      success
+      message
+    }
+  }
+`;
+
 // =============================================================================
 // VIDEO MUTATIONS
 // =============================================================================
@@ -623,10 +688,96 @@ export const DELETE_NOTIFICATION = gql`
  * Generate video token
  */
 export const GENERATE_VIDEO_TOKEN = gql`
-  mutation GenerateVideoToken($roomName: String!) {
-    generateVideoToken(roomName: $roomName) {
+  mutation GenerateVideoToken($subjectId: ID!, $listener: Boolean) {
+    generateVideoToken(subjectId: $subjectId, listener: $listener) {
       success
       token
+      roomName
+      role
+    }
+  }
+`;
+
+/**
+ * Remove a participant from a subject's call
+ */
+export const KICK_VIDEO_PARTICIPANT = gql`
+  mutation KickVideoParticipant($subjectId: ID!, $identity: String!) {
+    kickVideoParticipant(subjectId: $subjectId, identity: $identity) {
+      success
+      message
+    }
+  }
+`;
+
+/**
+ * Mute all of a participant's tracks
+ */
+export const MUTE_VIDEO_PARTICIPANT = gql`
+  mutation MuteVideoParticipant($subjectId: ID!, $identity: String!) {
+    muteVideoParticipant(subjectId: $subjectId, identity: $identity) {
+      success
+      message
+    }
+  }
+`;
+
+/**
+ * Mute every microphone in a subject's call but the caller's
+ */
+export const MUTE_ALL_VIDEO_PARTICIPANTS = gql`
+  mutation MuteAllVideoParticipants($subjectId: ID!) {
+    muteAllVideoParticipants(subjectId: $subjectId) {
+      success
+      message
+    }
+  }
+`;
+
+/**
+ * Lock or unlock a subject's call to new members
+ */
+export const SET_VIDEO_ROOM_LOCKED = gql`
+  mutation SetVideoRoomLocked($subjectId: ID!, $locked: Boolean!) {
+    setVideoRoomLocked(subjectId: $subjectId, locked: $locked) {
+      success
+      message
+    }
+  }
+`;
+
+/**
+ * Turn live captions on or off for everyone in a subject's call
+ */
+export const SET_VIDEO_CAPTIONS = gql`
+  mutation SetVideoCaptions($subjectId: ID!, $enabled: Boolean!) {
+    setVideoCaptions(subjectId: $subjectId, enabled: $enabled) {
+      success
+      message
+    }
+  }
+`;
+
+/**
+ * Start recording a subject's call
+ */
+export const START_VIDEO_RECORDING = gql`
+  mutation StartVideoRecording($subjectId: ID!) {
+    startVideoRecording(subjectId: $subjectId) {
+      success
+      message
+    }
+  }
+`;
+
+/**
+ * Stop recording a subject's call; the file is saved to the Canvas
+ */
+export const STOP_VIDEO_RECORDING = gql`
+  mutation StopVideoRecording($subjectId: ID!) {
+    stopVideoRecording(subjectId: $subjectId) {
+      success
+      message
     }
   }
 `;
@@ -0,0 +1,67 @@
+/**
+ * IndexedDB
+ *
+ * Minimal promise wrapper around the app's IndexedDB database, which keeps
+ * client-side chat data across reloads. Object stores are created in
+ * `upgradeDatabase`; bump DB_VERSION when adding one. Client-only.
+ */
+
+const DB_NAME = 'bytemeet';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * False during server rendering and in browsers without IndexedDB
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function upgradeDatabase(db: IDBDatabase) {
+  // Chat messages waiting to be sent (see lib/outbox.ts)
+  if (!db.objectStoreNames.contains('outbox')) {
+    const outbox = db.createObjectStore('outbox', { keyPath: 'id' });
+    outbox.createIndex('subject_chat', ['subjectId', 'chatType']);
+  }
+
+  // Each subject's recent group chat messages (see lib/messageCache.ts)
+  if (!db.objectStoreNames.contains('message_cache')) {
+    db.createObjectStore('message_cache', { keyPath: 'subjectId' });
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request against a store in its own transaction, resolving with the
+ * request's result once the transaction commits
+ */
+export async function idbRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -1,4 +1,4 @@
-import { AccessToken } from 'livekit-server-sdk';
+import { AccessToken, RoomServiceClient } from 'livekit-server-sdk';
 
 export const createLiveKitToken = (roomName: string, participantName: string) => {
   const at = new AccessToken(process.env.LIVEKIT_API_KEY!, process.env.LIVEKIT_API_SECRET!, {
@@ -9,3 +9,37 @@ export const createLiveKitToken = (roomName: string, participantName: string) =>
 };
 
 export const LIVEKIT_URL = process.env.NEXT_PUBLIC_LIVEKIT_URL!;
+
+const getRoomService = () => {
+  const host = (process.env.LIVEKIT_URL || LIVEKIT_URL).replace(/^ws/, 'http');
+  return new RoomServiceClient(host, process.env.LIVEKIT_API_KEY!, process.env.LIVEKIT_API_SECRET!);
+};
+
+/**
+ * Identities of everyone in a room; empty once the call has ended
+ */
+export const listRoomIdentities = async (roomName: string) => {
+  const service = getRoomService();
+
+  const [room] = await service.listRooms([roomName]);
+  if (!room) return [];
+
+  const participants = await service.listParticipants(roomName);
+  return participants.map((p) => p.identity);
+};
+
+/**
+ * A running room's metadata (locked, captions); null when there is no call
+ */
+export const getRoomMetadata = async (
+  roomName: string
+): Promise<{ locked?: boolean; captions?: boolean } | null> => {
+  const [room] = await getRoomService().listRooms([roomName]);
+  if (!room) return null;
+
+  try {
+    return room.metadata ? JSON.parse(room.metadata) : {};
+  } catch {
+    return {};
+  }
+};
@@ -0,0 +1,196 @@
+/**
+ * Call Summary (server only)
+ *
+ * Turns the captions transcribed during a video call (call_transcripts) into
+ * a structured summary: topics covered, open questions and action items. The
+ * subject's tutor prompt is used as the system prompt, so persona and
+ * language apply. Segments are claimed before summarizing, so they are only
+ * summarized once, and handed back if the summary can't be made or saved.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { truncateToTokens } from './context';
+import { estimateTokens } from './tokens';
+import type { LLMProvider } from './types';
+
+/** Tokens of call transcript sent to the tutor */
+const TRANSCRIPT_TOKEN_BUDGET = 6000;
+
+const MAX_SUMMARY_ITEMS = 10;
+
+const SUMMARY_INSTRUCTIONS = `Below is the transcript of a study group's video call. Summarize it for the group.
+Reply with JSON only, in this shape:
+{"title": "short title", "topics": ["..."], "openQuestions": ["..."], "actionItems": [{"task": "...", "owner": "username or null"}]}
+topics: what the group studied or discussed. openQuestions: questions left unanswered or points of confusion.
+actionItems: what members agreed to do, with the username of whoever took it on, if anyone did.
+Keep each entry to one short sentence and use empty arrays when there is nothing to list.`;
+
+export interface CallSummary {
+  title: string;
+  topics: string[];
+  openQuestions: string[];
+  actionItems: { task: string; owner: string | null }[];
+}
+
+interface TranscriptRow {
+  id: string;
+  username: string;
+  content: string;
+  spoken_at: string;
+}
+
+/**
+ * Claim the subject's unsummarized segments, oldest first
+ */
+async function claimTranscript(subjectId: string): Promise<TranscriptRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('call_transcripts')
+    .update({ summarized_at: new Date().toISOString() })
+    .eq('subject_id', subjectId)
+    .is('summarized_at', null)
+    .select('id, username, content, spoken_at');
+
+  if (error) throw error;
+
+  return ((data || []) as TranscriptRow[]).sort((a, b) => a.spoken_at.localeCompare(b.spoken_at));
+}
+
+/**
+ * Hand claimed segments back, so a later attempt can summarize them
+ */
+async function releaseTranscript(rows: TranscriptRow[]) {
+  await supabaseAdmin
+    .from('call_transcripts')
+    .update({ summarized_at: null })
+    .in(
+      'id',
+      rows.map((row) => row.id)
+    );
+}
+
+/**
+ * The transcript as speaker lines, cut off once it no longer fits the budget
+ */
+function formatTranscript(rows: TranscriptRow[]): string {
+  const lines: string[] = [];
+  let used = 0;
+  for (const row of rows) {
+    const line = `${row.username}: ${truncateToTokens(row.content, 300)}`;
+    used += estimateTokens(line);
+    if (used > TRANSCRIPT_TOKEN_BUDGET) {
+      lines.push('(transcript truncated)');
+      break;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .map((item) => item.trim())
+    .slice(0, MAX_SUMMARY_ITEMS);
+}
+
+function toActionItems(value: unknown): CallSummary['actionItems'] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item) => typeof item?.task === 'string' && item.task.trim() !== '')
+    .map((item) => ({
+      task: item.task.trim(),
+      owner: typeof item.owner === 'string' && item.owner.trim() ? item.owner.trim() : null,
+    }))
+    .slice(0, MAX_SUMMARY_ITEMS);
+}
+
+/**
+ * Pull the summary out of a model reply, which may be wrapped in a code fence
+ */
+function parseReply(reply: string): CallSummary | null {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const data = JSON.parse(reply.slice(start, end + 1));
+    if (!data || typeof data !== 'object') return null;
+
+    const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : '';
+    return {
+      title: title.slice(0, 200),
+      topics: toStringList(data.topics),
+      openQuestions: toStringList(data.openQuestions),
+      actionItems: toActionItems(data.actionItems),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render a call summary as the markdown posted to the AI chat and the Canvas
+ */
+export function formatCallSummary(summary: CallSummary, participants: string[]): string {
+  const section = (heading: string, items: string[]) =>
+    `### ${heading}\n${items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : '- None'}`;
+
+  return [
+    `**Participants:** ${participants.join(', ')}`,
+    section('Topics covered', summary.topics),
+    section('Open questions', summary.openQuestions),
+    section(
+      'Action items',
+      summary.actionItems.map((item) => (item.owner ? `${item.task} (${item.owner})` : item.task))
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * Summarize what was transcribed in a subject's call and hand the summary to
+ * `save`. The transcript stays unsummarized until `save` resolves. Resolves
+ * to null when nothing was transcribed, e.g. captions were never switched on.
+ */
+export async function summarizeCall<T>({
+  subjectId,
+  systemPrompt,
+  provider,
+  model,
+  signal,
+  save,
+}: {
+  subjectId: string;
+  systemPrompt: string;
+  provider: LLMProvider;
+  model: string;
+  signal?: AbortSignal;
+  save: (summary: CallSummary, participants: string[]) => Promise<T>;
+}): Promise<T | null> {
+  const rows = await claimTranscript(subjectId);
+  if (rows.length === 0) {
+    return null;
+  }
+
+  try {
+    const reply = await provider.complete(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `${SUMMARY_INSTRUCTIONS}\n\n${formatTranscript(rows)}` },
+      ],
+      { model, maxTokens: 1000, signal }
+    );
+
+    const summary = parseReply(reply);
+    if (!summary) {
+      throw new Error('The tutor did not return a valid summary, please try again');
+    }
+
+    return await save({ ...summary, title: summary.title || 'Call summary' }, [
+      ...new Set(rows.map((row) => row.username)),
+    ]);
+  } catch (error) {
+    await releaseTranscript(rows);
+    throw error;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * LLM Provider Catalog
+ *
+ * Client-safe list of providers, suggested models and tutor difficulty levels
+ * shown in room settings. Keep in sync with AI_PROVIDERS and AI_DIFFICULTIES
+ * in backend/utils/aiSettings.js.
+ */
+
+import type { AIDifficulty } from '@/types/database';
+import type { LLMProviderId } from './types';
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  models: string[];
+}
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'Hosted OpenAI models',
+    defaultModel: 'gpt-4o-mini',
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  },
+  {
+    id: 'local',
+    label: 'Local (OpenAI-compatible)',
+    description: 'Ollama, llama.cpp or any OpenAI-compatible endpoint',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5', 'mistral', 'phi3'],
+  },
+  {
+    id: 'mock',
+    label: 'Mock',
+    description: 'Deterministic canned replies for testing',
+    defaultModel: 'mock-tutor',
+    models: ['mock-tutor'],
+  },
+];
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = 'openai';
+
+/**
+ * Look up a provider's catalog entry, falling back to the default provider
+ */
+export function getProviderInfo(id?: string | null): LLMProviderInfo {
+  return (
+    LLM_PROVIDERS.find((p) => p.id === id) ||
+    LLM_PROVIDERS.find((p) => p.id === DEFAULT_LLM_PROVIDER)!
+  );
+}
+
+export interface AIDifficultyInfo {
+  id: AIDifficulty;
+  label: string;
+  description: string;
+}
+
+export const AI_DIFFICULTIES: AIDifficultyInfo[] = [
+  {
+    id: 'beginner',
+    label: 'Beginner',
+    description: 'Assume no prior knowledge and avoid jargon',
+  },
+  {
+    id: 'intermediate',
+    label: 'Intermediate',
+    description: 'Assume the fundamentals are known',
+  },
+  {
+    id: 'advanced',
+    label: 'Advanced',
+    description: 'Go deep, be rigorous and skip the basics',
+  },
+];
@@ -0,0 +1,380 @@
+/**
+ * Conversation Context Builder (server only)
+ *
+ * Fits a subject's AI chat history into a token budget. The newest turns are
+ * sent verbatim; anything older that no longer fits is folded into a running
+ * summary stored in ai_context_summaries, so the tutor keeps the gist of the
+ * whole conversation without overflowing the model's context window.
+ * Unsummarised turns older than the newest HISTORY_FETCH_LIMIT rows are folded
+ * in first, a page at a time, so none are skipped.
+ * Canvas excerpts relevant to the question (see retrieval.ts) are added after
+ * the system prompt.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { estimateTokens } from './tokens';
+import { getActiveBranch } from './thread';
+import { formatSources, type RetrievedSource } from './retrieval';
+import type { LLMChatMessage, LLMProvider } from './types';
+
+/** Tokens available for the system prompt, summary and history */
+export const CONTEXT_TOKEN_BUDGET = 6000;
+
+/** Tokens of transcript sent per summarisation call */
+const SUMMARY_CHUNK_BUDGET = 3000;
+
+/** Longest a single message may be, e.g. a large code paste */
+const MAX_MESSAGE_TOKENS = 2000;
+
+/** Most recent rows considered for the verbatim window; also the page size for older rows */
+const HISTORY_FETCH_LIMIT = 100;
+
+const HISTORY_COLUMNS = 'id, role, username, content, reply_to_id, variant_of, created_at';
+
+const SUMMARY_PROMPT = `You maintain a running summary of a study group's conversation with an AI tutor.
+Merge the new conversation turns into the existing summary. Keep the topics covered, questions asked, key explanations, code or formulas that later questions may refer to, and anything students said they are stuck on.
+Write concise notes, at most 300 words. Reply with the updated summary only.`;
+
+export interface HistoryMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  username: string | null;
+  content: string;
+  reply_to_id: string | null;
+  variant_of: string | null;
+  created_at: string;
+}
+
+export interface ConversationSummary {
+  summary: string;
+  summarized_until: string;
+}
+
+export interface ConversationContext {
+  messages: LLMChatMessage[];
+  promptTokens: number;
+  /** Canvas excerpts included in the prompt */
+  sources: RetrievedSource[];
+}
+
+/**
+ * Cut text down to roughly maxTokens, keeping the start and end
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  // estimateTokens is linear in length, so scale characters by the same ratio
+  const keepChars = Math.floor((text.length * maxTokens) / estimateTokens(text));
+  const head = text.slice(0, Math.ceil(keepChars * 0.7));
+  const tail = text.slice(text.length - Math.floor(keepChars * 0.3));
+
+  return `${head}\n\n[... truncated ...]\n\n${tail}`;
+}
+
+function toChatMessage(message: HistoryMessage): LLMChatMessage {
+  const content = truncateToTokens(message.content, MAX_MESSAGE_TOKENS);
+
+  return {
+    role: message.role === 'assistant' ? 'assistant' : 'user',
+    content:
+      message.username && message.role === 'user' ? `[${message.username}]: ${content}` : content,
+  };
+}
+
+function summaryMessage(summary: string): LLMChatMessage {
+  return { role: 'system', content: `Summary of the earlier conversation:\n${summary}` };
+}
+
+/**
+ * Split history into the newest turns that fit the budget and the older overflow
+ */
+export function fitToBudget(
+  history: HistoryMessage[],
+  budget: number,
+  countTokens: (messages: LLMChatMessage[]) => number
+) {
+  const recent: HistoryMessage[] = [];
+  let used = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = countTokens([toChatMessage(history[i])]);
+    // The latest turn is always sent, however large
+    if (recent.length > 0 && used + tokens > budget) {
+      return { recent, overflow: history.slice(0, i + 1) };
+    }
+    recent.unshift(history[i]);
+    used += tokens;
+  }
+
+  return { recent, overflow: [] as HistoryMessage[] };
+}
+
+/**
+ * Fold overflow turns into the running summary, one chunk at a time
+ */
+async function summarize(
+  provider: LLMProvider,
+  model: string,
+  previous: string | null,
+  overflow: HistoryMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  let summary = previous;
+  let chunk: string[] = [];
+  let chunkTokens = 0;
+
+  const flush = async () => {
+    if (chunk.length === 0) return;
+    summary = await provider.complete(
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content: `Existing summary:\n${summary || '(none)'}\n\nNew conversation turns:\n${chunk.join('\n\n')}`,
+        },
+      ],
+      { model, maxTokens: 600, signal }
+    );
+    chunk = [];
+    chunkTokens = 0;
+  };
+
+  for (const message of overflow) {
+    const speaker = message.role === 'assistant' ? 'Tutor' : message.username || 'Student';
+    const line = `${speaker}: ${truncateToTokens(message.content, SUMMARY_CHUNK_BUDGET / 2)}`;
+    const tokens = estimateTokens(line);
+
+    if (chunkTokens + tokens > SUMMARY_CHUNK_BUDGET) {
+      await flush();
+    }
+    chunk.push(line);
+    chunkTokens += tokens;
+  }
+  await flush();
+
+  return summary || '';
+}
+
+/**
+ * Store a subject's running summary
+ */
+async function saveSummary(subjectId: string, { summary, summarized_until }: ConversationSummary) {
+  const { error } = await supabaseAdmin.from('ai_context_summaries').upsert({
+    subject_id: subjectId,
+    summary,
+    summarized_until,
+    token_count: estimateTokens(summary),
+    updated_at: new Date().toISOString(),
+  });
+  if (error) {
+    // The summary is rebuilt next time; this request can still use it
+    console.error('Save AI context summary error:', error);
+  }
+}
+
+/**
+ * Fold unsummarised rows older than `before` (the oldest fetched row) into the
+ * summary, a page at a time. Otherwise they would be skipped once
+ * summarized_until moves past them.
+ */
+async function summarizeBacklog({
+  subjectId,
+  stored,
+  before,
+  provider,
+  model,
+  signal,
+}: {
+  subjectId: string;
+  stored: ConversationSummary | null;
+  before: string;
+  provider: LLMProvider;
+  model: string;
+  signal?: AbortSignal;
+}): Promise<ConversationSummary | null> {
+  let current = stored;
+
+  while (true) {
+    let query = supabaseAdmin
+      .from('ai_messages')
+      .select(HISTORY_COLUMNS)
+      .eq('subject_id', subjectId)
+      .in('role', ['user', 'assistant'])
+      .lt('created_at', before)
+      .order('created_at', { ascending: true })
+      .limit(HISTORY_FETCH_LIMIT);
+
+    if (current) {
+      query = query.gt('created_at', current.summarized_until);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const page = (data || []) as HistoryMessage[];
+    if (page.length === 0) return current;
+
+    current = {
+      summary: await summarize(
+        provider,
+        model,
+        current?.summary || null,
+        getActiveBranch(page),
+        signal
+      ),
+      summarized_until: page[page.length - 1].created_at,
+    };
+    await saveSummary(subjectId, current);
+
+    if (page.length < HISTORY_FETCH_LIMIT) return current;
+  }
+}
+
+/**
+ * Put the question being answered last, on the newest branch of the thread.
+ * An edited question forks the thread, so only messages from before the original
+ * question are kept. Otherwise, questions other members asked after it are still
+ * waiting their turn and are left out, while their answers are kept. Earlier
+ * answers to this same question (when regenerating) are always left out.
+ */
+function focusOnQuestion(history: HistoryMessage[], question: HistoryMessage) {
+  const original = question.variant_of
+    ? history.find((m) => m.id === question.variant_of)
+    : undefined;
+  const forkAt = question.variant_of ? original?.created_at || question.created_at : null;
+
+  const branch = getActiveBranch(history).filter(
+    (m) => m.id !== question.id && m.reply_to_id !== question.id
+  );
+
+  return [
+    ...branch.filter((m) =>
+      forkAt ? m.created_at < forkAt : m.role === 'assistant' || m.created_at <= question.created_at
+    ),
+    question,
+  ];
+}
+
+/**
+ * Build the prompt messages for a subject's next AI tutor completion
+ */
+export async function buildConversationContext({
+  subjectId,
+  messageId,
+  systemPrompt,
+  provider,
+  model,
+  budget = CONTEXT_TOKEN_BUDGET,
+  retrieveSources,
+  signal,
+}: {
+  subjectId: string;
+  /** The saved user message being answered; defaults to the latest message */
+  messageId?: string;
+  systemPrompt: string;
+  provider: LLMProvider;
+  model: string;
+  budget?: number;
+  /** Looks up Canvas excerpts for the question being answered */
+  retrieveSources?: (question: string) => Promise<RetrievedSource[]>;
+  signal?: AbortSignal;
+}): Promise<ConversationContext> {
+  let { data: stored } = await supabaseAdmin
+    .from('ai_context_summaries')
+    .select('summary, summarized_until')
+    .eq('subject_id', subjectId)
+    .maybeSingle<ConversationSummary>();
+
+  let query = supabaseAdmin
+    .from('ai_messages')
+    .select(HISTORY_COLUMNS)
+    .eq('subject_id', subjectId)
+    .in('role', ['user', 'assistant'])
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_FETCH_LIMIT);
+
+  if (stored) {
+    query = query.gt('created_at', stored.summarized_until);
+  }
+
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  const fetched = ((rows || []) as HistoryMessage[]).reverse();
+
+  // A full window may have unsummarised rows behind it
+  if (fetched.length === HISTORY_FETCH_LIMIT) {
+    stored = await summarizeBacklog({
+      subjectId,
+      stored,
+      before: fetched[0].created_at,
+      provider,
+      model,
+      signal,
+    });
+  }
+  let history = getActiveBranch(fetched);
+
+  if (messageId) {
+    let question = fetched.find((m) => m.id === messageId);
+    if (!question) {
+      const { data } = await supabaseAdmin
+        .from('ai_messages')
+        .select(HISTORY_COLUMNS)
+        .eq('id', messageId)
+        .eq('subject_id', subjectId)
+        .maybeSingle<HistoryMessage>();
+      question = data || undefined;
+    }
+    if (question) {
+      history = focusOnQuestion(fetched, question);
+    }
+  }
+  const system: LLMChatMessage = { role: 'system', content: systemPrompt };
+
+  let sources: RetrievedSource[] = [];
+  const question = [...history].reverse().find((m) => m.role === 'user');
+  if (retrieveSources && question) {
+    try {
+      sources = await retrieveSources(question.content);
+    } catch (sourcesError) {
+      if (signal?.aborted) throw sourcesError;
+      // The tutor can still answer without the Canvas
+      console.error('Retrieve AI context sources error:', sourcesError);
+    }
+  }
+  const sourcesMessages: LLMChatMessage[] =
+    sources.length > 0 ? [{ role: 'system', content: formatSources(sources) }] : [];
+
+  let summary = stored?.summary || null;
+  const reserved = provider.countTokens([
+    system,
+    ...sourcesMessages,
+    ...(summary ? [summaryMessage(summary)] : []),
+  ]);
+
+  const { recent, overflow } = fitToBudget(history, budget - reserved, (m) =>
+    provider.countTokens(m)
+  );
+
+  if (overflow.length > 0) {
+    summary = await summarize(provider, model, summary, overflow, signal);
+
+    await saveSummary(subjectId, {
+      summary,
+      summarized_until: overflow.reduce(
+        (latest, m) => (m.created_at > latest ? m.created_at : latest),
+        overflow[0].created_at
+      ),
+    });
+  }
+
+  const messages = [
+    system,
+    ...sourcesMessages,
+    ...(summary ? [summaryMessage(summary)] : []),
+    ...recent.map(toChatMessage),
+  ];
+
+  return { messages, promptTokens: provider.countTokens(messages), sources };
+}
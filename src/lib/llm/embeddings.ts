@@ -0,0 +1,86 @@
+/**
+ * Local Text Embeddings
+ *
+ * Embeds text in-process with feature hashing, so retrieval needs no embedding
+ * API or model download. Words (with code identifiers split on camelCase and
+ * snake_case) and word pairs are hashed into a fixed-size vector, weighted by
+ * log term frequency and L2-normalised, so the dot product of two vectors is
+ * their cosine similarity.
+ */
+
+const DIMENSIONS = 1024;
+
+const BIGRAM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set(
+  `a an and are as at be but by can do does for from how i if in into is it its me my
+  no not of on or so that the their then there these this to was we what when where
+  which who why will with you your`.split(/\s+/)
+);
+
+export type Embedding = Float32Array;
+
+/**
+ * Split text into lowercase terms, breaking code identifiers into words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(term: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    h ^= term.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Embed a piece of text
+ */
+export function embed(text: string): Embedding {
+  const terms = tokenize(text);
+  const counts = new Map<string, number>();
+
+  terms.forEach((term, i) => {
+    counts.set(term, (counts.get(term) || 0) + 1);
+    if (i > 0) {
+      const pair = `${terms[i - 1]} ${term}`;
+      counts.set(pair, (counts.get(pair) || 0) + BIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Float32Array(DIMENSIONS);
+  counts.forEach((count, term) => {
+    const h = hash(term);
+    // The top bit picks the sign so colliding terms tend to cancel out
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % DIMENSIONS] += sign * (1 + Math.log(count));
+  });
+
+  let norm = 0;
+  for (let i = 0; i < DIMENSIONS; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+
+  if (norm > 0) {
+    for (let i = 0; i < DIMENSIONS; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two embeddings
+ */
+export function similarity(a: Embedding, b: Embedding): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
@@ -0,0 +1,90 @@
+/**
+ * Group Chat Summary (server only)
+ *
+ * Summarizes a subject's recent group chat for /summarize, so members who
+ * missed the discussion can catch up. The subject's tutor prompt is used as
+ * the system prompt, so persona and language apply.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { truncateToTokens } from './context';
+import { estimateTokens } from './tokens';
+import type { LLMProvider } from './types';
+
+/** Tokens of chat transcript sent to the tutor */
+const TRANSCRIPT_TOKEN_BUDGET = 4000;
+
+/** Most recent friend_messages rows considered */
+const TRANSCRIPT_FETCH_LIMIT = 150;
+
+const SUMMARY_INSTRUCTIONS = `Summarize the study group's chat below for members who missed it.
+Cover the topics discussed, answers or decisions reached, open questions and anything members agreed to do.
+Use short bullet points, at most 200 words. Reply with the summary only.`;
+
+interface GroupChatRow {
+  username: string;
+  content: string;
+  message_type: string;
+  metadata: { options?: string[] } | null;
+}
+
+/**
+ * The newest group chat messages that fit the transcript budget, oldest first
+ */
+async function loadGroupTranscript(subjectId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('friend_messages')
+    .select('username, content, message_type, metadata')
+    .eq('subject_id', subjectId)
+    .in('message_type', ['text', 'poll'])
+    .order('created_at', { ascending: false })
+    .limit(TRANSCRIPT_FETCH_LIMIT);
+
+  if (error) throw error;
+
+  const lines: string[] = [];
+  let used = 0;
+  for (const message of (data || []) as GroupChatRow[]) {
+    const text =
+      message.message_type === 'poll'
+        ? `started a poll "${message.content}": ${(message.metadata?.options || []).join(' / ')}`
+        : truncateToTokens(message.content, 300);
+    const line = `${message.username}: ${text}`;
+    used += estimateTokens(line);
+    if (used > TRANSCRIPT_TOKEN_BUDGET) break;
+    lines.unshift(line);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Summarize a subject's recent group chat
+ */
+export async function summarizeGroupChat({
+  subjectId,
+  systemPrompt,
+  provider,
+  model,
+  signal,
+}: {
+  subjectId: string;
+  systemPrompt: string;
+  provider: LLMProvider;
+  model: string;
+  signal?: AbortSignal;
+}): Promise<string> {
+  const transcript = await loadGroupTranscript(subjectId);
+  if (!transcript) {
+    throw new Error('There is nothing to summarize yet');
+  }
+
+  const summary = await provider.complete(
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `${SUMMARY_INSTRUCTIONS}\n\n${transcript}` },
+    ],
+    { model, maxTokens: 500, signal }
+  );
+
+  return summary.trim();
+}
@@ -0,0 +1,74 @@
+/**
+ * LLM Provider Registry (server only)
+ *
+ * Resolves a subject's configured provider to an adapter. Clients are created
+ * lazily so a missing key only fails requests that use that provider.
+ */
+
+import OpenAI from 'openai';
+import { getOpenAIClient } from '@/lib/openai';
+import { createOpenAIProvider } from './openai';
+import { mockProvider } from './mock';
+import { getProviderInfo } from './catalog';
+import type { LLMProvider, LLMProviderId } from './types';
+
+export * from './types';
+export * from './catalog';
+export * from './tokens';
+export * from './prompt';
+export * from './context';
+export * from './retrieval';
+export * from './practice';
+export * from './groupChat';
+export * from './callSummary';
+
+const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+function createProvider(id: LLMProviderId): LLMProvider {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider('openai', getOpenAIClient());
+    case 'local':
+      return createOpenAIProvider(
+        'local',
+        new OpenAI({
+          baseURL: LOCAL_LLM_BASE_URL,
+          // Local servers ignore the key, but the SDK requires one
+          apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        })
+      );
+    case 'mock':
+      return mockProvider;
+  }
+}
+
+/**
+ * Get the adapter for a provider ID, falling back to the default provider
+ */
+export function getLLMProvider(id?: string | null): LLMProvider {
+  const providerId = getProviderInfo(id).id;
+
+  let provider = providers.get(providerId);
+  if (!provider) {
+    provider = createProvider(providerId);
+    providers.set(providerId, provider);
+  }
+  return provider;
+}
+
+/**
+ * Resolve the provider and model to use for a subject's AI settings
+ */
+export function resolveLLMConfig(settings: {
+  ai_provider?: string | null;
+  ai_model?: string | null;
+}) {
+  const info = getProviderInfo(settings.ai_provider);
+
+  return {
+    provider: getLLMProvider(info.id),
+    model: settings.ai_model?.trim() || info.defaultModel,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic provider for tests and offline development. The reply is
+ * derived only from the last user message, so the same input always produces
+ * the same output.
+ */
+
+import type { LLMChatMessage, LLMCompletionOptions, LLMProvider } from './types';
+import { estimateMessageTokens } from './tokens';
+
+function buildReply(messages: LLMChatMessage[]): string {
+  const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+  const question = lastUser?.content.trim() || '';
+
+  return `Mock tutor response to: "${question}"`;
+}
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+
+  async complete(messages: LLMChatMessage[]) {
+    return buildReply(messages);
+  },
+
+  async *stream(messages: LLMChatMessage[], options: LLMCompletionOptions) {
+    // Emit word by word so streaming UIs behave as they do with real providers
+    const words = buildReply(messages).split(/(?<=\s)/);
+    for (const word of words) {
+      if (options.signal?.aborted) return;
+      yield word;
+    }
+  },
+
+  countTokens(messages: LLMChatMessage[]) {
+    return estimateMessageTokens(messages);
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * OpenAI Provider
+ *
+ * Adapter over the OpenAI SDK. Also backs the local provider, since Ollama and
+ * llama.cpp expose the same chat completions API.
+ */
+
+import OpenAI from 'openai';
+import type { LLMChatMessage, LLMCompletionOptions, LLMProvider, LLMProviderId } from './types';
+import { estimateMessageTokens } from './tokens';
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+export function createOpenAIProvider(id: LLMProviderId, client: OpenAI): LLMProvider {
+  return {
+    id,
+
+    async complete(messages: LLMChatMessage[], options: LLMCompletionOptions) {
+      const response = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages,
+          max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+        { signal: options.signal }
+      );
+
+      return response.choices[0]?.message?.content || '';
+    },
+
+    async *stream(messages: LLMChatMessage[], options: LLMCompletionOptions) {
+      const completion = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages,
+          stream: true,
+          max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+        { signal: options.signal }
+      );
+
+      for await (const chunk of completion) {
+        const content = chunk.choices[0]?.delta?.content || '';
+        if (content) yield content;
+      }
+    },
+
+    countTokens(messages: LLMChatMessage[]) {
+      return estimateMessageTokens(messages);
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Practice Set Generation (server only)
+ *
+ * Turns a subject's recent AI chat and selected Canvas artifacts into a quiz
+ * or flashcard deck (see lib/quiz.ts for the format). The subject's tutor
+ * prompt is used as the system prompt, so persona, level and language apply.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { normalizeQuizContent, type PracticeKind, type QuizContent } from '@/lib/quiz';
+import { truncateToTokens } from './context';
+import { getActiveBranch } from './thread';
+import { estimateTokens } from './tokens';
+import type { LLMProvider } from './types';
+
+/** Tokens of chat transcript and of artifact text used as source material */
+const TRANSCRIPT_TOKEN_BUDGET = 3000;
+const ARTIFACTS_TOKEN_BUDGET = 3000;
+
+/** Most recent ai_messages rows considered for the transcript */
+const TRANSCRIPT_FETCH_LIMIT = 60;
+
+const FORMAT_INSTRUCTIONS: Record<PracticeKind, string> = {
+  quiz: `Reply with JSON only, in this shape:
+{"title": "short title", "kind": "quiz", "questions": [
+  {"type": "multiple_choice", "prompt": "...", "options": ["...", "...", "...", "..."], "correctIndex": 0, "explanation": "..."},
+  {"type": "short_answer", "prompt": "...", "answer": "...", "acceptedAnswers": ["..."], "explanation": "..."}
+]}
+Mix both question types. Short answers must be a few words at most so they can be checked automatically; list other acceptable wordings in acceptedAnswers.`,
+  flashcards: `Reply with JSON only, in this shape:
+{"title": "short title", "kind": "flashcards", "cards": [{"front": "term or question", "back": "definition or answer"}]}
+Keep each side short enough to read at a glance.`,
+};
+
+interface TranscriptRow {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  username: string | null;
+  content: string;
+  reply_to_id: string | null;
+  variant_of: string | null;
+  created_at: string;
+}
+
+/**
+ * The newest turns of a subject's AI chat that fit the transcript budget
+ */
+async function loadTranscript(subjectId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('ai_messages')
+    .select('id, role, username, content, reply_to_id, variant_of, created_at')
+    .eq('subject_id', subjectId)
+    .in('role', ['user', 'assistant'])
+    .order('created_at', { ascending: false })
+    .limit(TRANSCRIPT_FETCH_LIMIT);
+
+  if (error) throw error;
+
+  const lines: string[] = [];
+  let used = 0;
+  for (const message of getActiveBranch(((data || []) as TranscriptRow[]).reverse()).reverse()) {
+    const speaker = message.role === 'assistant' ? 'Tutor' : message.username || 'Student';
+    const line = `${speaker}: ${truncateToTokens(message.content, 500)}`;
+    used += estimateTokens(line);
+    if (used > TRANSCRIPT_TOKEN_BUDGET) break;
+    lines.unshift(line);
+  }
+  return lines.join('\n\n');
+}
+
+/**
+ * Pull the JSON object out of a model reply, which may be wrapped in a code fence
+ */
+function parseReply(reply: string): { title: string; content: QuizContent } | null {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const data = JSON.parse(reply.slice(start, end + 1));
+    const content = normalizeQuizContent(data);
+    if (!content) return null;
+
+    const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : '';
+    return { title: title.slice(0, 200), content };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a quiz or flashcard deck for a subject
+ */
+export async function generatePracticeSet({
+  subjectId,
+  kind,
+  count,
+  artifacts,
+  systemPrompt,
+  provider,
+  model,
+  signal,
+}: {
+  subjectId: string;
+  kind: PracticeKind;
+  count: number;
+  artifacts: { title: string; text: string }[];
+  systemPrompt: string;
+  provider: LLMProvider;
+  model: string;
+  signal?: AbortSignal;
+}): Promise<{ title: string; content: QuizContent }> {
+  const transcript = await loadTranscript(subjectId);
+  if (!transcript && artifacts.length === 0) {
+    throw new Error('Chat with the tutor or select Canvas artifacts first');
+  }
+
+  const perArtifact = Math.floor(ARTIFACTS_TOKEN_BUDGET / Math.max(artifacts.length, 1));
+  const material = [
+    transcript && `Recent study session with the tutor:\n${transcript}`,
+    ...artifacts.map(
+      (a) => `Canvas artifact "${a.title}":\n${truncateToTokens(a.text, perArtifact)}`
+    ),
+  ].filter(Boolean);
+
+  const itemName = kind === 'quiz' ? 'questions' : 'flashcards';
+  const reply = await provider.complete(
+    [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Create ${count} ${itemName} that help the group practise what they studied below. Cover the most important ideas, not trivia.
+
+${FORMAT_INSTRUCTIONS[kind]}
+
+${material.join('\n\n---\n\n')}`,
+      },
+    ],
+    { model, maxTokens: 3000, signal }
+  );
+
+  const result = parseReply(reply);
+  if (!result || result.content.kind !== kind) {
+    throw new Error('The tutor did not return a valid practice set, please try again');
+  }
+
+  return {
+    title: result.title || (kind === 'quiz' ? 'Practice quiz' : 'Flashcards'),
+    content: result.content,
+  };
+}
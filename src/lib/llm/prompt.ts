@@ -0,0 +1,87 @@
+/**
+ * AI Tutor Prompt (server only)
+ *
+ * Builds the tutor system prompt from the shared base prompt and the
+ * subject's persona, difficulty, language and owner instructions.
+ */
+
+import type { AIDifficulty } from '@/types/database';
+
+/**
+ * Base prompt shared by every subject
+ */
+export const BASE_TUTOR_PROMPT = `You are ByteMeet AI Tutor - a friendly, helpful, and knowledgeable educational assistant for study groups.
+
+Your role is to:
+1. Help students understand complex concepts across multiple subjects
+2. Provide clear, step-by-step explanations
+3. Answer questions in an engaging and encouraging manner
+4. Generate code examples, diagrams, and visual aids when helpful
+5. Adapt your teaching style to the student's level
+
+Guidelines:
+- Be encouraging and supportive
+- Use analogies and real-world examples
+- Break down complex topics into digestible parts
+- When providing code, use proper formatting with language tags
+- For diagrams, use Mermaid syntax within code blocks
+- If you don't know something, admit it honestly
+- Keep responses concise but comprehensive
+
+When generating artifacts:
+- Code: Use \`\`\`language syntax
+- Diagrams: Use \`\`\`mermaid syntax
+- Math: Use LaTeX within $$ delimiters
+
+Remember: You're part of a collaborative study session. Multiple students may be asking questions, so be helpful to everyone!`;
+
+const DIFFICULTY_GUIDANCE: Record<AIDifficulty, string> = {
+  beginner:
+    'The students are beginners. Assume no prior knowledge, avoid jargon (or define it when it is unavoidable) and favour intuition over formalism.',
+  intermediate:
+    'The students know the fundamentals. Skip the basics unless asked and focus on connecting concepts.',
+  advanced:
+    'The students are advanced. Be rigorous and precise, go into depth and mention edge cases and trade-offs.',
+};
+
+export interface TutorPromptSettings {
+  ai_persona?: string | null;
+  ai_difficulty?: string | null;
+  ai_language?: string | null;
+  ai_instructions?: string | null;
+}
+
+/**
+ * Merge a subject's tutor settings into the base system prompt
+ */
+export function buildTutorSystemPrompt(settings: TutorPromptSettings = {}): string {
+  const sections = [BASE_TUTOR_PROMPT];
+
+  const persona = settings.ai_persona?.trim();
+  if (persona) {
+    sections.push(
+      `Persona: Take on the persona of ${persona}, while staying helpful and accurate.`
+    );
+  }
+
+  const difficulty = settings.ai_difficulty as AIDifficulty | null | undefined;
+  if (difficulty && DIFFICULTY_GUIDANCE[difficulty]) {
+    sections.push(`Level: ${DIFFICULTY_GUIDANCE[difficulty]}`);
+  }
+
+  const language = settings.ai_language?.trim();
+  if (language) {
+    sections.push(
+      `Language: Always reply in ${language}, even if the question is asked in another language. Keep code, identifiers and technical terms as they are.`
+    );
+  }
+
+  const instructions = settings.ai_instructions?.trim();
+  if (instructions) {
+    sections.push(
+      `Room instructions from the owner (follow these; they take precedence over the guidelines above):\n${instructions}`
+    );
+  }
+
+  return sections.join('\n\n');
+}
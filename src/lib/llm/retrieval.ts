@@ -0,0 +1,498 @@
+/**
+ * Canvas Retrieval (server only)
+ *
+ * Lets the AI tutor read a subject's Canvas artifacts: code, markdown, text
+ * files and text extracted from PDFs. Artifacts are split into chunks and
+ * embedded locally (see embeddings.ts); the chunks closest to the question are
+ * placed in the prompt, numbered per artifact so the answer can cite them.
+ *
+ * Artifacts are listed through the backend API with the asker's token. Each
+ * subject's index is held in memory and only artifacts that were added or
+ * changed since the last request are re-indexed. Indexes unused for
+ * INDEX_TTL are dropped, as are the least recently used ones once there are
+ * more than MAX_INDEXED_SUBJECTS or they take more than MAX_INDEX_BYTES.
+ *
+ * File URLs are set by members, so files are only downloaded from the
+ * subject's upload store (Cloudinary), never from private addresses, and
+ * only up to a byte cap.
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { AIMessageSource } from '@/types/database';
+import { embed, similarity, type Embedding } from './embeddings';
+import { estimateTokens } from './tokens';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+
+/** Most artifacts indexed per subject */
+const MAX_ARTIFACTS = 200;
+
+/** Longest text read from a single artifact */
+const MAX_ARTIFACT_CHARS = 200_000;
+
+/** Most bytes downloaded for a PDF (the upload limit) and for a text file */
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+const MAX_TEXT_BYTES = MAX_ARTIFACT_CHARS * 4;
+
+/** Limits of the in-memory indexes, across all subjects */
+const MAX_INDEXED_SUBJECTS = 50;
+const MAX_INDEX_BYTES = 256 * 1024 * 1024;
+const INDEX_TTL = 30 * 60 * 1000; // 30 minutes in milliseconds
+
+/** Where uploaded files live; nothing else is downloaded */
+const FILE_HOST = 'res.cloudinary.com';
+const FILE_PATH_PREFIX = `/${process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME}/`;
+
+const CHUNK_TOKENS = 300;
+const CHUNK_OVERLAP_TOKENS = 40;
+
+/** Most chunks placed in the prompt, and most from any one artifact */
+const MAX_CHUNKS = 5;
+const MAX_CHUNKS_PER_ARTIFACT = 2;
+
+/** Chunks less similar to the question than this are not used */
+const MIN_SIMILARITY = 0.12;
+
+/** Added to chunks of files attached to the question, so they are always read */
+const ATTACHMENT_BOOST = 0.5;
+
+const TEXT_FILE_PATTERN =
+  /\.(txt|md|markdown|csv|json|xml|ya?ml|html?|css|js|jsx|ts|tsx|py|java|c|cpp|h|hpp|cs|go|rs|rb|php|swift|kt|sql|sh)$/i;
+
+const ATTACHMENT_PATTERN = /\[Attached file: ([^\]]+)\]/g;
+
+interface CanvasArtifact {
+  _id: string;
+  type: string;
+  title: string;
+  content?: string;
+  fileUrl?: string;
+  fileName?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+interface IndexedChunk {
+  artifactId: string;
+  text: string;
+  vector: Embedding;
+}
+
+interface IndexedArtifact {
+  version: string;
+  title: string;
+  fileName: string | null;
+  chunks: IndexedChunk[];
+}
+
+export interface RetrievedSource extends AIMessageSource {
+  excerpts: string[];
+}
+
+interface SubjectIndex {
+  artifacts: Map<string, IndexedArtifact>;
+  /** Approximate memory held by the chunks and their vectors */
+  bytes: number;
+  usedAt: number;
+}
+
+// Least recently used first
+const indexes = new Map<string, SubjectIndex>();
+
+function indexBytes(artifacts: Map<string, IndexedArtifact>): number {
+  let bytes = 0;
+  for (const artifact of artifacts.values()) {
+    for (const chunk of artifact.chunks) {
+      bytes += chunk.text.length * 2 + chunk.vector.byteLength;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Drop expired indexes, then the least recently used until within the limits
+ */
+function evictIndexes(now: number) {
+  let total = 0;
+  for (const index of indexes.values()) total += index.bytes;
+
+  for (const [subjectId, index] of indexes) {
+    const expired = now - index.usedAt > INDEX_TTL;
+    const overLimit = indexes.size > MAX_INDEXED_SUBJECTS || total > MAX_INDEX_BYTES;
+    // Never drop the index just used (the last one)
+    if ((!expired && !overLimit) || indexes.size === 1) break;
+
+    indexes.delete(subjectId);
+    total -= index.bytes;
+  }
+}
+
+/**
+ * List a subject's artifacts through the backend API
+ */
+async function listArtifacts(
+  subjectId: string,
+  accessToken: string,
+  signal?: AbortSignal
+): Promise<CanvasArtifact[]> {
+  const response = await fetch(
+    `${API_URL}/artifacts/subject/${encodeURIComponent(subjectId)}?limit=${MAX_ARTIFACTS}`,
+    { headers: { Authorization: `Bearer ${accessToken}` }, signal }
+  );
+
+  const body = await response.json();
+  if (!response.ok || !body.success) {
+    throw new Error(body.message || 'Failed to fetch artifacts');
+  }
+  return body.data;
+}
+
+/**
+ * Loopback, private, link-local (cloud metadata) and other non-public addresses
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const ip = address.toLowerCase();
+    if (ip.startsWith('::ffff:')) return isPrivateAddress(ip.slice(7));
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      ip.startsWith('fc') ||
+      ip.startsWith('fd') ||
+      /^fe[89ab]/.test(ip)
+    );
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+/**
+ * Check a member-supplied file URL points at the upload store
+ */
+async function assertDownloadable(fileUrl: string) {
+  let url: URL;
+  try {
+    url = new URL(fileUrl);
+  } catch {
+    throw new Error('Invalid file URL');
+  }
+
+  if (
+    url.protocol !== 'https:' ||
+    url.hostname !== FILE_HOST ||
+    !url.pathname.startsWith(FILE_PATH_PREFIX)
+  ) {
+    throw new Error(`Not downloading ${url.hostname}: files must be uploaded to the Canvas`);
+  }
+
+  const addresses = await lookup(url.hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Not downloading ${url.hostname}: private address`);
+  }
+}
+
+/**
+ * Download at most `maxBytes` of a file. A larger file is cut off when
+ * `partial` is set, and rejected otherwise.
+ */
+async function downloadFile(
+  fileUrl: string,
+  { maxBytes, partial, signal }: { maxBytes: number; partial: boolean; signal?: AbortSignal }
+): Promise<Uint8Array> {
+  await assertDownloadable(fileUrl);
+
+  // Redirects could lead anywhere, so they are not followed
+  const response = await fetch(fileUrl, { signal, redirect: 'error' });
+  if (!response.ok || !response.body) {
+    throw new Error(`Download failed: ${response.status}`);
+  }
+
+  const tooLarge = new Error('File is too large to read');
+
+  if (!partial && Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body.cancel();
+    throw tooLarge;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (received + value.length > maxBytes) {
+      await reader.cancel();
+      if (!partial) throw tooLarge;
+
+      chunks.push(value.subarray(0, maxBytes - received));
+      received = maxBytes;
+      break;
+    }
+    chunks.push(value);
+    received += value.length;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Read the text of an artifact, or null if it has none (e.g. images)
+ */
+async function readArtifactText(
+  artifact: CanvasArtifact,
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (artifact.content) return artifact.content;
+  if (!artifact.fileUrl) return null;
+
+  const name = artifact.fileName || artifact.title;
+  const isPdf = artifact.type === 'pdf' || /\.pdf$/i.test(name);
+  if (!isPdf && !TEXT_FILE_PATTERN.test(name)) return null;
+
+  if (isPdf) {
+    // A cut-off PDF can't be parsed
+    const bytes = await downloadFile(artifact.fileUrl, {
+      maxBytes: MAX_PDF_BYTES,
+      partial: false,
+      signal,
+    });
+    const pdf = await getDocumentProxy(bytes);
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  }
+
+  // Text is only read up to MAX_ARTIFACT_CHARS anyway
+  const bytes = await downloadFile(artifact.fileUrl, {
+    maxBytes: MAX_TEXT_BYTES,
+    partial: true,
+    signal,
+  });
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Read the full text of selected artifacts, skipping those without text
+ */
+export async function loadArtifactTexts({
+  subjectId,
+  artifactIds,
+  accessToken,
+  signal,
+}: {
+  subjectId: string;
+  artifactIds: string[];
+  accessToken: string;
+  signal?: AbortSignal;
+}): Promise<{ artifactId: string; title: string; text: string }[]> {
+  const artifacts = await listArtifacts(subjectId, accessToken, signal);
+  const selected = artifacts.filter((a) => artifactIds.includes(a._id));
+
+  const texts = await Promise.all(
+    selected.map(async (artifact) => ({
+      artifactId: artifact._id,
+      title: artifact.title || artifact.fileName || 'Untitled',
+      text: (await readArtifactText(artifact, signal)) || '',
+    }))
+  );
+  return texts.filter((t) => t.text.trim());
+}
+
+/**
+ * Split text into overlapping chunks of about CHUNK_TOKENS, on line boundaries
+ */
+export function chunkText(text: string): string[] {
+  const maxChars = CHUNK_TOKENS * 4;
+  const lines = text
+    .slice(0, MAX_ARTIFACT_CHARS)
+    .split('\n')
+    // Very long lines (minified code, PDF paragraphs) are cut to fit a chunk
+    .flatMap((line) => line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g')) || ['']);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const line of lines) {
+    const lineTokens = estimateTokens(line) + 1;
+
+    if (tokens + lineTokens > CHUNK_TOKENS && current.length > 0) {
+      chunks.push(current.join('\n'));
+
+      // Carry the last few lines over so ideas split across chunks stay findable
+      const overlap: string[] = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const carried = estimateTokens(current[i]) + 1;
+        if (overlapTokens + carried > CHUNK_OVERLAP_TOKENS) break;
+        overlap.unshift(current[i]);
+        overlapTokens += carried;
+      }
+      current = overlap;
+      tokens = overlapTokens;
+    }
+
+    current.push(line);
+    tokens += lineTokens;
+  }
+
+  if (current.some((line) => line.trim())) {
+    chunks.push(current.join('\n'));
+  }
+  return chunks.filter((chunk) => chunk.trim());
+}
+
+/**
+ * Bring a subject's index up to date with its artifacts
+ */
+async function refreshIndex(subjectId: string, accessToken: string, signal?: AbortSignal) {
+  const artifacts = await listArtifacts(subjectId, accessToken, signal);
+
+  const now = Date.now();
+  const cached = indexes.get(subjectId);
+  const index =
+    cached && now - cached.usedAt <= INDEX_TTL
+      ? cached.artifacts
+      : new Map<string, IndexedArtifact>();
+  // Moved to the end, as the most recently used
+  indexes.delete(subjectId);
+
+  const current = new Set(artifacts.map((a) => a._id));
+  for (const id of index.keys()) {
+    if (!current.has(id)) index.delete(id);
+  }
+
+  for (const artifact of artifacts) {
+    const version = artifact.updatedAt || artifact.createdAt;
+    if (index.get(artifact._id)?.version === version) continue;
+
+    let text: string | null = null;
+    try {
+      text = await readArtifactText(artifact, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Indexed without chunks so a broken file is not retried on every question
+      console.error('Read artifact for AI context error:', error);
+    }
+
+    const title = artifact.title || artifact.fileName || 'Untitled';
+    index.set(artifact._id, {
+      version,
+      title,
+      fileName: artifact.fileName || null,
+      chunks: (text ? chunkText(text) : []).map((chunk) => ({
+        artifactId: artifact._id,
+        text: chunk,
+        // The title is embedded too, so asking about "the sorting file" finds it
+        vector: embed(`${title}\n${chunk}`),
+      })),
+    });
+  }
+
+  indexes.set(subjectId, { artifacts: index, bytes: indexBytes(index), usedAt: now });
+  evictIndexes(now);
+
+  return index;
+}
+
+/**
+ * Find the Canvas excerpts most relevant to a question, grouped by artifact
+ * and numbered in the order they should be cited
+ */
+export async function retrieveArtifactSources({
+  subjectId,
+  query,
+  accessToken,
+  signal,
+}: {
+  subjectId: string;
+  query: string;
+  accessToken: string;
+  signal?: AbortSignal;
+}): Promise<RetrievedSource[]> {
+  const index = await refreshIndex(subjectId, accessToken, signal);
+
+  const attached = new Set(
+    Array.from(query.matchAll(ATTACHMENT_PATTERN), (m) => m[1].trim().toLowerCase())
+  );
+  const queryVector = embed(query.replace(ATTACHMENT_PATTERN, ''));
+
+  const scored: { chunk: IndexedChunk; score: number }[] = [];
+  for (const artifact of index.values()) {
+    const isAttached =
+      attached.has(artifact.title.toLowerCase()) ||
+      (!!artifact.fileName && attached.has(artifact.fileName.toLowerCase()));
+
+    for (const chunk of artifact.chunks) {
+      const score = similarity(queryVector, chunk.vector) + (isAttached ? ATTACHMENT_BOOST : 0);
+      if (score >= MIN_SIMILARITY) scored.push({ chunk, score });
+    }
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  const sources: RetrievedSource[] = [];
+  let used = 0;
+  for (const { chunk } of scored) {
+    if (used === MAX_CHUNKS) break;
+
+    let source = sources.find((s) => s.artifactId === chunk.artifactId);
+    if (!source) {
+      source = {
+        index: sources.length + 1,
+        artifactId: chunk.artifactId,
+        title: index.get(chunk.artifactId)!.title,
+        excerpts: [],
+      };
+      sources.push(source);
+    }
+
+    if (source.excerpts.length < MAX_CHUNKS_PER_ARTIFACT) {
+      source.excerpts.push(chunk.text);
+      used++;
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Sources an answer actually cited
+ */
+export function getCitedSources(sources: RetrievedSource[], answer: string): AIMessageSource[] {
+  return sources
+    .filter((source) => answer.includes(`[${source.index}]`))
+    .map(({ index, artifactId, title }) => ({ index, artifactId, title }));
+}
+
+/**
+ * Format retrieved excerpts as a prompt section
+ */
+export function formatSources(sources: RetrievedSource[]): string {
+  const blocks = sources.map(
+    (source) =>
+      `[${source.index}] ${source.title}\n${source.excerpts.join('\n[...]\n')}\n[end of ${source.index}]`
+  );
+
+  return `Excerpts from this subject's Canvas artifacts that may help with the question. When you use one, cite it inline by its number, e.g. [1], and end your answer with a line "Sources:" listing the numbers and titles you cited. Ignore excerpts that are not relevant and do not cite them.
+
+${blocks.join('\n\n')}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * AI Chat Threads
+ *
+ * Regenerated answers and edited questions are stored as extra ai_messages rows
+ * instead of replacing the originals:
+ *   - `variant_of` points an alternative at the first message of its slot
+ *   - `reply_to_id` points an answer at the question it answers
+ *
+ * These helpers turn the flat, chronological rows into the branch that is shown
+ * (or sent to the model): one variant per slot, each answer placed right after
+ * the version of the question it replies to. Editing a question forks the
+ * thread, so later questions are only shown with the version of the edited
+ * question that was newest when they were asked. Client-safe.
+ */
+
+export interface ThreadMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  created_at: string;
+  reply_to_id?: string | null;
+  variant_of?: string | null;
+}
+
+export interface ThreadItem<T extends ThreadMessage> {
+  /** The variant shown for this slot */
+  message: T;
+  /** All variants of the slot, oldest first */
+  variants: T[];
+  /** Index of `message` in `variants` */
+  index: number;
+}
+
+/**
+ * Build the visible branch of a conversation.
+ * `selected` maps a slot's root ID to the variant ID to show; slots without a
+ * selection show their newest variant.
+ */
+export function buildThread<T extends ThreadMessage>(
+  messages: T[],
+  selected: Record<string, string> = {}
+): ThreadItem<T>[] {
+  const ids = new Set(messages.map((m) => m.id));
+  const rootOf = (m: T) => (m.variant_of && ids.has(m.variant_of) ? m.variant_of : m.id);
+
+  const slots = new Map<string, T[]>();
+  for (const message of messages) {
+    const root = rootOf(message);
+    slots.set(root, [...(slots.get(root) || []), message]);
+  }
+
+  const answersTo = new Map<string, T[]>();
+  for (const message of messages) {
+    if (rootOf(message) === message.id && message.reply_to_id && ids.has(message.reply_to_id)) {
+      answersTo.set(message.reply_to_id, [...(answersTo.get(message.reply_to_id) || []), message]);
+    }
+  }
+
+  const toItem = (root: T): ThreadItem<T> => {
+    const variants = slots.get(root.id) || [root];
+    const chosen = variants.findIndex((v) => v.id === selected[root.id]);
+    const index = chosen === -1 ? variants.length - 1 : chosen;
+    return { message: variants[index], variants, index };
+  };
+
+  // Question slots seen so far that were edited, and their newest variant yet
+  const forks = new Map<string, string>();
+  const onBranch = () =>
+    [...forks].every(([root, latest]) => toItem(slots.get(root)![0]).message.id === latest);
+
+  const thread: ThreadItem<T>[] = [];
+  const addWithAnswers = (root: T) => {
+    const item = toItem(root);
+    thread.push(item);
+    for (const answer of answersTo.get(item.message.id) || []) {
+      addWithAnswers(answer);
+    }
+  };
+
+  for (const message of messages) {
+    const root = rootOf(message);
+    const isSlotRoot = root === message.id;
+    const isAttachedAnswer = !!message.reply_to_id && ids.has(message.reply_to_id);
+    if (isSlotRoot && !isAttachedAnswer && onBranch()) {
+      addWithAnswers(message);
+    }
+
+    if (message.role === 'user' && slots.get(root)!.length > 1) {
+      forks.set(root, message.id);
+    }
+  }
+
+  return thread;
+}
+
+/**
+ * Messages on the newest branch, in thread order
+ */
+export function getActiveBranch<T extends ThreadMessage>(messages: T[]): T[] {
+  return buildThread(messages).map((item) => item.message);
+}
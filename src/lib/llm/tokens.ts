@@ -0,0 +1,30 @@
+/**
+ * Token Estimation
+ *
+ * Approximate token counts without shipping a tokenizer. English text averages
+ * roughly four characters per token for the GPT and Llama families, and each
+ * chat message carries a few tokens of role/formatting overhead.
+ */
+
+import type { LLMChatMessage } from './types';
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimate tokens for a piece of text
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate tokens for a list of chat messages
+ */
+export function estimateMessageTokens(messages: LLMChatMessage[]): number {
+  return messages.reduce(
+    (sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * LLM Provider Types
+ *
+ * Common interface implemented by every chat-completion backend the AI tutor can use.
+ */
+
+import type { AIProviderId } from '@/types/database';
+
+export type LLMProviderId = AIProviderId;
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionOptions {
+  model: string;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+
+  /**
+   * Run a completion and return the full response text
+   */
+  complete(messages: LLMChatMessage[], options: LLMCompletionOptions): Promise<string>;
+
+  /**
+   * Run a completion and yield response text as it is generated
+   */
+  stream(messages: LLMChatMessage[], options: LLMCompletionOptions): AsyncIterable<string>;
+
+  /**
+   * Estimate the prompt tokens used by a list of messages
+   */
+  countTokens(messages: LLMChatMessage[]): number;
+}
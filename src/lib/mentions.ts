@@ -0,0 +1,83 @@
+/**
+ * @mentions
+ *
+ * Parsing and autocomplete helpers for "@username" mentions in the chats.
+ * Usernames are letters, numbers and underscores. The backend parses sent
+ * messages the same way to notify the members mentioned (see
+ * backend/utils/mentions.js). Client-safe.
+ */
+
+/** A mention starts the text or follows whitespace or an opening bracket */
+const MENTION_PATTERN = /(^|[\s([{])@(\w+)/g;
+
+/** Most members suggested at once */
+export const MAX_MENTION_SUGGESTIONS = 6;
+
+export interface MentionCandidate {
+  id: string;
+  username: string;
+  avatarUrl?: string | null;
+}
+
+export type MentionPart =
+  | { text: string; mention: false }
+  | { text: string; mention: true; username: string };
+
+/**
+ * Usernames mentioned in a message, lowercased and without duplicates
+ */
+export function extractMentions(content: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[2].toLowerCase());
+  }
+  return [...usernames];
+}
+
+/**
+ * Split text into plain parts and @mentions, for highlighting
+ */
+export function splitMentions(text: string): MentionPart[] {
+  const parts: MentionPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = match.index! + match[1].length;
+    if (start > last) parts.push({ text: text.slice(last, start), mention: false });
+    parts.push({ text: `@${match[2]}`, mention: true, username: match[2] });
+    last = start + match[2].length + 1;
+  }
+
+  if (last < text.length) parts.push({ text: text.slice(last), mention: false });
+  return parts;
+}
+
+/**
+ * The partly typed username at the end of the input, or null if the member
+ * isn't typing a mention
+ */
+export function getMentionQuery(input: string): string | null {
+  const match = input.match(/(?:^|[\s([{])@(\w*)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Members whose username starts with the query, excluding the current user
+ */
+export function getMentionSuggestions(
+  query: string,
+  candidates: MentionCandidate[],
+  currentUserId?: string
+): MentionCandidate[] {
+  const prefix = query.toLowerCase();
+  return candidates
+    .filter((c) => c.id !== currentUserId && c.username.toLowerCase().startsWith(prefix))
+    .slice(0, MAX_MENTION_SUGGESTIONS);
+}
+
+/**
+ * Replace the partly typed mention at the end of the input with the username
+ */
+export function completeMention(input: string, username: string): string {
+  return input.replace(/@\w*$/, `@${username} `);
+}
@@ -0,0 +1,93 @@
+/**
+ * Chat Message Cache
+ *
+ * The newest window of a subject's group chat is cached in two tiers, both
+ * holding at most MAX_CACHED_MESSAGES messages:
+ *   - in the browser's IndexedDB, so a room shows its messages instantly
+ *     (helpers in this module), valid for CACHE_DURATION;
+ *   - in Redis on the server, shared by all members and served from
+ *     /api/chat/messages (see lib/redisMessageCache.ts), reloaded every minute.
+ *
+ * Storage errors are logged and swallowed; a cache miss just means loading
+ * from the server.
+ */
+
+import { idbRequest, isIndexedDBAvailable } from '@/lib/idb';
+
+const STORE = 'message_cache';
+
+/** How long a cached window stays valid after it was last written */
+export const CACHE_DURATION = 2 * 24 * 60 * 60 * 1000; // 2 days in milliseconds
+
+/** Only the most recent messages are cached */
+export const MAX_CACHED_MESSAGES = 100;
+
+interface LocalCacheEntry<T> {
+  subjectId: string;
+  messages: T[];
+  timestamp: number;
+}
+
+/**
+ * Keep the most recent messages of an oldest-first list
+ */
+export function trimToWindow<T>(messages: T[]): T[] {
+  return messages.slice(-MAX_CACHED_MESSAGES);
+}
+
+/**
+ * A subject's cached messages, oldest first, or null if none are cached or
+ * they expired
+ */
+export async function readLocalCache<T>(subjectId: string): Promise<T[] | null> {
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const entry = await idbRequest<LocalCacheEntry<T> | undefined>(STORE, 'readonly', (store) =>
+      store.get(subjectId)
+    );
+    if (!entry) return null;
+
+    if (Date.now() - entry.timestamp > CACHE_DURATION) {
+      await clearLocalCache(subjectId);
+      return null;
+    }
+
+    return entry.messages;
+  } catch (err) {
+    console.error('Read message cache error:', err);
+    return null;
+  }
+}
+
+/**
+ * Replace a subject's cached messages
+ */
+export async function writeLocalCache<T>(subjectId: string, messages: T[]): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const entry: LocalCacheEntry<T> = {
+    subjectId,
+    messages: trimToWindow(messages),
+    timestamp: Date.now(),
+  };
+
+  try {
+    await idbRequest(STORE, 'readwrite', (store) => store.put(entry));
+  } catch (err) {
+    console.error('Write message cache error:', err);
+  }
+}
+
+/**
+ * Forget a subject's cached messages
+ */
+export async function clearLocalCache(subjectId: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await idbRequest(STORE, 'readwrite', (store) => store.delete(subjectId));
+  } catch (err) {
+    console.error('Clear message cache error:', err);
+  }
+}
@@ -1,14 +1,15 @@
 import OpenAI from 'openai';
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Lazy initialization so routes using other providers don't crash when the key is not set
+let openai: OpenAI | null = null;
 
-export const TUTOR_PROMPT = `
-You are the ByteMeet AI Tutor, a friendly and extremely knowledgeable educational assistant. 
-Your goal is to help students learn effectively in a collaborative environment.
-- When answering technical questions, focus on conceptual understanding.
-- Provide code snippets when helpful, and explain each part.
-- If multiple students are in the room, encourage them to discuss.
-- Be encouraging and patient.
-`;
+export function getOpenAIClient(): OpenAI {
+  if (!openai) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured. Please set OPENAI_API_KEY in .env.local');
+    }
+    openai = new OpenAI({ apiKey });
+  }
+  return openai;
+}
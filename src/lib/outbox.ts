@@ -0,0 +1,82 @@
+/**
+ * Chat Outbox
+ *
+ * Messages are written to a persistent IndexedDB outbox before they are sent,
+ * so nothing typed on a flaky connection is lost. Each message gets its ID on
+ * the client; the row is inserted with that ID, which lets a retry of a send
+ * that did reach the server be recognised, and the realtime echo be matched
+ * to the optimistic copy. Entries are removed once delivered.
+ *
+ * Storage errors are logged and swallowed: without IndexedDB (private
+ * browsing, server rendering) the outbox only lives as long as the page.
+ */
+
+import { idbRequest, isIndexedDBAvailable } from '@/lib/idb';
+import type { TypingChatType } from '@/types/database';
+
+const STORE = 'outbox';
+
+/** Postgres unique violation, returned when a retried insert already landed */
+export const DUPLICATE_KEY_ERROR = '23505';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry<Row extends { id: string } = { id: string }> {
+  /** Same as the message ID */
+  id: string;
+  subjectId: string;
+  chatType: TypingChatType;
+  /** Row inserted into the chat's table */
+  row: Row;
+  status: OutboxStatus;
+  attempts: number;
+  /** When the member sent it; shown until the server assigns created_at */
+  createdAt: string;
+  error?: string;
+}
+
+/**
+ * Entries waiting in one of a subject's chats, oldest first
+ */
+export async function loadOutbox<Row extends { id: string }>(
+  subjectId: string,
+  chatType: TypingChatType
+): Promise<OutboxEntry<Row>[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  try {
+    const entries = await idbRequest<OutboxEntry<Row>[]>(STORE, 'readonly', (store) =>
+      store.index('subject_chat').getAll([subjectId, chatType])
+    );
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (err) {
+    console.error('Load outbox error:', err);
+    return [];
+  }
+}
+
+/**
+ * Add or update an entry
+ */
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await idbRequest(STORE, 'readwrite', (store) => store.put(entry));
+  } catch (err) {
+    console.error('Save outbox entry error:', err);
+  }
+}
+
+/**
+ * Remove a delivered or discarded entry
+ */
+export async function removeOutboxEntry(id: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await idbRequest(STORE, 'readwrite', (store) => store.delete(id));
+  } catch (err) {
+    console.error('Remove outbox entry error:', err);
+  }
+}
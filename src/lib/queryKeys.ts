@@ -48,6 +48,13 @@ export const queryKeys = {
     all: ['messages'] as const,
     bySubject: (subjectId: string) => [...queryKeys.messages.all, 'subject', subjectId] as const,
   },
+
+  // Room search queries
+  search: {
+    all: ['search'] as const,
+    room: (subjectId: string, query: string) =>
+      [...queryKeys.search.all, 'room', subjectId, query] as const,
+  },
 };
 
 export default queryKeys;
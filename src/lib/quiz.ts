@@ -0,0 +1,133 @@
+/**
+ * Quiz Content
+ *
+ * Format of quiz artifacts: the tutor's practice material stored as JSON in
+ * the artifact's content. A quiz artifact holds either a quiz (multiple choice
+ * and short answer questions) or a flashcard deck. Attempts are graded by the
+ * backend (backend/utils/quiz.js). Client-safe.
+ */
+
+export type PracticeKind = 'quiz' | 'flashcards';
+
+/** Bounds on how many questions or cards can be generated at once */
+export const MIN_PRACTICE_ITEMS = 3;
+export const MAX_PRACTICE_ITEMS = 20;
+
+export interface MultipleChoiceQuestion {
+  id: string;
+  type: 'multiple_choice';
+  prompt: string;
+  options: string[];
+  correctIndex: number;
+  explanation?: string;
+}
+
+export interface ShortAnswerQuestion {
+  id: string;
+  type: 'short_answer';
+  prompt: string;
+  answer: string;
+  /** Other wordings that also count as correct */
+  acceptedAnswers?: string[];
+  explanation?: string;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | ShortAnswerQuestion;
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+}
+
+export type QuizContent =
+  | { kind: 'quiz'; questions: QuizQuestion[] }
+  | { kind: 'flashcards'; cards: Flashcard[] };
+
+/** Answers keyed by question ID (option index or text) or card ID (knew it) */
+export type QuizAnswers = Record<string, number | string | boolean>;
+
+export const PRACTICE_KINDS: { id: PracticeKind; label: string; description: string }[] = [
+  { id: 'quiz', label: 'Quiz', description: 'Multiple choice and short answer questions' },
+  { id: 'flashcards', label: 'Flashcards', description: 'A deck of cards to flip through' },
+];
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validate quiz content, dropping malformed questions or cards.
+ * Returns null if nothing usable is left.
+ */
+export function normalizeQuizContent(value: unknown): QuizContent | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+
+  if (data.kind === 'flashcards' && Array.isArray(data.cards)) {
+    const cards = data.cards
+      .filter((c) => c && isText(c.front) && isText(c.back))
+      .map((c, i) => ({ id: `c${i + 1}`, front: c.front.trim(), back: c.back.trim() }));
+
+    return cards.length > 0 ? { kind: 'flashcards', cards } : null;
+  }
+
+  if (data.kind === 'quiz' && Array.isArray(data.questions)) {
+    const questions: QuizQuestion[] = [];
+
+    data.questions.forEach((q) => {
+      if (!q || !isText(q.prompt)) return;
+      const id = `q${questions.length + 1}`;
+      const explanation = isText(q.explanation) ? q.explanation.trim() : undefined;
+
+      if (q.type === 'multiple_choice') {
+        const options = Array.isArray(q.options) ? q.options.filter(isText) : [];
+        const correctIndex = Number(q.correctIndex);
+        if (options.length < 2 || !Number.isInteger(correctIndex) || !options[correctIndex]) {
+          return;
+        }
+        questions.push({
+          id,
+          type: 'multiple_choice',
+          prompt: q.prompt.trim(),
+          options,
+          correctIndex,
+          explanation,
+        });
+      } else if (q.type === 'short_answer' && isText(q.answer)) {
+        questions.push({
+          id,
+          type: 'short_answer',
+          prompt: q.prompt.trim(),
+          answer: q.answer.trim(),
+          acceptedAnswers: Array.isArray(q.acceptedAnswers)
+            ? q.acceptedAnswers.filter(isText)
+            : undefined,
+          explanation,
+        });
+      }
+    });
+
+    return questions.length > 0 ? { kind: 'quiz', questions } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a quiz artifact's content, or null if it is not valid
+ */
+export function parseQuizContent(content?: string | null): QuizContent | null {
+  if (!content) return null;
+  try {
+    return normalizeQuizContent(JSON.parse(content));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Number of questions or cards in a quiz
+ */
+export function getQuizLength(quiz: QuizContent): number {
+  return quiz.kind === 'quiz' ? quiz.questions.length : quiz.cards.length;
+}
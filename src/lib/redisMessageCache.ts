@@ -0,0 +1,188 @@
+/**
+ * Redis Message Cache (server only)
+ *
+ * Shared cache of the newest window of each subject's group chat, so opening
+ * a room doesn't query Supabase for every member. A window is stored as two
+ * keys: a sorted set of message IDs scored by created_at, and a hash of the
+ * message rows as JSON. A window holds at most MAX_CACHED_MESSAGES messages
+ * (see lib/messageCache.ts).
+ *
+ * Members write to Supabase directly and report each change through
+ * syncMessage, so a change that is never reported (a failed call, another
+ * client) would leave the window stale. Windows are therefore reloaded from
+ * Supabase REDIS_CACHE_DURATION after they were loaded; syncs don't extend
+ * that. Every sync bumps a per-subject version, and a window loaded before a
+ * sync is not written back.
+ *
+ * Without REDIS_URL every read goes to Supabase.
+ */
+
+import { redis } from '@/lib/redis';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { MAX_CACHED_MESSAGES } from '@/lib/messageCache';
+import type { FriendMessage } from '@/types/database';
+
+const idsKey = (subjectId: string) => `chat:${subjectId}:ids`;
+const messagesKey = (subjectId: string) => `chat:${subjectId}:messages`;
+const versionKey = (subjectId: string) => `chat:${subjectId}:version`;
+
+/** How long a window is served before it is reloaded from Supabase */
+const REDIS_CACHE_DURATION = 60 * 1000; // 1 minute in milliseconds
+
+/** Outlives any window, so a load can't miss a sync made while it ran */
+const VERSION_DURATION = 24 * 60 * 60 * 1000; // 1 day in milliseconds
+
+/**
+ * The newest messages straight from Supabase, oldest first
+ */
+async function loadWindow(subjectId: string): Promise<FriendMessage[]> {
+  const { data, error } = await supabaseAdmin
+    .from('friend_messages')
+    .select('*')
+    .eq('subject_id', subjectId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_CACHED_MESSAGES);
+
+  if (error) throw error;
+  return ((data || []) as FriendMessage[]).reverse();
+}
+
+/**
+ * The cached window, oldest first, or null on a miss
+ */
+async function readWindow(subjectId: string): Promise<FriendMessage[] | null> {
+  if (!redis) return null;
+
+  const ids = await redis.zrange(idsKey(subjectId), 0, -1);
+  if (ids.length === 0) return null;
+
+  const rows = await redis.hmget(messagesKey(subjectId), ...ids);
+  // A half-expired window is treated as a miss
+  if (rows.some((row) => row === null)) return null;
+
+  return rows.map((row) => JSON.parse(row!) as FriendMessage);
+}
+
+/**
+ * Replace the cached window, unless a message was synced since `version` was
+ * read: the rows loaded before then may already be out of date.
+ */
+const WRITE_WINDOW_SCRIPT = `
+if (redis.call('GET', KEYS[3]) or '0') ~= ARGV[1] then return 0 end
+redis.call('DEL', KEYS[1], KEYS[2])
+for i = 3, #ARGV, 3 do
+  redis.call('ZADD', KEYS[1], ARGV[i], ARGV[i + 1])
+  redis.call('HSET', KEYS[2], ARGV[i + 1], ARGV[i + 2])
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+redis.call('PEXPIRE', KEYS[2], ARGV[2])
+return 1
+`;
+
+/**
+ * Add or replace message ARGV[2] (score ARGV[3], row ARGV[4]), or remove it
+ * when no row is given, then trim the window to ARGV[1] messages. The
+ * window's expiry is kept; one that is missing or half-expired is left alone.
+ */
+const SYNC_MESSAGE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 or redis.call('EXISTS', KEYS[2]) == 0 then return 0 end
+if ARGV[4] then
+  redis.call('ZADD', KEYS[1], ARGV[3], ARGV[2])
+  redis.call('HSET', KEYS[2], ARGV[2], ARGV[4])
+else
+  redis.call('ZREM', KEYS[1], ARGV[2])
+  redis.call('HDEL', KEYS[2], ARGV[2])
+end
+local overflow = redis.call('ZRANGE', KEYS[1], 0, -(tonumber(ARGV[1]) + 1))
+if #overflow > 0 then
+  redis.call('ZREM', KEYS[1], unpack(overflow))
+  redis.call('HDEL', KEYS[2], unpack(overflow))
+end
+return 1
+`;
+
+async function writeWindow(
+  subjectId: string,
+  messages: FriendMessage[],
+  version: string
+): Promise<void> {
+  if (!redis || messages.length === 0) return;
+
+  await redis.eval(
+    WRITE_WINDOW_SCRIPT,
+    3,
+    idsKey(subjectId),
+    messagesKey(subjectId),
+    versionKey(subjectId),
+    version,
+    REDIS_CACHE_DURATION,
+    ...messages.flatMap((m) => [Date.parse(m.created_at), m.id, JSON.stringify(m)])
+  );
+}
+
+/**
+ * A subject's newest messages, oldest first, from Redis when cached.
+ * A miss is filled from Supabase.
+ */
+export async function getMessageWindow(
+  subjectId: string
+): Promise<{ messages: FriendMessage[]; cached: boolean }> {
+  try {
+    const cached = await readWindow(subjectId);
+    if (cached) return { messages: cached, cached: true };
+  } catch (err) {
+    console.error('Redis message cache read error:', err);
+  }
+
+  let version: string | null = null;
+  try {
+    version = redis ? ((await redis.get(versionKey(subjectId))) ?? '0') : null;
+  } catch (err) {
+    console.error('Redis message cache read error:', err);
+  }
+
+  const messages = await loadWindow(subjectId);
+  if (version !== null) {
+    writeWindow(subjectId, messages, version).catch((err) =>
+      console.error('Redis message cache write error:', err)
+    );
+  }
+
+  return { messages, cached: false };
+}
+
+/**
+ * Bring one message of a cached window up to date with Supabase: added or
+ * replaced if the row exists, dropped if it was deleted. Subjects without a
+ * cached window are left alone; their next read loads it.
+ */
+export async function syncMessage(subjectId: string, messageId: string): Promise<void> {
+  if (!redis) return;
+
+  // Bumped before reading the row, so a window loading meanwhile is discarded
+  await redis
+    .multi()
+    .incr(versionKey(subjectId))
+    .pexpire(versionKey(subjectId), VERSION_DURATION)
+    .exec();
+  if (!(await redis.exists(idsKey(subjectId)))) return;
+
+  const { data: message, error } = await supabaseAdmin
+    .from('friend_messages')
+    .select('*')
+    .eq('id', messageId)
+    .eq('subject_id', subjectId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  await redis.eval(
+    SYNC_MESSAGE_SCRIPT,
+    2,
+    idsKey(subjectId),
+    messagesKey(subjectId),
+    MAX_CACHED_MESSAGES,
+    messageId,
+    ...(message ? [Date.parse(message.created_at), JSON.stringify(message)] : [])
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Server Session Helpers
+ *
+ * Verifies the backend-issued access token on Next.js route handlers and
+ * checks subject membership. The token is read from the `accessToken` cookie
+ * or an `Authorization: Bearer` header, mirroring backend/middleware/auth.js.
+ */
+
+import jwt from 'jsonwebtoken';
+import { jsonError } from '@/lib/apiResponse';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'bytemeet-key-for-prod';
+
+export interface SessionUser {
+  userId: string;
+  email: string;
+  username: string;
+}
+
+interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  username: string;
+  type: string;
+}
+
+/**
+ * Get the raw access token sent with a request, e.g. to forward it to the backend
+ */
+export function getAccessToken(request: Request): string | null {
+  let token: string | undefined;
+
+  const authHeader = request.headers.get('authorization') || '';
+  if (authHeader.startsWith('Bearer ')) {
+    token = authHeader.substring(7);
+  }
+
+  if (!token) {
+    const cookieHeader = request.headers.get('cookie') || '';
+    cookieHeader.split(';').forEach((cookie) => {
+      const [name, value] = cookie.trim().split('=');
+      if (name === 'accessToken' && value) {
+        token = value;
+      }
+    });
+  }
+
+  return token || null;
+}
+
+/**
+ * Get the authenticated user for a request, or null if the token is missing or invalid
+ */
+export function getSessionUser(request: Request): SessionUser | null {
+  const token = getAccessToken(request);
+  if (!token) return null;
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+    if (decoded.type !== 'access' || !decoded.userId) return null;
+
+    return {
+      userId: decoded.userId,
+      email: decoded.email,
+      username: decoded.username,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the caller's approved membership in a subject, or null if they are not a member
+ */
+export async function getApprovedMembership(subjectId: string, userId: string) {
+  const { data: membership } = await supabaseAdmin
+    .from('subject_members')
+    .select('role, status')
+    .eq('subject_id', subjectId)
+    .eq('user_id', userId)
+    .single();
+
+  if (!membership || membership.status !== 'approved') {
+    return null;
+  }
+
+  return membership as { role: 'owner' | 'admin' | 'member'; status: 'approved' };
+}
+
+/**
+ * Authenticate the caller and check they are an approved member of the subject.
+ * Returns the user, or the error response to send.
+ */
+export async function authorizeMember(request: Request, subjectId: string | null) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return { error: jsonError(401, 'Authentication required') };
+  }
+
+  if (!subjectId) {
+    return { error: jsonError(400, 'Subject ID is required') };
+  }
+
+  const membership = await getApprovedMembership(subjectId, user.userId);
+  if (!membership) {
+    return { error: jsonError(403, 'Access denied') };
+  }
+
+  return { user };
+}
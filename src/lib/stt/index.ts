@@ -0,0 +1,68 @@
+/**
+ * Speech-to-Text Provider Registry (server only)
+ *
+ * Resolves the configured transcription provider to an adapter. Unlike the
+ * tutor's LLM, the provider is chosen for the whole deployment with
+ * STT_PROVIDER: `local` points at a Whisper-compatible server, so captions
+ * work without cloud access. Clients are created lazily so a missing key only
+ * fails requests that use that provider.
+ */
+
+import OpenAI from 'openai';
+import { getOpenAIClient } from '@/lib/openai';
+import { createOpenAISTTProvider } from './openai';
+import { mockSTTProvider } from './mock';
+import type { STTProvider, STTProviderId } from './types';
+
+export * from './types';
+
+const LOCAL_STT_BASE_URL = process.env.LOCAL_STT_BASE_URL || 'http://localhost:8000/v1';
+
+const DEFAULT_MODELS: Record<STTProviderId, string> = {
+  openai: 'whisper-1',
+  local: 'Systran/faster-whisper-small',
+  mock: 'mock-whisper',
+};
+
+const providers = new Map<STTProviderId, STTProvider>();
+
+function createProvider(id: STTProviderId): STTProvider {
+  switch (id) {
+    case 'openai':
+      return createOpenAISTTProvider('openai', getOpenAIClient());
+    case 'local':
+      return createOpenAISTTProvider(
+        'local',
+        new OpenAI({
+          baseURL: LOCAL_STT_BASE_URL,
+          // Local servers ignore the key, but the SDK requires one
+          apiKey: process.env.LOCAL_STT_API_KEY || 'local',
+        })
+      );
+    case 'mock':
+      return mockSTTProvider;
+  }
+}
+
+function getProviderId(): STTProviderId {
+  const id = process.env.STT_PROVIDER;
+  return id === 'local' || id === 'mock' ? id : 'openai';
+}
+
+/**
+ * Resolve the provider and model to transcribe call audio with
+ */
+export function resolveSTTConfig() {
+  const id = getProviderId();
+
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createProvider(id);
+    providers.set(id, provider);
+  }
+
+  return {
+    provider,
+    model: process.env.STT_MODEL?.trim() || DEFAULT_MODELS[id],
+  };
+}
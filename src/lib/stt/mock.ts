@@ -0,0 +1,17 @@
+/**
+ * Mock Speech-to-Text Provider
+ *
+ * Deterministic provider for tests and offline development. The text only
+ * depends on the clip's size, so the same audio always produces the same
+ * caption.
+ */
+
+import type { STTProvider } from './types';
+
+export const mockSTTProvider: STTProvider = {
+  id: 'mock',
+
+  async transcribe(audio: File) {
+    return `Mock caption for ${Math.round(audio.size / 1024)} KB of audio`;
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * OpenAI Speech-to-Text Provider
+ *
+ * Adapter over the OpenAI SDK's transcription API. Also backs the local
+ * provider, since faster-whisper-server, whisper.cpp and LocalAI expose the
+ * same /audio/transcriptions endpoint.
+ */
+
+import OpenAI from 'openai';
+import type { STTProvider, STTProviderId, STTTranscribeOptions } from './types';
+
+export function createOpenAISTTProvider(id: STTProviderId, client: OpenAI): STTProvider {
+  return {
+    id,
+
+    async transcribe(audio: File, options: STTTranscribeOptions) {
+      const response = await client.audio.transcriptions.create(
+        {
+          file: audio,
+          model: options.model,
+          language: options.language,
+          response_format: 'json',
+        },
+        { signal: options.signal }
+      );
+
+      return response.text.trim();
+    },
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Speech-to-Text Provider Types
+ *
+ * Common interface implemented by every transcription backend used for call
+ * captions.
+ */
+
+export type STTProviderId = 'openai' | 'local' | 'mock';
+
+export interface STTTranscribeOptions {
+  model: string;
+  /** ISO-639-1 code of the spoken language; the provider detects it when omitted */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface STTProvider {
+  id: STTProviderId;
+
+  /**
+   * Transcribe a short audio clip and return its text
+   */
+  transcribe(audio: File, options: STTTranscribeOptions): Promise<string>;
+}
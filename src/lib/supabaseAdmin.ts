@@ -0,0 +1,10 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Server-only Supabase client using the service key.
+ * Never import this from client components.
+ */
+export const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
@@ -44,6 +44,8 @@ interface Notification {
     subjectId?: string;
     subjectName?: string;
     artifactId?: string;
+    messageId?: string;
+    chatType?: 'FRIEND' | 'AI';
     fromUser?: {
       id: string;
       username: string;
@@ -125,6 +127,8 @@ interface NotificationData {
   subjectId?: string;
   subjectName?: string;
   artifactId?: string;
+  messageId?: string;
+  chatType?: 'FRIEND' | 'AI';
 }
 
 interface NotificationNode {
@@ -1,66 +1,37 @@
 /**
  * AI Service
  *
- * Service for interacting with OpenAI API for AI tutor functionality
+ * Client for the AI tutor. Completions run on the server via /api/ai/chat
+ * so the OpenAI key never reaches the browser. The system prompt and the
+ * conversation context are built there from the subject's tutor settings and
+ * saved ai_messages (see lib/llm/prompt.ts and lib/llm/context.ts).
  */
 
-import OpenAI from 'openai';
-
-// Lazy initialization to prevent crash when API key is not set
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openai) {
-    const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        'OpenAI API key not configured. Please set NEXT_PUBLIC_OPENAI_API_KEY in .env.local'
-      );
-    }
-    openai = new OpenAI({
-      apiKey,
-      dangerouslyAllowBrowser: true, // Note: In production, use backend proxy
-    });
-  }
-  return openai;
-}
+import type { AIMessageSource } from '@/types/database';
+import type { PracticeKind, QuizContent } from '@/lib/quiz';
+import type { AIQueueSnapshot } from '@/lib/aiQueue';
 
 /**
- * AI Tutor System Prompt
+ * Model and token usage reported for an AI response
  */
-const SYSTEM_PROMPT = `You are ByteMeet AI Tutor - a friendly, helpful, and knowledgeable educational assistant for study groups.
-
-Your role is to:
-1. Help students understand complex concepts across multiple subjects
-2. Provide clear, step-by-step explanations
-3. Answer questions in an engaging and encouraging manner
-4. Generate code examples, diagrams, and visual aids when helpful
-5. Adapt your teaching style to the student's level
-
-Guidelines:
-- Be encouraging and supportive
-- Use analogies and real-world examples
-- Break down complex topics into digestible parts
-- When providing code, use proper formatting with language tags
-- For diagrams, use Mermaid syntax within code blocks
-- If you don't know something, admit it honestly
-- Keep responses concise but comprehensive
-
-When generating artifacts:
-- Code: Use \`\`\`language syntax
-- Diagrams: Use \`\`\`mermaid syntax
-- Math: Use LaTeX within $$ delimiters
-
-Remember: You're part of a collaborative study session. Multiple students may be asking questions, so be helpful to everyone!`;
+export interface AIUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
 
 /**
- * Message type for AI chat
+ * Options for sendToAI
  */
-export interface AIMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  username?: string;
-  timestamp?: string;
+export interface SendToAIOptions {
+  onStream?: (chunk: string) => void;
+  /**
+   * Called when the request has to wait behind other members' questions, with
+   * the ID that withdraws it (see cancelAIRequest)
+   */
+  onQueued?: (position: number, requestId: string) => void;
+  /** Aborts the request; text streamed so far is returned with `stopped: true` */
+  signal?: AbortSignal;
 }
 
 /**
@@ -73,62 +44,225 @@ export interface Artifact {
   title?: string;
 }
 
+function authHeaders(): Record<string, string> {
+  const token = typeof window !== 'undefined' ? localStorage.getItem('authToken') : null;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 /**
- * Send message to AI and get response
+ * Get the AI response to a saved user message
+ *
+ * The user's message must already be saved to ai_messages. The request waits its
+ * turn in the subject's queue, then streams the completion from the server-side
+ * AI route. `sources` lists the Canvas artifacts the answer cites. `cancelled`
+ * is true if the request was withdrawn while queued, and `stopped` is true if it
+ * was aborted through `signal`.
  */
 export async function sendToAI(
-  messages: AIMessage[],
-  onStream?: (chunk: string) => void
-): Promise<{ content: string; artifacts: Artifact[] }> {
+  subjectId: string,
+  messageId: string,
+  { onStream, onQueued, signal }: SendToAIOptions = {}
+): Promise<{
+  content: string;
+  artifacts: Artifact[];
+  usage: AIUsage | null;
+  sources: AIMessageSource[];
+  cancelled: boolean;
+  stopped: boolean;
+}> {
+  let fullContent = '';
+  let usage: AIUsage | null = null;
+  let sources: AIMessageSource[] = [];
+  let cancelled = false;
+
   try {
-    const client = getOpenAIClient();
-
-    const formattedMessages = [
-      { role: 'system' as const, content: SYSTEM_PROMPT },
-      ...messages.map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.username && m.role === 'user' ? `[${m.username}]: ${m.content}` : m.content,
-      })),
-    ];
-
-    if (onStream) {
-      // Streaming response
-      const stream = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: formattedMessages,
-        stream: true,
-        max_tokens: 2048,
-      });
+    const response = await fetch('/api/ai/chat', {
+      signal,
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(),
+      },
+      body: JSON.stringify({ subjectId, messageId }),
+    });
 
-      let fullContent = '';
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || `AI request failed with status ${response.status}`);
+    }
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        fullContent += content;
-        onStream(content);
-      }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
 
-      const artifacts = extractArtifacts(fullContent);
-      return { content: fullContent, artifacts };
-    } else {
-      // Non-streaming response
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: formattedMessages,
-        max_tokens: 2048,
-      });
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const data = event.replace(/^data: /, '').trim();
+        if (!data || data === '[DONE]') continue;
 
-      const content = response.choices[0]?.message?.content || '';
-      const artifacts = extractArtifacts(content);
-      return { content, artifacts };
+        const parsed = JSON.parse(data) as {
+          content?: string;
+          usage?: AIUsage;
+          sources?: AIMessageSource[];
+          queue?: { requestId: string; position: number };
+          cancelled?: boolean;
+          error?: string;
+        };
+        if (parsed.error) {
+          throw new Error(parsed.error);
+        }
+        if (parsed.content) {
+          fullContent += parsed.content;
+          onStream?.(parsed.content);
+        }
+        if (parsed.usage) {
+          usage = parsed.usage;
+        }
+        if (parsed.sources) {
+          sources = parsed.sources;
+        }
+        if (parsed.queue) {
+          onQueued?.(parsed.queue.position, parsed.queue.requestId);
+        }
+        if (parsed.cancelled) {
+          cancelled = true;
+        }
+      }
     }
+
+    const artifacts = extractArtifacts(fullContent);
+    return { content: fullContent, artifacts, usage, sources, cancelled, stopped: false };
   } catch (error: unknown) {
+    if (signal?.aborted) {
+      // Keep whatever was streamed before the user stopped the response
+      return {
+        content: fullContent,
+        artifacts: extractArtifacts(fullContent),
+        usage,
+        sources,
+        cancelled,
+        stopped: true,
+      };
+    }
+
     const e = error instanceof Error ? error : new Error('Unknown error');
     console.error('AI service error:', e);
     throw new Error(e.message || 'Failed to get AI response');
   }
 }
 
+/**
+ * Get the current AI queue for a subject
+ */
+export async function getAIQueue(subjectId: string): Promise<AIQueueSnapshot> {
+  const response = await fetch(`/api/ai/queue?subjectId=${encodeURIComponent(subjectId)}`, {
+    credentials: 'include',
+    headers: authHeaders(),
+  });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Failed to load AI queue');
+  }
+  return data.data;
+}
+
+/**
+ * Withdraw a request that is still waiting in the AI queue
+ */
+export async function cancelAIRequest(subjectId: string, requestId: string): Promise<void> {
+  const params = new URLSearchParams({ subjectId, requestId });
+  const response = await fetch(`/api/ai/queue?${params.toString()}`, {
+    method: 'DELETE',
+    credentials: 'include',
+    headers: authHeaders(),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.message || 'Failed to cancel AI request');
+  }
+}
+
+/**
+ * Generate a quiz or flashcard deck from the subject's AI chat and selected artifacts
+ */
+export async function generatePracticeSet(
+  subjectId: string,
+  options: { kind: PracticeKind; count: number; artifactIds: string[] }
+): Promise<{ title: string; content: QuizContent }> {
+  const response = await fetch('/api/ai/practice', {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ subjectId, ...options }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.message || 'Failed to generate practice set');
+  }
+  return data.data;
+}
+
+/**
+ * Have the tutor summarize a subject's group chat (/summarize)
+ */
+export async function summarizeGroupChat(subjectId: string): Promise<string> {
+  const response = await fetch('/api/ai/summarize', {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ subjectId }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.message || 'Failed to summarize the chat');
+  }
+  return data.data.summary;
+}
+
+/**
+ * Transcribe a clip of the member's microphone during a call, for captions.
+ * The server also adds the text to the call's transcript.
+ */
+export async function transcribeCallAudio(
+  subjectId: string,
+  audio: Blob,
+  spokenAt: number
+): Promise<string> {
+  const form = new FormData();
+  form.append('subjectId', subjectId);
+  // Safari records MP4; the server goes by the extension to decode the clip
+  form.append('audio', audio, audio.type.includes('mp4') ? 'clip.mp4' : 'clip.webm');
+  form.append('spokenAt', String(spokenAt));
+
+  const response = await fetch('/api/ai/transcribe', {
+    method: 'POST',
+    credentials: 'include',
+    headers: authHeaders(),
+    body: form,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.message || 'Failed to transcribe audio');
+  }
+  return data.data.text;
+}
+
 /**
  * Extract artifacts (code blocks, diagrams) from AI response
  */
@@ -172,6 +306,101 @@ export function extractArtifacts(content: string): Artifact[] {
   return artifacts;
 }
 
+/**
+ * Input for the createArtifact GraphQL mutation (enum values are uppercase)
+ */
+export interface AIArtifactInput {
+  subjectId: string;
+  messageId: string;
+  type: 'CODE' | 'IMAGE' | 'DIAGRAM' | 'MARKDOWN' | 'QUIZ';
+  title: string;
+  content?: string;
+  fileUrl?: string;
+  language?: string;
+  diagramType?: 'MERMAID';
+  isAiGenerated: true;
+}
+
+// Code fence tags mapped to the ProgrammingLanguage enum; anything else is OTHER
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  'c++': 'cpp',
+  cc: 'cpp',
+  cs: 'csharp',
+  golang: 'go',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  md: 'markdown',
+};
+
+const PROGRAMMING_LANGUAGES = [
+  'javascript',
+  'typescript',
+  'python',
+  'java',
+  'cpp',
+  'c',
+  'csharp',
+  'go',
+  'rust',
+  'ruby',
+  'php',
+  'swift',
+  'kotlin',
+  'sql',
+  'html',
+  'css',
+  'json',
+  'markdown',
+  'shell',
+];
+
+function toProgrammingLanguage(language?: string): string {
+  const normalized = (language || '').toLowerCase();
+  const resolved = LANGUAGE_ALIASES[normalized] || normalized;
+  return PROGRAMMING_LANGUAGES.includes(resolved) ? resolved.toUpperCase() : 'OTHER';
+}
+
+/**
+ * Map an extracted artifact to createArtifact input for the Canvas
+ */
+export function toArtifactInput(
+  artifact: Artifact,
+  subjectId: string,
+  messageId: string
+): AIArtifactInput {
+  const base = {
+    subjectId,
+    messageId,
+    title: artifact.title || 'AI Artifact',
+    isAiGenerated: true as const,
+  };
+
+  switch (artifact.type) {
+    case 'code':
+      return {
+        ...base,
+        type: 'CODE',
+        content: artifact.content,
+        language: toProgrammingLanguage(artifact.language),
+      };
+    case 'mermaid':
+      return { ...base, type: 'DIAGRAM', content: artifact.content, diagramType: 'MERMAID' };
+    case 'latex':
+      // The Canvas has no LaTeX type, so keep the $$ block as markdown
+      return { ...base, type: 'MARKDOWN', content: `$$\n${artifact.content}\n$$` };
+    case 'image':
+      return { ...base, type: 'IMAGE', fileUrl: artifact.content };
+  }
+}
+
 /**
  * Check if content contains artifacts
  */
@@ -181,6 +410,10 @@ export function hasArtifacts(content: string): boolean {
 
 const aiService = {
   sendToAI,
+  getAIQueue,
+  cancelAIRequest,
+  generatePracticeSet,
+  summarizeGroupChat,
   extractArtifacts,
   hasArtifacts,
 };
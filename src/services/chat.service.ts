@@ -0,0 +1,45 @@
+/**
+ * Chat Service
+ *
+ * Client for the group chat's server-side message cache at
+ * /api/chat/messages (see lib/redisMessageCache.ts).
+ */
+
+function authHeaders(): Record<string, string> {
+  const token = typeof window !== 'undefined' ? localStorage.getItem('authToken') : null;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * A subject's newest group chat messages, oldest first
+ */
+export async function fetchMessageWindow<T>(subjectId: string): Promise<T[]> {
+  const response = await fetch(`/api/chat/messages?subjectId=${encodeURIComponent(subjectId)}`, {
+    credentials: 'include',
+    headers: authHeaders(),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.message || 'Failed to load messages');
+  }
+  return data.data.messages;
+}
+
+/**
+ * Tell the server cache a message was sent, edited or deleted
+ */
+export async function syncCachedMessage(subjectId: string, messageId: string): Promise<void> {
+  const response = await fetch('/api/chat/messages', {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ subjectId, messageId }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.message || 'Failed to update message cache');
+  }
+}
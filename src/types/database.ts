@@ -10,6 +10,16 @@
 // SUBJECT (Study Room)
 // =============================================================================
 
+/**
+ * LLM provider used by a subject's AI tutor
+ */
+export type AIProviderId = 'openai' | 'local' | 'mock';
+
+/**
+ * Level the AI tutor pitches its explanations at
+ */
+export type AIDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
 /**
  * Represents a study room/subject where students can collaborate
  */
@@ -20,6 +30,12 @@ export interface Subject {
   created_by: string;
   invite_code: string;
   is_active: boolean;
+  ai_provider?: AIProviderId;
+  ai_model?: string | null;
+  ai_persona?: string | null;
+  ai_difficulty?: AIDifficulty | null;
+  ai_language?: string | null;
+  ai_instructions?: string | null;
   created_at: string;
   updated_at?: string;
 }
@@ -38,6 +54,12 @@ export interface CreateSubjectInput {
 export interface UpdateSubjectInput {
   name?: string;
   description?: string;
+  aiProvider?: AIProviderId;
+  aiModel?: string;
+  aiPersona?: string;
+  aiDifficulty?: AIDifficulty | null;
+  aiLanguage?: string;
+  aiInstructions?: string;
 }
 
 // =============================================================================
@@ -90,7 +112,7 @@ export interface JoinSubjectInput {
 /**
  * Message type enum
  */
-export type MessageType = 'text' | 'file' | 'image' | 'system';
+export type MessageType = 'text' | 'file' | 'image' | 'system' | 'poll';
 
 /**
  * AI message role
@@ -109,6 +131,15 @@ export interface BaseMessage {
   created_at: string;
 }
 
+/**
+ * Data stored with messages posted by slash commands
+ */
+export interface FriendMessageMetadata {
+  command?: 'ask' | 'summarize' | 'call';
+  mode?: 'video' | 'audio';
+  options?: string[];
+}
+
 /**
  * Friend/Group chat message
  */
@@ -116,6 +147,7 @@ export interface FriendMessage extends BaseMessage {
   user_id: string;
   username: string;
   message_type: MessageType;
+  metadata?: FriendMessageMetadata | null;
   file_url?: string;
   file_name?: string;
   file_size?: number;
@@ -124,6 +156,15 @@ export interface FriendMessage extends BaseMessage {
   edited_at?: string;
 }
 
+/**
+ * Canvas artifact an AI response cited, numbered as in the response text
+ */
+export interface AIMessageSource {
+  index: number;
+  artifactId: string;
+  title: string;
+}
+
 /**
  * AI chat message
  */
@@ -133,6 +174,79 @@ export interface AIMessage extends BaseMessage {
   artifact_ids?: string[];
   model_used?: string;
   token_count?: number;
+  reply_to_id?: string | null;
+  variant_of?: string | null;
+  sources?: AIMessageSource[] | null;
+}
+
+/**
+ * A member's vote on a poll message
+ */
+export interface PollVote {
+  message_id: string;
+  subject_id: string;
+  user_id: string;
+  option_index: number;
+  created_at: string;
+}
+
+/**
+ * Chat a typing indicator or reaction belongs to
+ */
+export type TypingChatType = 'friend' | 'ai';
+
+/**
+ * A member's emoji reaction on a group or AI chat message
+ */
+export interface MessageReaction {
+  id: string;
+  message_id: string;
+  chat_type: TypingChatType;
+  subject_id: string;
+  user_id: string;
+  username: string;
+  emoji: string;
+  created_at: string;
+}
+
+/**
+ * A member's rating of an AI tutor answer
+ */
+export interface AIFeedback {
+  message_id: string;
+  subject_id: string;
+  user_id: string;
+  rating: 1 | -1;
+  model_used?: string | null;
+  created_at: string;
+}
+
+/**
+ * A chat message matched by room search (search_messages)
+ */
+export interface MessageSearchResult {
+  chat_type: TypingChatType;
+  message_id: string;
+  /** NULL for AI tutor answers */
+  username: string | null;
+  /** Set for AI chat messages */
+  role: AIMessageRole | null;
+  /** Excerpt with the matched words wrapped in <mark> */
+  headline: string;
+  created_at: string;
+  rank: number;
+}
+
+/**
+ * A member currently typing in one of a subject's chats
+ */
+export interface TypingIndicatorRow {
+  id: string;
+  subject_id: string;
+  user_id: string;
+  username: string;
+  chat_type: TypingChatType;
+  started_at: string;
 }
 
 /**
@@ -142,6 +256,7 @@ export interface SendFriendMessageInput {
   subject_id: string;
   content: string;
   message_type?: MessageType;
+  metadata?: FriendMessageMetadata;
   file_url?: string;
   file_name?: string;
   file_size?: number;
@@ -163,7 +278,15 @@ export interface SendAIMessageInput {
 /**
  * Artifact type enum
  */
-export type ArtifactType = 'code' | 'image' | 'pdf' | 'diagram' | 'markdown' | 'html';
+export type ArtifactType =
+  | 'code'
+  | 'image'
+  | 'pdf'
+  | 'diagram'
+  | 'markdown'
+  | 'html'
+  | 'quiz'
+  | 'video';
 
 /**
  * Programming language for code artifacts
@@ -209,6 +332,17 @@ export interface Artifact {
   updated_at?: string;
 }
 
+/**
+ * Details of a video artifact saved from a call recording
+ */
+export interface ArtifactRecording {
+  durationSeconds: number;
+  /** Usernames of everyone in the call while it was recorded */
+  participants: string[];
+  startedAt: string;
+  endedAt: string;
+}
+
 /**
  * Input for creating an artifact
  */
@@ -6,7 +6,12 @@
 -- - subjects: Study rooms where students collaborate
 -- - subject_members: Membership and access control
 -- - friend_messages: Real-time group chat messages
+-- - poll_votes: Votes on polls posted in the group chat
 -- - ai_messages: AI tutor conversation history
+-- - ai_context_summaries: Running summary of older AI tutor turns
+-- - message_reactions: Emoji reactions on group and AI chat messages
+-- - ai_feedback: Thumbs up/down ratings of AI tutor answers
+-- - call_transcripts: Captions transcribed during video calls
 --
 -- Run this in Supabase SQL Editor to create the schema.
 -- =============================================================================
@@ -24,6 +29,12 @@ CREATE TABLE IF NOT EXISTS subjects (
     created_by TEXT NOT NULL,  -- MongoDB user ID
     invite_code TEXT UNIQUE NOT NULL,
     is_active BOOLEAN DEFAULT TRUE,
+    ai_provider TEXT DEFAULT 'openai' CHECK (ai_provider IN ('openai', 'local', 'mock')),
+    ai_model TEXT,  -- NULL uses the provider's default model
+    ai_persona TEXT,
+    ai_difficulty TEXT CHECK (ai_difficulty IN ('beginner', 'intermediate', 'advanced')),  -- NULL adapts to the student
+    ai_language TEXT,  -- NULL replies in the student's language
+    ai_instructions TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -70,7 +81,8 @@ CREATE TABLE IF NOT EXISTS friend_messages (
     user_id TEXT NOT NULL,  -- MongoDB user ID
     username TEXT NOT NULL,
     content TEXT NOT NULL,
-    message_type TEXT DEFAULT 'text' CHECK (message_type IN ('text', 'file', 'image', 'system')),
+    message_type TEXT DEFAULT 'text' CHECK (message_type IN ('text', 'file', 'image', 'system', 'poll')),
+    metadata JSONB,  -- Data for command messages (poll options, call mode, ...)
     file_url TEXT,
     file_name TEXT,
     file_size INTEGER,
@@ -90,6 +102,30 @@ CREATE INDEX IF NOT EXISTS idx_friend_messages_created_at ON friend_messages(cre
 CREATE INDEX IF NOT EXISTS idx_friend_messages_subject_created 
 ON friend_messages(subject_id, created_at DESC);
 
+-- Index for thread reply lookups
+CREATE INDEX IF NOT EXISTS idx_friend_messages_reply_to ON friend_messages(reply_to_id);
+
+-- Full-text index for room search (see search_messages)
+CREATE INDEX IF NOT EXISTS idx_friend_messages_search
+ON friend_messages USING GIN (to_tsvector('english', content));
+
+-- =============================================================================
+-- POLL VOTES (Votes on /poll messages)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS poll_votes (
+    message_id UUID NOT NULL REFERENCES friend_messages(id) ON DELETE CASCADE,
+    subject_id UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,  -- MongoDB user ID
+    option_index INTEGER NOT NULL CHECK (option_index >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- One vote per member per poll; voting again changes it
+    PRIMARY KEY (message_id, user_id)
+);
+
+-- Index for loading the votes of a subject's polls
+CREATE INDEX IF NOT EXISTS idx_poll_votes_subject_id ON poll_votes(subject_id);
+
 -- =============================================================================
 -- AI MESSAGES (AI Tutor Chat)
 -- =============================================================================
@@ -104,6 +140,9 @@ CREATE TABLE IF NOT EXISTS ai_messages (
     artifact_ids TEXT[],  -- Array of artifact IDs
     model_used TEXT,
     token_count INTEGER,
+    reply_to_id UUID REFERENCES ai_messages(id) ON DELETE SET NULL,  -- Question an AI response answers
+    variant_of UUID REFERENCES ai_messages(id) ON DELETE CASCADE,  -- Regenerated answer or edited question
+    sources JSONB,  -- Canvas artifacts cited by an AI response
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -117,6 +156,78 @@ CREATE INDEX IF NOT EXISTS idx_ai_messages_created_at ON ai_messages(created_at
 CREATE INDEX IF NOT EXISTS idx_ai_messages_subject_created 
 ON ai_messages(subject_id, created_at DESC);
 
+-- Full-text index for room search (see search_messages)
+CREATE INDEX IF NOT EXISTS idx_ai_messages_search
+ON ai_messages USING GIN (to_tsvector('english', content));
+
+-- =============================================================================
+-- MESSAGE REACTIONS (Emoji reactions in both chats)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS message_reactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL,  -- friend_messages or ai_messages ID, by chat_type
+    chat_type TEXT NOT NULL CHECK (chat_type IN ('friend', 'ai')),
+    subject_id UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,  -- MongoDB user ID
+    username TEXT NOT NULL,
+    emoji TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- A member reacts with each emoji at most once per message
+    UNIQUE(message_id, user_id, emoji)
+);
+
+-- Index for loading the reactions of a subject's chat
+CREATE INDEX IF NOT EXISTS idx_message_reactions_subject_chat
+ON message_reactions(subject_id, chat_type);
+
+-- =============================================================================
+-- AI FEEDBACK (Ratings of AI tutor answers)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS ai_feedback (
+    message_id UUID NOT NULL REFERENCES ai_messages(id) ON DELETE CASCADE,
+    subject_id UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,  -- MongoDB user ID
+    rating SMALLINT NOT NULL CHECK (rating IN (-1, 1)),
+    model_used TEXT,  -- Copied from the answer so ratings can be compared by model
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- One rating per member per answer; rating again changes it
+    PRIMARY KEY (message_id, user_id)
+);
+
+-- Index for reviewing a subject's tutor feedback
+CREATE INDEX IF NOT EXISTS idx_ai_feedback_subject_id ON ai_feedback(subject_id);
+
+-- =============================================================================
+-- AI CONTEXT SUMMARIES (Rolling summary of older AI chat turns)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS ai_context_summaries (
+    subject_id UUID PRIMARY KEY REFERENCES subjects(id) ON DELETE CASCADE,
+    summary TEXT NOT NULL,
+    summarized_until TIMESTAMPTZ NOT NULL,  -- created_at of the newest summarised ai_messages row
+    token_count INTEGER,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================================================
+-- CALL TRANSCRIPTS (Captions from video calls, for the post-call summary)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS call_transcripts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subject_id UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,  -- MongoDB user ID of the speaker
+    username TEXT NOT NULL,
+    content TEXT NOT NULL,
+    spoken_at TIMESTAMPTZ NOT NULL,  -- When the clip started, as reported by the speaker
+    summarized_at TIMESTAMPTZ,  -- Set once the segment is part of a call summary
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for loading a call's transcript in order
+CREATE INDEX IF NOT EXISTS idx_call_transcripts_subject_spoken
+ON call_transcripts(subject_id, spoken_at);
+
 -- =============================================================================
 -- TYPING INDICATORS (Temporary/Volatile)
 -- =============================================================================
@@ -143,7 +254,12 @@ CREATE INDEX IF NOT EXISTS idx_typing_indicators_subject ON typing_indicators(su
 ALTER TABLE subjects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE subject_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE friend_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ai_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_context_summaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_transcripts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE typing_indicators ENABLE ROW LEVEL SECURITY;
 
 -- =============================================================================
@@ -202,10 +318,26 @@ CREATE POLICY "friend_messages_insert_policy" ON friend_messages
 CREATE POLICY "friend_messages_update_policy" ON friend_messages
     FOR UPDATE USING (TRUE);
 
--- Users can delete their own messages (or admins)
+-- Users can delete their own messages (or owners/admins any message)
 CREATE POLICY "friend_messages_delete_policy" ON friend_messages
     FOR DELETE USING (TRUE);
 
+-- =============================================================================
+-- POLL VOTES POLICIES
+-- =============================================================================
+
+-- Approved members can see poll results
+CREATE POLICY "poll_votes_select_policy" ON poll_votes
+    FOR SELECT USING (TRUE);
+
+-- Approved members can vote
+CREATE POLICY "poll_votes_insert_policy" ON poll_votes
+    FOR INSERT WITH CHECK (TRUE);
+
+-- Members can change their vote
+CREATE POLICY "poll_votes_update_policy" ON poll_votes
+    FOR UPDATE USING (TRUE);
+
 -- =============================================================================
 -- AI MESSAGES POLICIES
 -- =============================================================================
@@ -225,6 +357,48 @@ CREATE POLICY "ai_messages_insert_policy" ON ai_messages
 CREATE POLICY "ai_messages_delete_policy" ON ai_messages
     FOR DELETE USING (TRUE);
 
+-- =============================================================================
+-- AI CONTEXT SUMMARIES POLICIES
+-- =============================================================================
+
+-- Summaries are written by the AI chat route with the service key
+-- (No client policies needed)
+
+-- =============================================================================
+-- MESSAGE REACTIONS POLICIES
+-- =============================================================================
+
+-- Approved members can see reactions
+CREATE POLICY "message_reactions_select_policy" ON message_reactions
+    FOR SELECT USING (TRUE);
+
+-- Approved members can react
+CREATE POLICY "message_reactions_insert_policy" ON message_reactions
+    FOR INSERT WITH CHECK (TRUE);
+
+-- Members can remove their reactions
+CREATE POLICY "message_reactions_delete_policy" ON message_reactions
+    FOR DELETE USING (TRUE);
+
+-- =============================================================================
+-- AI FEEDBACK POLICIES
+-- =============================================================================
+
+-- Approved members can see tutor ratings
+CREATE POLICY "ai_feedback_select_policy" ON ai_feedback
+    FOR SELECT USING (TRUE);
+
+-- Approved members can rate answers
+CREATE POLICY "ai_feedback_insert_policy" ON ai_feedback
+    FOR INSERT WITH CHECK (TRUE);
+
+-- Members can change or withdraw their rating
+CREATE POLICY "ai_feedback_update_policy" ON ai_feedback
+    FOR UPDATE USING (TRUE);
+
+CREATE POLICY "ai_feedback_delete_policy" ON ai_feedback
+    FOR DELETE USING (TRUE);
+
 -- =============================================================================
 -- TYPING INDICATORS POLICIES
 -- =============================================================================
@@ -278,6 +452,75 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Remove the reactions of deleted messages (message_reactions.message_id
+-- points into either chat table, so it can't cascade)
+CREATE OR REPLACE FUNCTION delete_message_reactions()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM message_reactions
+    WHERE message_id = OLD.id AND chat_type = TG_ARGV[0];
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER delete_friend_message_reactions
+    AFTER DELETE ON friend_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION delete_message_reactions('friend');
+
+CREATE TRIGGER delete_ai_message_reactions
+    AFTER DELETE ON ai_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION delete_message_reactions('ai');
+
+-- Full-text search over a subject's group chat and AI chat, best matches
+-- first, at most p_limit from each chat. headline is an excerpt of the
+-- message with the matched words wrapped in <mark>.
+CREATE OR REPLACE FUNCTION search_messages(p_subject_id UUID, p_query TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    chat_type TEXT,
+    message_id UUID,
+    username TEXT,
+    role TEXT,
+    headline TEXT,
+    created_at TIMESTAMPTZ,
+    rank REAL
+) AS $$
+    WITH search AS (
+        SELECT websearch_to_tsquery('english', p_query) AS query
+    ),
+    friend_matches AS (
+        SELECT m.id, m.username, m.content, m.created_at,
+               ts_rank(to_tsvector('english', m.content), search.query) AS rank
+        FROM friend_messages m, search
+        WHERE m.subject_id = p_subject_id
+          AND to_tsvector('english', m.content) @@ search.query
+        ORDER BY rank DESC, m.created_at DESC
+        LIMIT p_limit
+    ),
+    ai_matches AS (
+        SELECT m.id, m.username, m.role, m.content, m.created_at,
+               ts_rank(to_tsvector('english', m.content), search.query) AS rank
+        FROM ai_messages m, search
+        WHERE m.subject_id = p_subject_id
+          AND to_tsvector('english', m.content) @@ search.query
+        ORDER BY rank DESC, m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT 'friend', f.id, f.username, NULL,
+           ts_headline('english', f.content, search.query,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+           f.created_at, f.rank
+    FROM friend_matches f, search
+    UNION ALL
+    SELECT 'ai', a.id, a.username, a.role,
+           ts_headline('english', a.content, search.query,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2'),
+           a.created_at, a.rank
+    FROM ai_matches a, search
+    ORDER BY 7 DESC;
+$$ LANGUAGE sql STABLE;
+
 -- Function to auto-cleanup old typing indicators (older than 10 seconds)
 CREATE OR REPLACE FUNCTION cleanup_typing_indicators()
 RETURNS void AS $$
@@ -293,8 +536,10 @@ $$ LANGUAGE plpgsql;
 
 -- Enable realtime for the tables that need it
 ALTER PUBLICATION supabase_realtime ADD TABLE friend_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE poll_votes;
 ALTER PUBLICATION supabase_realtime ADD TABLE ai_messages;
 ALTER PUBLICATION supabase_realtime ADD TABLE subject_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
 ALTER PUBLICATION supabase_realtime ADD TABLE typing_indicators;
 
 -- =============================================================================
@@ -304,9 +549,20 @@ ALTER PUBLICATION supabase_realtime ADD TABLE typing_indicators;
 COMMENT ON TABLE subjects IS 'Study rooms where students collaborate';
 COMMENT ON TABLE subject_members IS 'Tracks membership and access control for subjects';
 COMMENT ON TABLE friend_messages IS 'Real-time group chat messages between friends';
+COMMENT ON TABLE poll_votes IS 'Votes on polls posted in the group chat with /poll';
 COMMENT ON TABLE ai_messages IS 'AI tutor conversation history';
+COMMENT ON TABLE ai_context_summaries IS 'Running summary of AI tutor turns that no longer fit the context budget';
+COMMENT ON TABLE message_reactions IS 'Emoji reactions on group chat and AI chat messages';
+COMMENT ON TABLE ai_feedback IS 'Thumbs up/down ratings of AI tutor answers, recorded from reactions';
+COMMENT ON TABLE call_transcripts IS 'Captions transcribed during video calls; only the server reads them, to summarize the call';
 COMMENT ON TABLE typing_indicators IS 'Temporary typing status indicators';
 
 COMMENT ON COLUMN subjects.invite_code IS 'Unique 6-character code for joining the subject';
+COMMENT ON COLUMN subjects.ai_provider IS 'LLM provider for the AI tutor: openai, local (OpenAI-compatible) or mock';
+COMMENT ON COLUMN subjects.ai_instructions IS 'Owner-written instructions merged into the AI tutor system prompt';
 COMMENT ON COLUMN subject_members.status IS 'pending: awaiting approval, approved: full access, rejected: denied';
+COMMENT ON COLUMN friend_messages.is_edited IS 'Set when the author edits the message; edited_at records when';
+COMMENT ON COLUMN friend_messages.metadata IS 'Command data: {command: ask|summarize|call, mode} for system messages, {options} for polls';
 COMMENT ON COLUMN ai_messages.artifact_ids IS 'Array of artifact IDs generated by AI response';
+COMMENT ON COLUMN ai_messages.variant_of IS 'First message of the slot this alternative belongs to; members page through the variants';
+COMMENT ON COLUMN ai_messages.sources IS 'Canvas artifacts cited by an AI response: [{index, artifactId, title}], index matching the [n] citations in content';